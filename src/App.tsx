@@ -4,6 +4,8 @@ import { CreateBill } from './components/CreateBill';
 import { BillHistory } from './components/BillHistory';
 import { Reports } from './components/Reports';
 import { StockManagement } from './components/StockManagement';
+import { Purchases } from './components/Purchases';
+import { Customers } from './components/Customers';
 import { Settings } from './components/Settings';
 import { Login } from './components/Login';
 import { Button } from './components/ui/button';
@@ -11,12 +13,15 @@ import { Toaster } from './components/ui/sonner';
 import { User, Bill } from './types';
 import { supabase } from './utils/supabase/client';
 import { projectId, publicAnonKey } from './utils/supabase/info';
+import { offlineStore } from './utils/offlineStore';
 import {
   LayoutDashboard,
   FileText,
   History,
   BarChart3,
   Package,
+  Truck,
+  Users,
   Settings as SettingsIcon,
   Menu,
   X,
@@ -25,7 +30,10 @@ import {
 
 import { PWAInstallBanner, PWAUpdateBanner, OfflineIndicator } from './usePWA';
 
-type Page = 'dashboard' | 'create-bill' | 'history' | 'reports' | 'stock' | 'settings';
+// Last signed-in user, so the app can open without a connection
+const OFFLINE_USER_KEY = 'offlineUser';
+
+type Page = 'dashboard' | 'create-bill' | 'history' | 'customers' | 'reports' | 'stock' | 'purchases' | 'settings';
 
 export default function App() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
@@ -44,20 +52,32 @@ export default function App() {
       const { data: { session }, error } = await supabase.auth.getSession();
       
       if (session && session.access_token) {
-        // Fetch user details
-        const response = await fetch(
-          `https://${projectId}.supabase.co/functions/v1/make-server-f305f05f/get-user`,
-          {
-            headers: {
-              'Authorization': `Bearer ${session.access_token}`,
-            },
-          }
-        );
+        try {
+          // Fetch user details
+          const response = await fetch(
+            `https://${projectId}.supabase.co/functions/v1/make-server-f305f05f/get-user`,
+            {
+              headers: {
+                'Authorization': `Bearer ${session.access_token}`,
+              },
+            }
+          );
 
-        const result = await response.json();
+          const result = await response.json();
 
-        if (result.success) {
-          setUser(result.user);
+          if (result.success) {
+            setUser(result.user);
+            setAccessToken(session.access_token);
+            localStorage.setItem(OFFLINE_USER_KEY, JSON.stringify(result.user));
+          }
+        } catch (error) {
+          // Offline: carry on as the user this session belongs to
+          const savedUser = localStorage.getItem(OFFLINE_USER_KEY);
+          const offlineUser: User | null = savedUser ? JSON.parse(savedUser) : null;
+          if (offlineUser?.id !== session.user.id) {
+            throw error;
+          }
+          setUser(offlineUser);
           setAccessToken(session.access_token);
         }
       }
@@ -71,9 +91,12 @@ export default function App() {
   const handleLogin = (loggedInUser: User, token: string) => {
     setUser(loggedInUser);
     setAccessToken(token);
+    localStorage.setItem(OFFLINE_USER_KEY, JSON.stringify(loggedInUser));
   };
 
   const handleLogout = async () => {
+    localStorage.removeItem(OFFLINE_USER_KEY);
+    await offlineStore.clearCache().catch(error => console.error('Error clearing offline cache:', error));
     await supabase.auth.signOut();
     setUser(null);
     setAccessToken(null);
@@ -99,8 +122,10 @@ export default function App() {
     { id: 'dashboard' as Page, label: 'Dashboard', icon: LayoutDashboard },
     { id: 'create-bill' as Page, label: 'Create Bill', icon: FileText },
     { id: 'history' as Page, label: 'Bill History', icon: History },
+    { id: 'customers' as Page, label: 'Customers', icon: Users },
     { id: 'reports' as Page, label: 'Reports', icon: BarChart3 },
     { id: 'stock' as Page, label: 'Stock', icon: Package },
+    ...(user.role === 'admin' ? [{ id: 'purchases' as Page, label: 'Purchases', icon: Truck }] : []),
     { id: 'settings' as Page, label: 'Settings', icon: SettingsIcon },
   ];
 
@@ -121,11 +146,15 @@ export default function App() {
       case 'create-bill':
         return <CreateBill user={user} editingBill={editingBill} onEditComplete={handleEditComplete} />;
       case 'history':
-        return <BillHistory onEditBill={handleEditBill} />;
+        return <BillHistory user={user} onEditBill={user.role === 'admin' ? handleEditBill : undefined} />;
+      case 'customers':
+        return <Customers user={user} />;
       case 'reports':
         return <Reports />;
       case 'stock':
-        return <StockManagement />;
+        return <StockManagement user={user} />;
+      case 'purchases':
+        return user.role === 'admin' ? <Purchases /> : <Dashboard />;
       case 'settings':
         return <Settings user={user} accessToken={accessToken} />;
       default:
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle } from 'lucide-react';
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onDetected: (code: string) => void;
+}
+
+// The Shape Detection API isn't in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+const SCAN_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+const SCAN_INTERVAL_MS = 300;
+
+// Camera barcode scanning for phones, with a typed code as the fallback
+// where the browser has no BarcodeDetector or the camera is unavailable
+export function BarcodeScannerDialog({ open, onClose, onDetected }: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState('');
+  const [manualCode, setManualCode] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    setManualCode('');
+    const Detector = (window as any).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('Camera scanning is not supported in this browser. Type the code instead.');
+      return;
+    }
+    setCameraError('');
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        const supported: string[] = await Detector.getSupportedFormats?.() ?? SCAN_FORMATS;
+        const detector: BarcodeDetectorLike = new Detector({
+          formats: SCAN_FORMATS.filter(format => supported.includes(format)),
+        });
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (barcode?.rawValue && !stopped) {
+              stopped = true;
+              onDetected(barcode.rawValue);
+            }
+          } catch (error) {
+            console.error('Barcode detection failed:', error);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error starting camera scanner:', error);
+        setCameraError('Could not open the camera. Allow camera access or type the code instead.');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open]);
+
+  const submitManualCode = () => {
+    if (manualCode.trim()) {
+      onDetected(manualCode.trim());
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Scan Barcode</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {cameraError ? (
+            <Alert className="border-yellow-200 bg-yellow-50 py-2">
+              <AlertCircle className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="text-yellow-800 text-sm">{cameraError}</AlertDescription>
+            </Alert>
+          ) : (
+            <video ref={videoRef} className="w-full rounded-lg bg-black aspect-video object-cover" muted playsInline />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="manualBarcode">Or enter the code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="manualBarcode"
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submitManualCode()}
+                placeholder="Barcode or SKU"
+                autoComplete="off"
+              />
+              <Button onClick={submitManualCode} disabled={!manualCode.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { billAPI } from '../utils/api';
+import type { Bill, BillAuditEvent, BillItem, BillPayment } from '../types';
+import { Button } from './ui/button';
+import { History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BillAuditHistoryProps {
+  billNumber: string;
+  isAdmin: boolean;
+  onRestored: (bill: Bill) => void;
+}
+
+const ACTION_LABELS: Record<BillAuditEvent['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  void: 'Cancelled',
+  restore: 'Restored',
+  payment: 'Payment received',
+  return: 'Items returned',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  customerName: 'Customer',
+  customerPhone: 'Phone',
+  customerId: 'Customer account',
+  items: 'Items',
+  subtotal: 'Subtotal',
+  discountType: 'Discount type',
+  discountValue: 'Discount',
+  discountAmount: 'Discount amount',
+  grandTotal: 'Total',
+  paymentMode: 'Payment mode',
+  payments: 'Payments',
+  amountPaid: 'Paid',
+  balanceDue: 'Balance due',
+  voided: 'Cancelled',
+  voidReason: 'Cancel reason',
+};
+
+// Versions of one bill, newest first, with what changed in each
+export function BillAuditHistory({ billNumber, isAdmin, onRestored }: BillAuditHistoryProps) {
+  const [events, setEvents] = useState<BillAuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [billNumber]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      setEvents(await billAPI.getBillHistory(billNumber));
+    } catch (error) {
+      console.error('Error loading bill history:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load bill history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatValue = (value: Bill[keyof Bill]): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) {
+      const entries: Array<BillItem | BillPayment> = value;
+      return entries
+        .map(entry => ('name' in entry ? `${entry.name} × ${entry.quantity}` : `${entry.mode} ${entry.amount}`))
+        .join(', ') || '—';
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore bill ${billNumber} to version ${version}? Stock will be adjusted to match.`)) {
+      return;
+    }
+
+    setRestoring(version);
+    try {
+      const bill = await billAPI.restoreBillVersion(billNumber, version);
+      toast.success(`Bill restored to version ${version}`);
+      onRestored(bill);
+      loadHistory();
+    } catch (error) {
+      console.error('Error restoring bill version:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore bill');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No history recorded for this bill</p>;
+  }
+
+  const latestVersion = events[0].version;
+
+  return (
+    <div className="space-y-3">
+      {events.map(event => (
+        <div key={event.version} className="border rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-semibold flex items-center gap-2">
+                <History className="h-4 w-4 text-muted-foreground" />
+                v{event.version} · {ACTION_LABELS[event.action] || event.action}
+                {event.version === latestVersion && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">
+                    Current
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatDate(event.timestamp)}{event.userName ? ` · ${event.userName}` : ''}
+              </p>
+              {event.reason && (
+                <p className="text-xs text-muted-foreground">Reason: {event.reason}</p>
+              )}
+            </div>
+            {isAdmin && event.version !== latestVersion && event.action !== 'void' && (
+              <Button
+                onClick={() => handleRestore(event.version)}
+                variant="outline"
+                size="sm"
+                disabled={restoring !== null}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {restoring === event.version ? 'Restoring...' : 'Restore'}
+              </Button>
+            )}
+          </div>
+          {event.action !== 'create' && event.changes.length > 0 && (
+            <table className="w-full text-sm mt-3">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b">
+                  <th className="py-1 pr-2 font-medium">Field</th>
+                  <th className="py-1 pr-2 font-medium">Before</th>
+                  <th className="py-1 font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {event.changes.map(change => (
+                  <tr key={change.field} className="border-b last:border-0 align-top">
+                    <td className="py-1 pr-2 font-medium">{FIELD_LABELS[change.field] || change.field}</td>
+                    <td className="py-1 pr-2 text-red-700 break-words">{formatValue(change.before)}</td>
+                    <td className="py-1 text-green-700 break-words">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,46 +1,185 @@
-import { useEffect, useState } from 'react';
-import { billAPI, settingsAPI } from '../utils/api';
-import type { Bill, BusinessSettings } from '../types';
+import { useEffect, useRef, useState } from 'react';
+import { billAPI, creditNoteAPI, settingsAPI } from '../utils/api';
+import type { Bill, BillPage, BillQuery, BusinessSettings, CreditNote, User } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
-import { Search, Printer, Eye, Trash2, Pencil } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Search, Printer, Eye, Ban, Pencil, Undo2, History } from 'lucide-react';
 import { BillPreview } from './BillPreview';
+import { CreditNoteDialog } from './CreditNoteDialog';
+import { CancelBillDialog } from './CancelBillDialog';
+import { BillAuditHistory } from './BillAuditHistory';
+import { getPaymentLabel } from '../utils/payments';
+import { ExportMenu, type ExportOption } from './ExportMenu';
+import {
+  BILL_REGISTER_COLUMNS,
+  LINE_ITEM_COLUMNS,
+  exportFileName,
+  exportTable,
+  fetchAllBills,
+  getLineItemRows,
+} from '../utils/exports';
 import { toast } from 'sonner';
 
+// Default for how long a seller can cancel their own bill; matches the server
+const DEFAULT_CANCEL_WINDOW_HOURS = 24;
+const PAGE_SIZE = 30;
+const RECENT_CREDIT_NOTES = 20;
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+const PAYMENT_MODE_FILTERS = ['Cash', 'UPI', 'Card', 'Credit'];
+
 interface BillHistoryProps {
+  user: User;
   onEditBill?: (bill: Bill) => void;
 }
 
-export function BillHistory({ onEditBill }: BillHistoryProps) {
+export function BillHistory({ user, onEditBill }: BillHistoryProps) {
   const [bills, setBills] = useState<Bill[]>([]);
-  const [filteredBills, setFilteredBills] = useState<Bill[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [paymentMode, setPaymentMode] = useState('all');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchTotal, setSearchTotal] = useState<number | null>(null);
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
   const [settings, setSettings] = useState<BusinessSettings | null>(null);
   const [loading, setLoading] = useState(true);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  // Credit notes of the bills loaded so far, for their returned amounts
+  const [billReturns, setBillReturns] = useState<CreditNote[]>([]);
+  const [returnBill, setReturnBill] = useState<Bill | null>(null);
+  const [billToCancel, setBillToCancel] = useState<Bill | null>(null);
+  const [voidedBills, setVoidedBills] = useState<Bill[]>([]);
+  const [activeTab, setActiveTab] = useState('bills');
+  const [historyBillNumber, setHistoryBillNumber] = useState<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Only the latest request may fill the list when filters change quickly
+  const requestRef = useRef(0);
 
   useEffect(() => {
-    loadBills();
     loadSettings();
+    loadCreditNotes();
+    loadVoidedBills();
   }, []);
 
   useEffect(() => {
-    filterBills();
-  }, [searchTerm, bills]);
+    const timer = setTimeout(() => setSearchQuery(searchTerm.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    loadBills();
+  }, [searchQuery, fromDate, toDate, paymentMode, minAmount, maxAmount]);
+
+  // Fetch the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        loadMoreBills();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  // Date inputs are calendar days in the shop's timezone
+  const getBillQuery = (): BillQuery => ({
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    paymentMode: paymentMode === 'all' ? undefined : paymentMode,
+  });
+
+  const isSearching = !!searchQuery || minAmount !== '' || maxAmount !== '';
+
+  // Searches come back ranked from the server; plain listings newest first
+  const fetchBills = async (cursor: string | null, limit = PAGE_SIZE): Promise<BillPage & { total?: number | null }> => {
+    if (!isSearching) {
+      return billAPI.getBills(getBillQuery(), cursor, limit);
+    }
+    return billAPI.searchBills({
+      ...getBillQuery(),
+      q: searchQuery || undefined,
+      minAmount: minAmount === '' ? undefined : Number(minAmount),
+      maxAmount: maxAmount === '' ? undefined : Number(maxAmount),
+    }, cursor, limit);
+  };
+
+  // Exports cover every bill the current search and filters match, not just the loaded pages
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Bill register',
+      run: async format => {
+        const { from, to } = getBillQuery();
+        const bills = await fetchAllBills(fetchBills);
+        await exportTable(exportFileName('bill-register', from, to), 'Bills', BILL_REGISTER_COLUMNS, bills, format);
+      },
+    },
+    {
+      label: 'Line items',
+      run: async format => {
+        const { from, to } = getBillQuery();
+        const rows = getLineItemRows(await fetchAllBills(fetchBills));
+        await exportTable(exportFileName('line-items', from, to), 'Line Items', LINE_ITEM_COLUMNS, rows, format);
+      },
+    },
+  ];
 
   const loadBills = async () => {
+    const request = ++requestRef.current;
     try {
-      const allBills = await billAPI.getAllBills();
-      setBills(allBills);
-      setFilteredBills(allBills);
+      const page = await fetchBills(null);
+      if (request !== requestRef.current) return;
+      setBills(page.bills);
+      setNextCursor(page.nextCursor);
+      setSearchTotal(page.total ?? null);
+      setBillReturns([]);
+      loadBillReturns(page.bills);
     } catch (error) {
       console.error('Error loading bills:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load bills');
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMoreBills = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchBills(nextCursor);
+      if (request !== requestRef.current) return;
+      setBills(current => [...current, ...page.bills]);
+      setNextCursor(page.nextCursor);
+      loadBillReturns(page.bills);
+    } catch (error) {
+      console.error('Error loading more bills:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load more bills');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadVoidedBills = async () => {
+    try {
+      const page = await billAPI.getBills({ status: 'cancelled' }, null, PAGE_SIZE);
+      setVoidedBills(page.bills);
+    } catch (error) {
+      console.error('Error loading cancelled bills:', error);
+    }
+  };
+
   const loadSettings = async () => {
     try {
       const businessSettings = await settingsAPI.getSettings();
@@ -50,21 +189,35 @@ export function BillHistory({ onEditBill }: BillHistoryProps) {
     }
   };
 
-  const filterBills = () => {
-    if (!searchTerm) {
-      setFilteredBills(bills);
-      return;
+  const loadCreditNotes = async () => {
+    try {
+      setCreditNotes(await creditNoteAPI.getCreditNotes(undefined, RECENT_CREDIT_NOTES));
+    } catch (error) {
+      console.error('Error loading credit notes:', error);
     }
+  };
 
-    const term = searchTerm.toLowerCase();
-    const filtered = bills.filter(bill => 
-      bill.billNumber.toLowerCase().includes(term) ||
-      bill.customerName?.toLowerCase().includes(term) ||
-      bill.date.includes(term)
-    );
-    setFilteredBills(filtered);
+  // Fetch the credit notes of these bills, replacing any already loaded for them
+  const loadBillReturns = async (billsToLoad: Bill[]) => {
+    const billNumbers = billsToLoad.filter(bill => !bill.pendingSync).map(bill => bill.billNumber);
+    if (billNumbers.length === 0) return;
+
+    try {
+      const notes = await creditNoteAPI.getCreditNotes(billNumbers);
+      setBillReturns(current => [
+        ...current.filter(note => !billNumbers.includes(note.billNumber)),
+        ...notes,
+      ]);
+    } catch (error) {
+      console.error('Error loading returns:', error);
+    }
   };
 
+  const getReturnedAmount = (billNumber: string) =>
+    billReturns
+      .filter(note => note.billNumber === billNumber)
+      .reduce((sum, note) => sum + note.total, 0);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -82,19 +235,35 @@ export function BillHistory({ onEditBill }: BillHistoryProps) {
     });
   };
 
-  const handleDelete = async (billNumber: string) => {
-    if (!confirm('Are you sure you want to delete this bill?')) {
-      return;
-    }
+  // Admins can cancel any bill; sellers only their own, within the cancel window
+  const canCancel = (bill: Bill) => {
+    if (bill.pendingSync) return false;
+    if (user.role === 'admin') return true;
+    const windowHours = settings?.cancelWindowHours ?? DEFAULT_CANCEL_WINDOW_HOURS;
+    return bill.sellerId === user.id &&
+      Date.now() - new Date(bill.date).getTime() <= windowHours * 60 * 60 * 1000;
+  };
 
-    try {
-      await billAPI.deleteBill(billNumber);
-      toast.success('Bill deleted successfully');
-      loadBills();
-    } catch (error) {
-      console.error('Error deleting bill:', error);
-      toast.error('Failed to delete bill');
-    }
+  const handleBillCancelled = () => {
+    setBillToCancel(null);
+    loadBills();
+    loadVoidedBills();
+  };
+
+  const showHistory = (billNumber: string) => {
+    setHistoryBillNumber(billNumber);
+    setActiveTab('history');
+  };
+
+  const handleBillRestored = () => {
+    loadBills();
+    loadVoidedBills();
+  };
+
+  const handleCreditNoteCreated = () => {
+    if (returnBill) loadBillReturns([returnBill]);
+    setReturnBill(null);
+    loadCreditNotes();
   };
 
   if (loading) {
@@ -115,83 +284,298 @@ export function BillHistory({ onEditBill }: BillHistoryProps) {
         <p className="text-muted-foreground">View and search all bills</p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <div className="flex items-center gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search by bill number, customer name, or date..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {filteredBills.length === 0 ? (
-            <p className="text-center text-muted-foreground py-8">
-              {searchTerm ? 'No bills found matching your search' : 'No bills created yet'}
-            </p>
-          ) : (
-            <div className="space-y-3">
-              {filteredBills.map(bill => (
-                <div
-                  key={bill.billNumber}
-                  className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <p className="font-semibold">{bill.billNumber}</p>
-                        {bill.paymentMode && (
-                          <span className="inline-flex items-center px-2 py-1 rounded text-xs bg-blue-100 text-blue-800">
-                            {bill.paymentMode}
-                          </span>
-                        )}
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="bills">Bills</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="bills" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by bill number, customer, phone, item, seller or notes..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <ExportMenu options={exportOptions} disabled={bills.length === 0} />
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mt-3">
+                <Input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  title="From"
+                />
+                <Input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  title="To"
+                />
+                <Select value={paymentMode} onValueChange={setPaymentMode}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Payment mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All payment modes</SelectItem>
+                    {PAYMENT_MODE_FILTERS.map(mode => (
+                      <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  value={minAmount}
+                  onChange={(e) => setMinAmount(e.target.value)}
+                  placeholder="Min amount"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                  placeholder="Max amount"
+                />
+              </div>
+              {isSearching && searchTotal !== null && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {searchTotal} matching bill{searchTotal !== 1 ? 's' : ''}, best matches first
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              {bills.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  {isSearching || fromDate || toDate || paymentMode !== 'all'
+                    ? 'No bills found matching your search'
+                    : 'No bills created yet'}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {bills.map(bill => (
+                    <div
+                      key={bill.billNumber}
+                      className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <p className="font-semibold">{bill.billNumber}</p>
+                            {getPaymentLabel(bill) && (
+                              <span className="inline-flex items-center px-2 py-1 rounded text-xs bg-blue-100 text-blue-800">
+                                {getPaymentLabel(bill)}
+                              </span>
+                            )}
+                            {!!bill.balanceDue && (
+                              <span className="inline-flex items-center px-2 py-1 rounded text-xs bg-orange-100 text-orange-800">
+                                Due {formatCurrency(bill.balanceDue)}
+                              </span>
+                            )}
+                            {bill.pendingSync && (
+                              <span className="inline-flex items-center px-2 py-1 rounded text-xs bg-yellow-100 text-yellow-800">
+                                Waiting to sync
+                              </span>
+                            )}
+                            {getReturnedAmount(bill.billNumber) > 0 && (
+                              <span className="inline-flex items-center px-2 py-1 rounded text-xs bg-red-100 text-red-800">
+                                Returned {formatCurrency(getReturnedAmount(bill.billNumber))}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {bill.customerName || 'Walk-in Customer'}
+                          </p>
+                          {bill.sellerName && (
+                            <p className="text-xs text-muted-foreground">
+                              Seller: {bill.sellerName}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatDate(bill.date)}
+                          </p>
+                          <div className="mt-2 text-sm space-y-1">
+                            <p className="text-muted-foreground">
+                              {bill.items.length} item{bill.items.length !== 1 ? 's' : ''}
+                            </p>
+                            {bill.discountValue && bill.discountValue > 0 && (
+                              <div className="flex items-center gap-2 text-xs">
+                                <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded">
+                                  Discount: {bill.discountType === 'percentage' 
+                                    ? `${bill.discountValue}%` 
+                                    : formatCurrency(bill.discountValue)}
+                                </span>
+                                <span className="text-muted-foreground">
+                                  Saved: {formatCurrency(bill.discountAmount || 0)}
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <div className="space-y-1">
+                            {bill.subtotal && bill.subtotal !== bill.grandTotal && (
+                              <p className="text-sm text-muted-foreground line-through">
+                                {formatCurrency(bill.subtotal)}
+                              </p>
+                            )}
+                            <p className="text-xl font-bold text-green-600">
+                              {formatCurrency(bill.grandTotal)}
+                            </p>
+                          </div>
+                          <div className="flex gap-2 mt-2">
+                            <Button
+                              onClick={() => setSelectedBill(bill)}
+                              variant="outline"
+                              size="sm"
+                              title="View Bill"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+
+                            {!bill.pendingSync && (user.role === 'admin' || bill.sellerId === user.id) && (
+                              <Button
+                                onClick={() => setReturnBill(bill)}
+                                variant="outline"
+                                size="sm"
+                                title="Return Items"
+                              >
+                                <Undo2 className="h-4 w-4 text-orange-600" />
+                              </Button>
+                            )}
+
+                            {onEditBill && !bill.pendingSync && getReturnedAmount(bill.billNumber) === 0 && (
+                              <Button
+                                onClick={() => onEditBill(bill)}
+                                variant="outline"
+                                size="sm"
+                                title="Edit Bill"
+                              >
+                                <Pencil className="h-4 w-4 text-blue-600" />
+                              </Button>
+                            )}
+
+                            {!bill.pendingSync && (user.role === 'admin' || bill.sellerId === user.id) && (
+                              <Button
+                                onClick={() => showHistory(bill.billNumber)}
+                                variant="outline"
+                                size="sm"
+                                title="Change History"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
+
+                            {canCancel(bill) && (
+                              <Button
+                                onClick={() => setBillToCancel(bill)}
+                                variant="outline"
+                                size="sm"
+                                title="Cancel Bill"
+                              >
+                                <Ban className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {bill.customerName || 'Walk-in Customer'}
-                      </p>
-                      {bill.sellerName && (
-                        <p className="text-xs text-muted-foreground">
-                          Seller: {bill.sellerName}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div ref={loadMoreRef} />
+              {loadingMore && (
+                <p className="text-center text-sm text-muted-foreground py-4">Loading more bills...</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {creditNotes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Credit Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {creditNotes.map(note => (
+                    <div key={note.creditNoteNumber} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {note.creditNoteNumber}
+                          <span className="text-muted-foreground font-normal"> against {note.billNumber}</span>
                         </p>
-                      )}
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {formatDate(bill.date)}
-                      </p>
-                      <div className="mt-2 text-sm space-y-1">
-                        <p className="text-muted-foreground">
-                          {bill.items.length} item{bill.items.length !== 1 ? 's' : ''}
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(note.date)} · {note.items.map(item => `${item.name} × ${item.quantity}`).join(', ')}
                         </p>
-                        {bill.discountValue && bill.discountValue > 0 && (
-                          <div className="flex items-center gap-2 text-xs">
-                            <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded">
-                              Discount: {bill.discountType === 'percentage' 
-                                ? `${bill.discountValue}%` 
-                                : formatCurrency(bill.discountValue)}
-                            </span>
-                            <span className="text-muted-foreground">
-                              Saved: {formatCurrency(bill.discountAmount || 0)}
-                            </span>
-                          </div>
+                        {note.reason && (
+                          <p className="text-xs text-muted-foreground">Reason: {note.reason}</p>
                         )}
                       </div>
-                    </div>
-                    <div className="text-right flex-shrink-0">
-                      <div className="space-y-1">
-                        {bill.subtotal && bill.subtotal !== bill.grandTotal && (
-                          <p className="text-sm text-muted-foreground line-through">
-                            {formatCurrency(bill.subtotal)}
-                          </p>
+                      <div className="text-right">
+                        <p className="font-semibold text-red-600">-{formatCurrency(note.total)}</p>
+                        {note.refundMode && (
+                          <p className="text-xs text-muted-foreground">{note.refundMode}</p>
                         )}
-                        <p className="text-xl font-bold text-green-600">
-                          {formatCurrency(bill.grandTotal)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {historyBillNumber ? `Change History · ${historyBillNumber}` : 'Change History'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historyBillNumber ? (
+                <BillAuditHistory
+                  billNumber={historyBillNumber}
+                  isAdmin={user.role === 'admin'}
+                  onRestored={handleBillRestored}
+                />
+              ) : (
+                <p className="text-center text-muted-foreground py-8">
+                  Pick a bill's history button to see who changed it and when
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {voidedBills.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cancelled Bills</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {voidedBills.map(bill => (
+                    <div key={bill.billNumber} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {bill.billNumber}
+                          <span className="text-muted-foreground font-normal"> · {bill.customerName || 'Walk-in Customer'}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Cancelled {bill.voidedAt ? formatDate(bill.voidedAt) : ''}{bill.voidedBy ? ` by ${bill.voidedBy}` : ''}
                         </p>
+                        {bill.voidReason && (
+                          <p className="text-xs text-muted-foreground">Reason: {bill.voidReason}</p>
+                        )}
                       </div>
-                      <div className="flex gap-2 mt-2">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-muted-foreground line-through">{formatCurrency(bill.grandTotal)}</p>
                         <Button
                           onClick={() => setSelectedBill(bill)}
                           variant="outline"
@@ -200,35 +584,36 @@ export function BillHistory({ onEditBill }: BillHistoryProps) {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-
-                        {onEditBill && (
-                          <Button
-                            onClick={() => onEditBill(bill)}
-                            variant="outline"
-                            size="sm"
-                            title="Edit Bill"
-                          >
-                            <Pencil className="h-4 w-4 text-blue-600" />
-                          </Button>
-                        )}
-
                         <Button
-                          onClick={() => handleDelete(bill.billNumber)}
+                          onClick={() => showHistory(bill.billNumber)}
                           variant="outline"
                           size="sm"
-                          title="Delete Bill"
+                          title="Change History"
                         >
-                          <Trash2 className="h-4 w-4 text-red-500" />
+                          <History className="h-4 w-4" />
                         </Button>
                       </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </CardContent>
+            </Card>
           )}
-        </CardContent>
-      </Card>
+        </TabsContent>
+      </Tabs>
+
+      <CancelBillDialog
+        bill={billToCancel}
+        onClose={() => setBillToCancel(null)}
+        onCancelled={handleBillCancelled}
+      />
+
+      <CreditNoteDialog
+        bill={returnBill}
+        creditNotes={billReturns}
+        onClose={() => setReturnBill(null)}
+        onCreated={handleCreditNoteCreated}
+      />
 
       {selectedBill && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
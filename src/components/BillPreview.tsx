@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import type { Bill, BusinessSettings } from '../types';
 import { Printer, Bluetooth, Check, AlertCircle } from 'lucide-react';
 import { Button } from './ui/button';
@@ -6,13 +6,19 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { BluetoothPrinterManager } from './BluetoothPrinterManager';
 import { bluetoothPrinter } from '../utils/bluetoothPrinter';
+import { getStateName, getTaxSummary } from '../utils/gst';
+import { getChangeGiven, getPaymentLabel, getSalePayments } from '../utils/payments';
+import { getUpiPayUrl } from '../utils/upi';
+import { QRCodeSVG } from 'qrcode.react';
 
 interface BillPreviewProps {
   bill: Bill;
   settings: BusinessSettings | null;
+  // Print as soon as the preview opens: to the Bluetooth printer if one is connected, else the browser
+  autoPrint?: boolean;
 }
 
-export function BillPreview({ bill, settings }: BillPreviewProps) {
+export function BillPreview({ bill, settings, autoPrint }: BillPreviewProps) {
   const [isPrinting, setIsPrinting] = useState(false);
   const [printError, setPrintError] = useState<string | null>(null);
   const [printSuccess, setPrintSuccess] = useState(false);
@@ -35,6 +41,16 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
     });
   };
 
+  // A bill carrying GST is a tax invoice and needs the HSN-wise tax summary
+  const isTaxInvoice = !!settings?.gst && bill.taxTotal !== undefined;
+  const taxSummary = isTaxInvoice ? getTaxSummary(bill.items) : [];
+  const placeOfSupply = bill.customerState || settings?.state;
+
+  // Split or referenced payments are listed one per line under the total
+  const salePayments = getSalePayments(bill).filter(payment => payment.amount > 0);
+  const showPaymentLines = salePayments.length > 1 || salePayments.some(payment => payment.reference || payment.tendered);
+  const upiPayUrl = getUpiPayUrl(bill, settings);
+
   const handleBluetoothPrint = async () => {
     if (!bluetoothPrinter.isConnected()) {
       setPrintError('Please connect to a Bluetooth printer first');
@@ -52,19 +68,35 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
         phone: settings?.phone,
         email: settings?.email,
         gst: settings?.gst,
+        isTaxInvoice,
         billNumber: bill.billNumber,
         date: formatDate(bill.date),
         customerName: bill.customerName,
+        customerGstin: bill.customerGstin,
+        placeOfSupply: placeOfSupply ? `${placeOfSupply}-${getStateName(placeOfSupply)}` : undefined,
         sellerName: bill.sellerName,
-        paymentMode: bill.paymentMode,
+        paymentMode: getPaymentLabel(bill),
+        payments: showPaymentLines ? salePayments : undefined,
+        change: getChangeGiven(bill),
+        amountPaid: bill.amountPaid,
+        balanceDue: bill.balanceDue,
         items: bill.items,
         subtotal: bill.subtotal || bill.grandTotal,
         discountType: bill.discountType,
         discountValue: bill.discountValue,
         discountAmount: bill.discountAmount,
+        isInterState: bill.isInterState,
+        taxableAmount: bill.taxableAmount,
+        cgstTotal: bill.cgstTotal,
+        sgstTotal: bill.sgstTotal,
+        igstTotal: bill.igstTotal,
+        taxSummary,
         grandTotal: bill.grandTotal,
         notes: bill.notes,
         termsAndConditions: settings?.termsAndConditions,
+        upiPayUrl: upiPayUrl || undefined,
+        cancelled: bill.voided,
+        cancelReason: bill.voidReason,
       };
 
       await bluetoothPrinter.printBill(printData);
@@ -84,6 +116,15 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
     window.print();
   };
 
+  useEffect(() => {
+    if (!autoPrint) return;
+    if (bluetoothPrinter.isConnected()) {
+      handleBluetoothPrint();
+    } else {
+      handleBrowserPrint();
+    }
+  }, [bill.billNumber, autoPrint]);
+
   return (
     <div className="space-y-4">
       {/* Print Controls */}
@@ -140,6 +181,9 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
       <div className="bill-preview bg-white p-6 max-w-md mx-auto border-2 border-dashed border-gray-300">
         {/* Business Header */}
         <div className="text-center border-b-2 border-black pb-3 mb-3">
+          {isTaxInvoice && (
+            <p className="text-xs font-bold uppercase tracking-widest mb-1">Tax Invoice</p>
+          )}
           <h1 className="text-xl font-bold uppercase tracking-wide">
             {settings?.businessName || 'Your Business Name'}
           </h1>
@@ -151,10 +195,20 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
             {settings?.email && <span>{settings.email}</span>}
           </div>
           {settings?.gst && (
-            <p className="text-xs mt-1">GST: {settings.gst}</p>
+            <p className="text-xs mt-1">GSTIN: {settings.gst}</p>
+          )}
+          {isTaxInvoice && settings?.state && (
+            <p className="text-xs">State: {settings.state}-{getStateName(settings.state)}</p>
           )}
         </div>
 
+        {bill.voided && (
+          <div className="text-center border-2 border-red-600 text-red-600 py-2 mb-3">
+            <p className="text-lg font-bold uppercase tracking-widest">Cancelled</p>
+            {bill.voidReason && <p className="text-xs">{bill.voidReason}</p>}
+          </div>
+        )}
+
         {/* Bill Info */}
         <div className="space-y-1 text-xs mb-3 border-b border-dashed border-gray-400 pb-3">
           <div className="flex justify-between">
@@ -171,16 +225,34 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
               <span>{bill.customerName}</span>
             </div>
           )}
+          {bill.customerPhone && (
+            <div className="flex justify-between">
+              <span className="font-semibold">Phone:</span>
+              <span>{bill.customerPhone}</span>
+            </div>
+          )}
+          {bill.customerGstin && (
+            <div className="flex justify-between">
+              <span className="font-semibold">Customer GSTIN:</span>
+              <span>{bill.customerGstin}</span>
+            </div>
+          )}
+          {isTaxInvoice && placeOfSupply && (
+            <div className="flex justify-between">
+              <span className="font-semibold">Place of Supply:</span>
+              <span>{placeOfSupply}-{getStateName(placeOfSupply)}</span>
+            </div>
+          )}
           {bill.sellerName && (
             <div className="flex justify-between">
               <span className="font-semibold">Seller:</span>
               <span>{bill.sellerName}</span>
             </div>
           )}
-          {bill.paymentMode && (
+          {getPaymentLabel(bill) && (
             <div className="flex justify-between">
               <span className="font-semibold">Payment:</span>
-              <span>{bill.paymentMode}</span>
+              <span>{getPaymentLabel(bill)}</span>
             </div>
           )}
         </div>
@@ -203,7 +275,14 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
               return (
                 <div key={index} className="space-y-1">
                   <div className="grid grid-cols-12 gap-1 text-xs">
-                    <div className="col-span-5 break-words">{item.name}</div>
+                    <div className="col-span-5 break-words">
+                      {item.name}
+                      {isTaxInvoice && (
+                        <div className="text-[10px] text-gray-600">
+                          {item.hsnCode && `HSN ${item.hsnCode} · `}GST {item.gstRate || 0}%
+                        </div>
+                      )}
+                    </div>
                     <div className="col-span-2 text-right">{item.quantity}</div>
                     <div className="col-span-2 text-right">{item.rate.toFixed(2)}</div>
                     <div className="col-span-3 text-right font-semibold">
@@ -254,12 +333,112 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
             </div>
           )}
           
+          {isTaxInvoice && (
+            <>
+              <div className="flex justify-between items-center text-xs">
+                <span>Taxable Value:</span>
+                <span>{formatCurrency(bill.taxableAmount || 0)}</span>
+              </div>
+              {bill.isInterState ? (
+                <div className="flex justify-between items-center text-xs">
+                  <span>IGST:</span>
+                  <span>{formatCurrency(bill.igstTotal || 0)}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center text-xs">
+                    <span>CGST:</span>
+                    <span>{formatCurrency(bill.cgstTotal || 0)}</span>
+                  </div>
+                  <div className="flex justify-between items-center text-xs">
+                    <span>SGST:</span>
+                    <span>{formatCurrency(bill.sgstTotal || 0)}</span>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
           <div className="flex justify-between items-center border-t border-dashed border-gray-400 pt-1">
             <span className="uppercase font-bold">Grand Total:</span>
             <span className="text-xl font-bold">{formatCurrency(bill.grandTotal)}</span>
           </div>
+          {showPaymentLines && salePayments.map((payment, index) => (
+            <div key={index} className="flex justify-between">
+              <span>
+                {payment.mode || 'Paid'}
+                {payment.reference && <span className="text-xs"> ({payment.reference})</span>}:
+              </span>
+              <span>{formatCurrency(payment.tendered || payment.amount)}</span>
+            </div>
+          ))}
+          {getChangeGiven(bill) > 0 && (
+            <div className="flex justify-between">
+              <span>Change:</span>
+              <span>{formatCurrency(getChangeGiven(bill))}</span>
+            </div>
+          )}
+          {!!bill.balanceDue && (
+            <>
+              <div className="flex justify-between">
+                <span>Paid:</span>
+                <span>{formatCurrency(bill.amountPaid || 0)}</span>
+              </div>
+              <div className="flex justify-between font-bold">
+                <span>Balance Due:</span>
+                <span>{formatCurrency(bill.balanceDue)}</span>
+              </div>
+            </>
+          )}
         </div>
 
+        {/* GST Summary */}
+        {isTaxInvoice && (
+          <div className="border-t border-dashed border-gray-400 pt-2 mb-3">
+            <p className="text-xs font-semibold uppercase mb-1">Tax Summary</p>
+            <div className={`grid ${bill.isInterState ? 'grid-cols-4' : 'grid-cols-5'} gap-1 text-[10px] font-bold border-b border-gray-400 pb-1`}>
+              <div>HSN</div>
+              <div className="text-right">Rate</div>
+              <div className="text-right">Taxable</div>
+              {bill.isInterState ? (
+                <div className="text-right">IGST</div>
+              ) : (
+                <>
+                  <div className="text-right">CGST</div>
+                  <div className="text-right">SGST</div>
+                </>
+              )}
+            </div>
+            {taxSummary.map(row => (
+              <div
+                key={`${row.hsnCode}-${row.gstRate}`}
+                className={`grid ${bill.isInterState ? 'grid-cols-4' : 'grid-cols-5'} gap-1 text-[10px] pt-1`}
+              >
+                <div className="break-words">{row.hsnCode}</div>
+                <div className="text-right">{row.gstRate}%</div>
+                <div className="text-right">{row.taxableValue.toFixed(2)}</div>
+                {bill.isInterState ? (
+                  <div className="text-right">{row.igstAmount.toFixed(2)}</div>
+                ) : (
+                  <>
+                    <div className="text-right">{row.cgstAmount.toFixed(2)}</div>
+                    <div className="text-right">{row.sgstAmount.toFixed(2)}</div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* UPI QR */}
+        {upiPayUrl && (
+          <div className="flex flex-col items-center border-t border-dashed border-gray-400 pt-2 mb-3">
+            <p className="text-xs font-semibold uppercase mb-1">Scan to pay with UPI</p>
+            <QRCodeSVG value={upiPayUrl} size={128} level="M" />
+            <p className="text-xs mt-1">{settings?.upiVpa} · {formatCurrency(bill.grandTotal)}</p>
+          </div>
+        )}
+
         {/* Notes */}
         {bill.notes && (
           <div className="border-t border-dashed border-gray-400 pt-2 mb-3">
@@ -278,6 +457,14 @@ export function BillPreview({ bill, settings }: BillPreviewProps) {
           </div>
         )}
 
+        {/* Signature */}
+        {isTaxInvoice && (
+          <div className="text-right text-xs pt-6 mb-3">
+            <p className="font-semibold">For {settings?.businessName}</p>
+            <p className="mt-6">Authorised Signatory</p>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="text-center border-t-2 border-black pt-3 mt-3">
           <p className="text-xs font-semibold">Thank you for your business!</p>
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import type { BillSeries, User } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../utils/supabase/info';
+
+interface BillSeriesSettingsProps {
+  series: BillSeries[];
+  accessToken: string;
+  loading: boolean;
+  onChange: (series: BillSeries[]) => void;
+  onSave: () => void;
+}
+
+const SHARED_SERIES = 'shared';
+
+// Mirrors the server's number format so admins can see what a series produces
+const previewNumber = (series: BillSeries) => {
+  const today = new Date();
+  let period = '';
+  if (series.reset === 'yearly') {
+    period = String(today.getFullYear());
+  } else if (series.reset === 'financial-year') {
+    const startYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+    period = `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+  const number = '1'.padStart(Number(series.padding) || 1, '0');
+  return period ? `${series.prefix}${period}-${number}` : `${series.prefix}${number}`;
+};
+
+export function BillSeriesSettings({ series, accessToken, loading, onChange, onSave }: BillSeriesSettingsProps) {
+  const [sellers, setSellers] = useState<User[]>([]);
+
+  useEffect(() => {
+    loadSellers();
+  }, []);
+
+  const loadSellers = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-f305f05f/get-sellers`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      const result = await response.json();
+
+      if (result.success) {
+        setSellers(result.sellers);
+      }
+    } catch (error) {
+      console.error('Error loading sellers:', error);
+    }
+  };
+
+  const addSeries = () => {
+    onChange([
+      ...series,
+      {
+        id: `series-${Date.now()}`,
+        name: series.length === 0 ? 'Default' : `Series ${series.length + 1}`,
+        prefix: 'BILL-',
+        padding: 4,
+        reset: 'yearly',
+      },
+    ]);
+  };
+
+  const updateSeries = (id: string, updates: Partial<BillSeries>) => {
+    onChange(series.map(s => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  const removeSeries = (id: string) => {
+    if (!confirm('Remove this series? Existing bills keep their numbers.')) {
+      return;
+    }
+    onChange(series.filter(s => s.id !== id));
+  };
+
+  const handleSave = () => {
+    if (series.some(s => !s.name.trim() || !s.prefix.trim())) {
+      toast.error('Every series needs a name and a prefix');
+      return;
+    }
+    const prefixes = series.map(s => s.prefix.trim().toUpperCase());
+    if (new Set(prefixes).size !== prefixes.length) {
+      toast.error('Each series must use a different prefix');
+      return;
+    }
+    onSave();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bill Numbering</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Bill numbers are assigned by the server when a bill is saved, so numbers are never skipped
+          or reused. Without a series, bills are numbered BILL-YYYY-0001.
+        </p>
+
+        {series.map(s => (
+          <div key={s.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">{s.name || 'Untitled series'}</p>
+              <Button onClick={() => removeSeries(s.id)} variant="ghost" size="sm" title="Remove Series">
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor={`${s.id}-name`}>Name</Label>
+                <Input
+                  id={`${s.id}-name`}
+                  value={s.name}
+                  onChange={(e) => updateSeries(s.id, { name: e.target.value })}
+                  placeholder="e.g., Counter 1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${s.id}-prefix`}>Prefix</Label>
+                <Input
+                  id={`${s.id}-prefix`}
+                  value={s.prefix}
+                  onChange={(e) => updateSeries(s.id, { prefix: e.target.value })}
+                  placeholder="e.g., INV-"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${s.id}-padding`}>Digits</Label>
+                <Input
+                  id={`${s.id}-padding`}
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={s.padding}
+                  onChange={(e) => updateSeries(s.id, { padding: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Reset Numbering</Label>
+                <Select
+                  value={s.reset}
+                  onValueChange={(value: BillSeries['reset']) => updateSeries(s.id, { reset: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="yearly">Every calendar year</SelectItem>
+                    <SelectItem value="financial-year">Every financial year (April)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Used By</Label>
+                <Select
+                  value={s.sellerId || SHARED_SERIES}
+                  onValueChange={(value) => updateSeries(s.id, { sellerId: value === SHARED_SERIES ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SHARED_SERIES}>Any seller / counter</SelectItem>
+                    {sellers.map(seller => (
+                      <SelectItem key={seller.id} value={seller.id}>
+                        {seller.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              First number: <span className="font-mono">{previewNumber(s)}</span>
+            </p>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={addSeries} variant="outline">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Series
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            <Save className="mr-2 h-4 w-4" />
+            {loading ? 'Saving...' : 'Save Numbering'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { billAPI } from '../utils/api';
+import type { Bill } from '../types';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { toast } from 'sonner';
+
+interface CancelBillDialogProps {
+  bill: Bill | null;
+  onClose: () => void;
+  onCancelled: (bill: Bill) => void;
+}
+
+// Cancel a bill with a mandatory reason. Its number stays taken and the bill
+// stays on record, marked cancelled, in its audit history.
+export function CancelBillDialog({ bill, onClose, onCancelled }: CancelBillDialogProps) {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+  }, [bill]);
+
+  const handleCancel = async () => {
+    if (!bill) return;
+    if (!reason.trim()) {
+      toast.error('Enter a reason for cancelling the bill');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const cancelled = await billAPI.voidBill(bill.billNumber, reason.trim());
+      toast.success(`Bill ${bill.billNumber} cancelled`);
+      onCancelled(cancelled);
+    } catch (error) {
+      console.error('Error cancelling bill:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Bill {bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            The items go back into stock and the bill no longer counts in sales.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="cancelReason">Reason *</Label>
+            <Textarea
+              id="cancelReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this bill being cancelled?"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={onClose} variant="outline" className="flex-1">
+              Keep Bill
+            </Button>
+            <Button
+              onClick={handleCancel}
+              variant="destructive"
+              className="flex-1"
+              disabled={saving || !reason.trim()}
+            >
+              {saving ? 'Cancelling...' : 'Cancel Bill'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
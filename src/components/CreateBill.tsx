@@ -1,16 +1,26 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { billAPI, stockAPI, settingsAPI } from '../utils/api';
-import type { Bill, BillItem, StockItem, BusinessSettings, User } from '../types';
+import { billAPI, stockAPI, settingsAPI, customerAPI, ApiError, isNetworkError } from '../utils/api';
+import { queueOfflineBill } from '../utils/offlineSync';
+import type { Bill, BillItem, BillSeries, Customer, ParkedBill, StockItem, BusinessSettings, PaymentMode, PriceTier, User } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Textarea } from './ui/textarea';
-import { Plus, Trash2, Save, Printer, X, AlertCircle, Lightbulb, Pencil } from 'lucide-react';
+import { Plus, Trash2, Save, Printer, X, AlertCircle, AlertTriangle, Lightbulb, Pencil, Camera, Keyboard, Pause, Play } from 'lucide-react';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { toast } from 'sonner';
 import { BillPreview } from './BillPreview';
+import { CustomerAutocomplete } from './CustomerAutocomplete';
+import { BarcodeScannerDialog } from './BarcodeScannerDialog';
 import { Alert, AlertDescription } from './ui/alert';
+import { GST_RATES, INDIAN_STATES, calculateBillTax, getStateFromGstin, getStateName, isInterStateSupply } from '../utils/gst';
+import { getCostPrice, getSellingPrice } from '../utils/pricing';
+import { getSalePayments, summariseTender, type TenderLine } from '../utils/payments';
+import { findStockByCode, useBarcodeScanner } from '../utils/barcode';
+import { getCurrentBill, loadParkedBills, parkBill, removeParkedBill, saveCurrentBill } from '../utils/parkedBills';
 
 interface CreateBillProps {
   user: User | null;
@@ -25,8 +35,23 @@ interface ItemModalProps {
   onSave: (item: BillItem) => void;
   initialItem: BillItem;
   stockItems: StockItem[];
+  priceTier: PriceTier;
 }
 
+const newTenderLine = (mode: PaymentMode = 'Cash'): TenderLine => ({ mode, amount: '', reference: '' });
+
+const PAYMENT_MODES: PaymentMode[] = ['Cash', 'UPI', 'Card'];
+const MAX_CODE_SUGGESTIONS = 6;
+
+// "3*8901234567890" or "3x sugar" adds three of the item
+const parseItemCode = (input: string): { quantity: number; code: string } => {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*[*xX]\s*(.+)$/);
+  return match ? { quantity: Number(match[1]), code: match[2].trim() } : { quantity: 1, code: input.trim() };
+};
+
+// Put the cursor back in the item code field between items and bills
+const focusItemCode = () => document.getElementById('itemCode')?.focus();
+
 const initialNewItem: BillItem = {
   id: '', // Will be generated in saveItem if adding
   name: '',
@@ -38,7 +63,18 @@ const initialNewItem: BillItem = {
   discountAmount: 0,
 };
 
-function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemModalProps) {
+// Line total after the item discount, for lines added without the item form
+const priceBillItem = (item: BillItem): BillItem => {
+  const subtotal = (Number(item.quantity) || 0) * (Number(item.rate) || 0);
+  const discountValue = Number(item.discountValue) || 0;
+  let discountAmount = 0;
+  if (discountValue > 0) {
+    discountAmount = item.discountType === 'fixed' ? Math.min(discountValue, subtotal) : (subtotal * discountValue) / 100;
+  }
+  return { ...item, discountAmount, total: Math.max(0, subtotal - discountAmount) };
+};
+
+function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems, priceTier }: ItemModalProps) {
   // --- START: ALL HOOKS MUST BE UNCONDITIONAL ---
   const [item, setItem] = useState<BillItem>(initialItem);
   const [stockSearch, setStockSearch] = useState('');
@@ -91,8 +127,10 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
 
   const filteredStock = useMemo(() => { 
     if (stockSearch.length < 1) return []; // Only show suggestions if user starts typing
+    const term = stockSearch.toLowerCase();
     return stockItems.filter(stock => 
-      stock.name.toLowerCase().includes(stockSearch.toLowerCase())
+      stock.name.toLowerCase().includes(term) ||
+      stock.barcodes?.some(code => code.toLowerCase() === term)
     ).slice(0, 5); // Limit suggestions to 5
   }, [stockItems, stockSearch]);
   // --- END: ALL HOOKS MUST BE UNCONDITIONAL ---
@@ -112,6 +150,8 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
         const isLinkedStockName = stockItems.some(s => s.id === item.stockId && s.name === value);
         if (item.stockId && !isLinkedStockName) {
             updated.stockId = '';
+            updated.costPrice = undefined;
+            updated.mrp = undefined;
         }
         updated.name = value;
     } else {
@@ -134,7 +174,11 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
       const stockItem = stockItems.find(s => s.id === value);
       if (stockItem) {
         updated.name = stockItem.name;
-        updated.rate = stockItem.purchaseRate || 0;
+        updated.rate = getSellingPrice(stockItem, priceTier);
+        updated.costPrice = getCostPrice(stockItem);
+        updated.mrp = stockItem.mrp;
+        updated.hsnCode = stockItem.hsnCode || '';
+        updated.gstRate = stockItem.gstRate || 0;
         updated.total = calculateTotal(quantity, updated.rate || 0, discountType, discountValue);
         updated.discountAmount = calculateDiscountAmount(quantity, updated.rate || 0, discountType, discountValue);
       }
@@ -145,7 +189,7 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
   
   const handleSelectStock = (stock: StockItem) => {
     const quantity = Number(item.quantity) || 1; // Keep current quantity if set
-    const rate = stock.purchaseRate || 0;
+    const rate = getSellingPrice(stock, priceTier);
     const discountType = item.discountType || 'percentage';
     const discountValue = Number(item.discountValue) || 0;
 
@@ -153,9 +197,12 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
         ...item,
         stockId: stock.id,
         name: stock.name,
-        // Assuming purchaseRate is the rate to use for the bill
         rate: rate,
+        costPrice: getCostPrice(stock),
+        mrp: stock.mrp,
         quantity: quantity,
+        hsnCode: stock.hsnCode || item.hsnCode,
+        gstRate: stock.gstRate ?? item.gstRate,
         total: calculateTotal(quantity, rate, discountType, discountValue),
         discountAmount: calculateDiscountAmount(quantity, rate, discountType, discountValue),
     };
@@ -187,6 +234,8 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
         discountValue: discountValue,
         discountAmount: calculateDiscountAmount(quantity, rate, discountType, discountValue),
         total: calculateTotal(quantity, rate, discountType, discountValue),
+        hsnCode: item.hsnCode?.trim() || undefined,
+        gstRate: Number(item.gstRate) || 0,
     };
 
     onSave(itemToSave);
@@ -196,6 +245,11 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
   };
 
 
+  // Per-unit price after the item discount, compared against what the item cost us
+  const effectiveRate = Number(item.quantity) > 0 ? Number(item.total) / Number(item.quantity) : Number(item.rate) || 0;
+  const isBelowCost = !!item.costPrice && effectiveRate > 0 && effectiveRate < item.costPrice;
+  const isAboveMrp = !!item.mrp && Number(item.rate) > item.mrp;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg max-w-xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
@@ -237,7 +291,7 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
                                     onClick={() => handleSelectStock(stock)}
                                 >
                                     <span>{stock.name}</span>
-                                    <span className="text-xs text-muted-foreground">Qty: {stock.quantity}</span>
+                                    <span className="text-xs text-muted-foreground">₹{getSellingPrice(stock, priceTier).toFixed(2)} · Qty: {stock.quantity}</span>
                                 </li>
                             ))}
                         </ul>
@@ -277,6 +331,14 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
                             handleUpdate("rate", val === "" ? null : Number(val));
                         }}
                     />
+                    {(item.costPrice !== undefined || item.mrp) && (
+                        <p className="text-xs text-muted-foreground">
+                            {[
+                                item.costPrice !== undefined && `Cost ₹${item.costPrice.toFixed(2)}`,
+                                item.mrp && `MRP ₹${item.mrp.toFixed(2)}`,
+                            ].filter(Boolean).join(' · ')}
+                        </p>
+                    )}
                 </div>
                 <div className="space-y-2">
                     <Label>Subtotal (₹)</Label>
@@ -289,6 +351,45 @@ function ItemModal({ isOpen, onClose, onSave, initialItem, stockItems }: ItemMod
                 </div>
             </div>
 
+            {(isBelowCost || isAboveMrp) && (
+                <Alert className="border-yellow-200 bg-yellow-50 py-2">
+                    <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                    <AlertDescription className="text-yellow-800 text-sm">
+                        {isBelowCost
+                            ? `Selling at ₹${effectiveRate.toFixed(2)} per unit is below the cost price of ₹${item.costPrice!.toFixed(2)}.`
+                            : `Rate is above the MRP of ₹${item.mrp!.toFixed(2)}.`}
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {/* Tax Details */}
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label>HSN/SAC Code</Label>
+                    <Input
+                        value={item.hsnCode || ''}
+                        onChange={(e) => handleUpdate('hsnCode', e.target.value)}
+                        placeholder="e.g., 7323"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label>GST Rate</Label>
+                    <Select
+                        value={String(item.gstRate || 0)}
+                        onValueChange={(value) => handleUpdate('gstRate', Number(value))}
+                    >
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {GST_RATES.map(rate => (
+                                <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
             {/* Item Discount Section */}
             <div className="border-t pt-4 space-y-4">
                 <Label className="text-sm font-semibold">Item Discount (Optional)</Label>
@@ -360,11 +461,20 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
   const [billNumber, setBillNumber] = useState('');
   const [suggestedBillNumber, setSuggestedBillNumber] = useState('');
   const [billNumberError, setBillNumberError] = useState('');
+  const [seriesId, setSeriesId] = useState('');
+  const [customerId, setCustomerId] = useState('');
   const [customerName, setCustomerName] = useState('');
-  const [paymentMode, setPaymentMode] = useState<'' | 'Cash' | 'UPI' | 'Card'>('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [customerState, setCustomerState] = useState('');
+  const [tenderLines, setTenderLines] = useState<TenderLine[]>([newTenderLine()]);
+  // Whatever the payments don't cover goes on the customer's account
+  const [payOnCredit, setPayOnCredit] = useState(false);
+  const [priceTier, setPriceTier] = useState<PriceTier>('retail');
   const [notes, setNotes] = useState('');
   const [items, setItems] = useState<BillItem[]>([]);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [settings, setSettings] = useState<BusinessSettings | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [createdBill, setCreatedBill] = useState<Bill | null>(null);
@@ -381,20 +491,84 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
       id: '', name: '', quantity: 1, rate: 0, total: 0
   });
 
+  // Barcode / SKU entry
+  const [itemCode, setItemCode] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+
+  // Keyboard (POS) mode: item grid with inline quantities and function-key shortcuts
+  const [posMode, setPosMode] = useState(() => localStorage.getItem('billPosMode') === 'true');
+  const [autoPrint, setAutoPrint] = useState(false);
+
+  // Parked bills. cartId is set while a resumed bill is on screen so parking it again keeps its id.
+  const [cartId, setCartId] = useState('');
+  const [parkedBills, setParkedBills] = useState<ParkedBill[]>([]);
+  const [isParkedOpen, setIsParkedOpen] = useState(false);
+
   useEffect(() => {
     loadStock();
     loadSettings();
+    loadCustomers();
+    loadParkedBills(user?.id).then(setParkedBills);
+  }, []);
+
+  // Pick up the bill that was on screen before the seller left the page
+  useEffect(() => {
+    if (editingBill) return;
+    const current = getCurrentBill(user?.id);
+    if (current) {
+      restoreCart(current);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (editingBill) return;
+    const hasContent = items.length > 0 || !!customerName.trim();
+    saveCurrentBill(user?.id, hasContent ? buildCart() : null);
+  }, [items, customerId, customerName, customerPhone, customerGstin, customerState, tenderLines, payOnCredit, priceTier, notes, discountType, discountValue]);
+
+  // Series this user may bill from: shared/counter series plus their own
+  const availableSeries = useMemo<BillSeries[]>(() => {
+    return (settings?.billSeries || []).filter(series => !series.sellerId || series.sellerId === user?.id);
+  }, [settings, user]);
+
+  const hasWholesalePrices = useMemo(() => stockItems.some(stock => !!stock.wholesalePrice), [stockItems]);
+
+  useEffect(() => {
+    if (editingBill || availableSeries.length === 0) return;
+    // Prefer the series last used on this counter, then the seller's own series
+    const savedSeriesId = localStorage.getItem('billSeriesId');
+    const series = availableSeries.find(s => s.id === savedSeriesId)
+      || availableSeries.find(s => s.sellerId === user?.id)
+      || availableSeries[0];
+    setSeriesId(series.id);
+  }, [availableSeries, editingBill]);
+
+  useEffect(() => {
     if (!editingBill) {
       loadSuggestedBillNumber();
     }
-  }, []);
+  }, [seriesId]);
 
   useEffect(() => {
     if (editingBill) {
       setIsEditMode(true);
       setBillNumber(editingBill.billNumber);
+      setSeriesId(editingBill.seriesId || '');
+      setCustomerId(editingBill.customerId || '');
       setCustomerName(editingBill.customerName || '');
-      setPaymentMode(editingBill.paymentMode || '');
+      setCustomerPhone(editingBill.customerPhone || '');
+      setCustomerGstin(editingBill.customerGstin || '');
+      setCustomerState(editingBill.customerState || '');
+      const salePayments = getSalePayments(editingBill).filter(payment => payment.amount > 0);
+      setTenderLines(salePayments.map(payment => ({
+        mode: (payment.mode || 'Cash') as PaymentMode,
+        amount: String(payment.tendered || payment.amount),
+        reference: payment.reference || '',
+      })));
+      const paidAtSale = salePayments.reduce((sum, payment) => sum + payment.amount, 0);
+      setPayOnCredit(paidAtSale < editingBill.grandTotal - 0.005);
+      setPriceTier(editingBill.priceTier || 'retail');
       setNotes(editingBill.notes || '');
       setItems(editingBill.items || []);
       setDiscountType(editingBill.discountType || 'fixed');
@@ -404,13 +578,11 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
 
   const loadSuggestedBillNumber = async () => {
     try {
-      const suggested = await billAPI.getNextBillNumber();
+      const suggested = await billAPI.getNextBillNumber(seriesId || undefined);
       setSuggestedBillNumber(suggested);
     } catch (error) {
       console.error('Error loading suggested bill number:', error);
-      const year = new Date().getFullYear();
-      const month = String(new Date().getMonth() + 1).padStart(2, '0');
-      setSuggestedBillNumber(`${year}-${month}-001`);
+      setSuggestedBillNumber('');
     }
   };
 
@@ -432,6 +604,15 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
     }
   };
 
+  const loadCustomers = async () => {
+    try {
+      const allCustomers = await customerAPI.getAllCustomers();
+      setCustomers(allCustomers);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    }
+  };
+
   const checkBillNumberUnique = async (number: string): Promise<boolean> => {
     try {
       const bill = await billAPI.getBillByNumber(number);
@@ -442,24 +623,65 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
     }
   };
 
-  const handleBillNumberChange = (value: string) => {
-    setBillNumber(value);
-    setBillNumberError('');
+  const handleCustomerGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    setCustomerGstin(gstin);
+    // Place of supply follows the state code in the customer's GSTIN
+    const state = getStateFromGstin(gstin);
+    if (state) {
+      setCustomerState(state);
+    }
   };
 
-  const useSuggestedNumber = async () => {
+  // Typing a different name unlinks the saved customer
+  const handleCustomerNameChange = (value: string) => {
+    setCustomerName(value);
+    setCustomerId('');
+  };
+
+  const selectCustomer = (customer: Customer) => {
+    setCustomerId(customer.id);
+    setCustomerName(customer.name);
+    setCustomerPhone(customer.phone || '');
+    setCustomerGstin(customer.gstin || '');
+    setCustomerState(customer.state || '');
+  };
+
+  // Save the customer being billed using the details already on the form
+  const createCustomer = async (name: string) => {
     try {
-      const freshSuggestion = await billAPI.getNextBillNumber();
-      setSuggestedBillNumber(freshSuggestion);
-      setBillNumber(freshSuggestion);
-      setBillNumberError('');
+      const customer = await customerAPI.addCustomer({
+        name,
+        phone: customerPhone.trim() || undefined,
+        gstin: customerGstin.trim() || undefined,
+        state: customerState || undefined,
+      });
+      setCustomers([...customers, customer].sort((a, b) => a.name.localeCompare(b.name)));
+      selectCustomer(customer);
+      toast.success(`Customer ${customer.name} added`);
     } catch (error) {
-      console.error('Error fetching fresh suggestion:', error);
-      setBillNumber(suggestedBillNumber);
-      setBillNumberError('');
+      console.error('Error adding customer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add customer');
     }
   };
 
+  const handleBillNumberChange = (value: string) => {
+    setBillNumber(value);
+    setBillNumberError('');
+  };
+
+  const handleSeriesChange = (value: string) => {
+    setSeriesId(value);
+    localStorage.setItem('billSeriesId', value);
+  };
+
+  // Clear a manual number so the server assigns the next one in the series
+  const useSeriesNumber = () => {
+    setBillNumber('');
+    setBillNumberError('');
+    loadSuggestedBillNumber();
+  };
+
   // ------------------------------------------------------------------
   // Item CRUD with Modal
   // ------------------------------------------------------------------
@@ -499,6 +721,93 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
     toast.info('Item removed.');
   };
 
+  // Add a stock item to the bill, or more of it if it's already there
+  const addStockItem = (stock: StockItem, quantity = 1) => {
+    // Functional update: scans can arrive faster than React re-renders
+    setItems(current => {
+      const existing = current.find(item => item.stockId === stock.id);
+      if (existing) {
+        return current.map(item =>
+          item.id === existing.id ? priceBillItem({ ...item, quantity: (Number(item.quantity) || 0) + quantity }) : item
+        );
+      }
+      return [...current, priceBillItem({
+        id: `item-${Date.now()}-${current.length}`,
+        stockId: stock.id,
+        name: stock.name,
+        quantity,
+        rate: getSellingPrice(stock, priceTier),
+        costPrice: getCostPrice(stock),
+        mrp: stock.mrp,
+        hsnCode: stock.hsnCode,
+        gstRate: stock.gstRate || 0,
+        total: 0,
+        discountType: 'percentage',
+        discountValue: 0,
+        discountAmount: 0,
+      })];
+    });
+    toast.success(quantity === 1 ? `${stock.name} added` : `${quantity} x ${stock.name} added`);
+  };
+
+  // Add the stock item with this barcode/SKU
+  const addItemByCode = (input: string): boolean => {
+    const { quantity, code } = parseItemCode(input);
+    const stock = findStockByCode(stockItems, code);
+    if (!stock) {
+      toast.error(`No stock item with code ${code}`);
+      return false;
+    }
+    addStockItem(stock, quantity);
+    return true;
+  };
+
+  const updateItemQuantity = (id: string, quantity: number) => {
+    setItems(items.map(item => (item.id === id ? priceBillItem({ ...item, quantity }) : item)));
+  };
+
+  // Name matches for the item code field when it isn't an exact barcode/SKU
+  const codeSearch = parseItemCode(itemCode).code.toLowerCase();
+  const codeSuggestions = codeSearch && !findStockByCode(stockItems, codeSearch)
+    ? stockItems.filter(stock => stock.name.toLowerCase().includes(codeSearch)).slice(0, MAX_CODE_SUGGESTIONS)
+    : [];
+
+  const handleItemCodeChange = (value: string) => {
+    setItemCode(value);
+    setSuggestionIndex(0);
+  };
+
+  const addSuggestion = (stock: StockItem) => {
+    addStockItem(stock, parseItemCode(itemCode).quantity);
+    setItemCode('');
+    focusItemCode();
+  };
+
+  // Enter adds an exact barcode/SKU match, else the highlighted name match
+  const handleItemCodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSuggestionIndex(Math.min(Math.max(0, suggestionIndex + step), Math.max(0, codeSuggestions.length - 1)));
+      return;
+    }
+    if (e.key === 'Escape') {
+      setItemCode('');
+      return;
+    }
+    if (e.key !== 'Enter' || !itemCode.trim()) return;
+    e.preventDefault();
+    const suggestion = codeSuggestions[suggestionIndex];
+    if (suggestion) {
+      addSuggestion(suggestion);
+    } else if (addItemByCode(itemCode)) {
+      setItemCode('');
+    }
+  };
+
+  // A wedge scanner used while no field has focus adds straight to the bill
+  useBarcodeScanner(addItemByCode, !isItemModalOpen && !isScannerOpen && !showPreview);
+
   // ------------------------------------------------------------------
   // Calculation functions (remain the same)
   // ------------------------------------------------------------------
@@ -517,19 +826,144 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
     }
   };
 
+  const isInterState = isInterStateSupply(settings?.state, customerState);
+
+  const calculateTax = () => {
+    return calculateBillTax(items, calculateDiscountAmount(), {
+      interState: isInterState,
+      pricesIncludeTax: settings?.pricesIncludeTax !== false,
+    });
+  };
+
   const calculateGrandTotal = () => {
-    const subtotal = calculateSubtotal();
-    const discount = calculateDiscountAmount();
-    return Math.max(0, subtotal - discount);
+    return calculateTax().grandTotal;
+  };
+
+  const updateTenderLine = (index: number, updates: Partial<TenderLine>) => {
+    setTenderLines(tenderLines.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  // A new line starts on a different mode than the first, the usual split being cash + UPI
+  const addTenderLine = () => {
+    setTenderLines([...tenderLines, newTenderLine(tenderLines[0]?.mode === 'Cash' ? 'UPI' : 'Cash')]);
+  };
+
+  const removeTenderLine = (index: number) => {
+    setTenderLines(tenderLines.filter((_, i) => i !== index));
+  };
+
+  // F2: step the first payment line through Cash, UPI and Card
+  const cyclePaymentMode = () => {
+    const current = tenderLines[0]?.mode || 'Cash';
+    const next = PAYMENT_MODES[(PAYMENT_MODES.indexOf(current) + 1) % PAYMENT_MODES.length];
+    updateTenderLine(0, { mode: next });
+    toast.info(`Payment: ${next}`);
+  };
+
+  // ------------------------------------------------------------------
+  // Parked bills
+  // ------------------------------------------------------------------
+
+  const buildCart = (id = cartId): ParkedBill => ({
+    id,
+    sellerId: user?.id,
+    parkedAt: new Date().toISOString(),
+    seriesId: seriesId || undefined,
+    customerId: customerId || undefined,
+    customerName: customerName || undefined,
+    customerPhone: customerPhone || undefined,
+    customerGstin: customerGstin || undefined,
+    customerState: customerState || undefined,
+    priceTier,
+    items,
+    discountType,
+    discountValue: discountValue || 0,
+    tenderLines,
+    payOnCredit,
+    notes: notes || undefined,
+  });
+
+  const restoreCart = (bill: ParkedBill) => {
+    setCartId(bill.id);
+    if (bill.seriesId && availableSeries.some(series => series.id === bill.seriesId)) {
+      handleSeriesChange(bill.seriesId);
+    }
+    setCustomerId(bill.customerId || '');
+    setCustomerName(bill.customerName || '');
+    setCustomerPhone(bill.customerPhone || '');
+    setCustomerGstin(bill.customerGstin || '');
+    setCustomerState(bill.customerState || '');
+    setPriceTier(bill.priceTier || 'retail');
+    setItems(bill.items || []);
+    setDiscountType(bill.discountType || 'fixed');
+    setDiscountValue(bill.discountValue || 0);
+    setTenderLines(bill.tenderLines?.length ? bill.tenderLines : [newTenderLine()]);
+    setPayOnCredit(!!bill.payOnCredit);
+    setNotes(bill.notes || '');
+  };
+
+  const clearBillForm = () => {
+    setCartId('');
+    setCustomerId('');
+    setCustomerName('');
+    setCustomerPhone('');
+    setCustomerGstin('');
+    setCustomerState('');
+    setTenderLines([newTenderLine()]);
+    setPayOnCredit(false);
+    setPriceTier('retail');
+    setNotes('');
+    setItems([]);
+    setDiscountType('fixed');
+    setDiscountValue(0);
+    setBillNumber('');
+    setBillNumberError('');
+  };
+
+  // Put the bill on screen aside and start a fresh one
+  const handleParkBill = async () => {
+    if (isEditMode || items.length === 0) return;
+    const cart = buildCart(cartId || `draft-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`);
+    clearBillForm();
+    setParkedBills(await parkBill(cart));
+    toast.success(`Bill for ${cart.customerName || 'walk-in customer'} parked`);
+    if (posMode) {
+      focusItemCode();
+    }
+  };
+
+  // Bring back a parked bill. Whatever was on screen is parked in its place.
+  const handleResumeBill = async (bill: ParkedBill) => {
+    if (items.length > 0) {
+      await parkBill(buildCart(cartId || `draft-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`));
+    }
+    setParkedBills(await removeParkedBill(user?.id, bill.id));
+    restoreCart(bill);
+    setIsParkedOpen(false);
+  };
+
+  const handleDiscardParkedBill = async (bill: ParkedBill) => {
+    if (!confirm(`Discard the parked bill for ${bill.customerName || 'walk-in customer'}?`)) return;
+    setParkedBills(await removeParkedBill(user?.id, bill.id));
+  };
+
+  const openParkedBills = async () => {
+    setIsParkedOpen(true);
+    setParkedBills(await loadParkedBills(user?.id));
+  };
+
+  const togglePosMode = () => {
+    localStorage.setItem('billPosMode', String(!posMode));
+    setPosMode(!posMode);
   };
 
   // ------------------------------------------------------------------
   // Main Save Handler (remains largely the same)
   // ------------------------------------------------------------------
 
-  const handleSaveBill = async () => {
-    // Validation
-    if (!billNumber.trim()) {
+  const handleSaveBill = async ({ print = false } = {}) => {
+    // Validation (new bills without a number are numbered by the server)
+    if (isEditMode && !billNumber.trim()) {
       setBillNumberError('Bill number is required');
       toast.error('Please enter a bill number');
       return;
@@ -547,8 +981,8 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
 
     setLoading(true);
     try {
-      // Only check uniqueness if creating a new bill or if bill number was changed
-      if (!isEditMode || (editingBill && billNumber.trim() !== editingBill.billNumber)) {
+      // Early feedback for manual numbers; the server still rejects duplicates
+      if (!isEditMode && billNumber.trim()) {
         const isUnique = await checkBillNumberUnique(billNumber.trim());
         if (!isUnique) {
           setBillNumberError('This bill number already exists');
@@ -574,23 +1008,54 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
 
       const subtotal = calculateSubtotal();
       const discountAmount = calculateDiscountAmount();
-      const grandTotal = calculateGrandTotal();
+      const tax = calculateTax();
+
+      const tender = summariseTender(tax.grandTotal, tenderLines);
+      if (tender.excess > 0) {
+        toast.error('Only cash can be more than the bill total');
+        setLoading(false);
+        return;
+      }
+      if (tender.balance > 0 && !payOnCredit) {
+        toast.error(`Payments are ₹${tender.balance.toFixed(2)} short of the bill total`);
+        setLoading(false);
+        return;
+      }
+      if (tender.balance > 0 && !customerId) {
+        toast.error('Choose a saved customer to sell on credit');
+        setLoading(false);
+        return;
+      }
 
       const bill: Bill = {
         billNumber: billNumber.trim(),
         date: isEditMode && editingBill ? editingBill.date : new Date().toISOString(),
+        customerId: customerId || undefined,
         customerName: customerName || undefined,
-        items,
+        customerPhone: customerPhone.trim() || undefined,
+        customerGstin: customerGstin.trim() || undefined,
+        customerState: customerState || undefined,
+        isInterState,
+        items: tax.items,
         subtotal,
         discountType: discountValue > 0 ? discountType : undefined,
         discountValue: discountValue > 0 ? discountValue : undefined,
         discountAmount: discountValue > 0 ? discountAmount : undefined,
-        grandTotal,
-        paymentMode: paymentMode || undefined,
+        taxableAmount: tax.taxableAmount,
+        cgstTotal: tax.cgstTotal,
+        sgstTotal: tax.sgstTotal,
+        igstTotal: tax.igstTotal,
+        taxTotal: tax.taxTotal,
+        grandTotal: tax.grandTotal,
+        payments: tender.payments,
         notes: notes || undefined,
         businessName: settings?.businessName,
         sellerId: user?.id,
         sellerName: user?.name,
+        seriesId: seriesId || undefined,
+        priceTier: priceTier !== 'retail' ? priceTier : undefined,
+        // The server turns the edit down if the bill changed since it was opened
+        version: isEditMode ? editingBill?.version : undefined,
       };
 
       if (isEditMode) {
@@ -601,27 +1066,44 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
           onEditComplete();
         }
       } else {
-        await billAPI.createBill(bill);
-        setCreatedBill(bill);
-        toast.success('Bill created successfully!');
+        try {
+          const savedBill = await billAPI.createBill(bill);
+          setCreatedBill(savedBill);
+          toast.success(`Bill ${savedBill.billNumber} created successfully!`);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          // No connection: keep the sale on this device and sync it later
+          const queuedBill = await queueOfflineBill(bill);
+          setCreatedBill(queuedBill);
+          toast.success(`Offline: bill ${queuedBill.billNumber} saved on this device and will sync when you're back online`);
+        }
       }
 
       // Reset form only if not in edit mode
       if (!isEditMode) {
-        setCustomerName('');
-        setPaymentMode('');
-        setNotes('');
-        setItems([]);
-        setDiscountType('fixed');
-        setDiscountValue(0);
-        setBillNumber('');
-        setBillNumberError('');
+        clearBillForm();
         loadSuggestedBillNumber();
         loadStock();
       }
+
+      if (print) {
+        setAutoPrint(true);
+        setShowPreview(true);
+      } else if (posMode) {
+        focusItemCode();
+      }
     } catch (error) {
       console.error('Error creating bill:', error);
-      toast.error('Failed to create bill');
+      if (error instanceof ApiError && error.status === 409) {
+        if (error.code === 'duplicate-number') {
+          setBillNumberError(error.message);
+        }
+        toast.error(error.message);
+      } else if (isNetworkError(error)) {
+        toast.error('You are offline. Editing a bill needs a connection.');
+      } else {
+        toast.error('Failed to create bill');
+      }
     } finally {
       setLoading(false);
     }
@@ -629,10 +1111,48 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
 
   const handlePrint = () => {
     if (createdBill) {
+      setAutoPrint(false);
       setShowPreview(true);
     }
   };
 
+  const closePreview = () => {
+    setShowPreview(false);
+    setAutoPrint(false);
+    if (posMode) {
+      focusItemCode();
+    }
+  };
+
+  // Function-key shortcuts for the counter. Re-bound every render so they see current state.
+  useEffect(() => {
+    if (isItemModalOpen || isScannerOpen || showPreview || isParkedOpen) return;
+
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'F2') {
+        e.preventDefault();
+        cyclePaymentMode();
+      } else if (e.key === 'F4') {
+        e.preventDefault();
+        document.getElementById('discountValue')?.focus();
+      } else if (e.key === 'F8') {
+        e.preventDefault();
+        handleParkBill();
+      } else if (e.key === 'F9' || e.key === 'F12') {
+        e.preventDefault();
+        if (!loading && items.length > 0) {
+          handleSaveBill({ print: e.key === 'F12' });
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  });
+
+  const taxSummary = calculateTax();
+  const tenderSummary = summariseTender(taxSummary.grandTotal, tenderLines);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -640,12 +1160,28 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
           <h1 className="text-2xl font-bold">{isEditMode ? 'Edit Bill' : 'Create Bill'}</h1>
           <p className="text-muted-foreground">{isEditMode ? 'Update bill details and items' : 'Enter bill details and items'}</p>
         </div>
-        {createdBill && (
-          <Button onClick={handlePrint} variant="outline">
-            <Printer className="mr-2 h-4 w-4" />
-            Print Last Bill
+        <div className="flex gap-2">
+          {!isEditMode && (
+            <Button onClick={openParkedBills} variant="outline" title="Bills parked to finish later">
+              <Play className="mr-2 h-4 w-4" />
+              Parked ({parkedBills.length})
+            </Button>
+          )}
+          <Button
+            onClick={togglePosMode}
+            variant={posMode ? 'default' : 'outline'}
+            title="Item grid with inline quantities and function-key shortcuts"
+          >
+            <Keyboard className="mr-2 h-4 w-4" />
+            Keyboard Mode
           </Button>
-        )}
+          {createdBill && (
+            <Button onClick={handlePrint} variant="outline">
+              <Printer className="mr-2 h-4 w-4" />
+              Print Last Bill
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Bill Details Card (no change) */}
@@ -654,32 +1190,50 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
           <CardTitle>Bill Details</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 gap-4">
+          <div className={`grid grid-cols-1 gap-4 ${!isEditMode && availableSeries.length > 1 ? 'md:grid-cols-2' : ''}`}>
+            {!isEditMode && availableSeries.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="billSeries">Bill Series</Label>
+                <Select value={seriesId} onValueChange={handleSeriesChange}>
+                  <SelectTrigger id="billSeries">
+                    <SelectValue placeholder="Select series" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableSeries.map(series => (
+                      <SelectItem key={series.id} value={series.id}>
+                        {series.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
-              <Label htmlFor="billNumber">Bill Number *</Label>
+              <Label htmlFor="billNumber">Bill Number {isEditMode ? '*' : '(Optional)'}</Label>
               <div className="flex gap-2">
                 <Input
                   id="billNumber"
                   value={billNumber}
                   onChange={(e) => handleBillNumberChange(e.target.value)}
-                  placeholder="e.g., Bill-2025-11-001"
+                  placeholder={suggestedBillNumber ? `Auto: ${suggestedBillNumber}` : 'Assigned automatically on save'}
                   className={billNumberError ? 'border-red-500 flex-1' : 'flex-1'}
+                  disabled={isEditMode}
                 />
-                {suggestedBillNumber && (billNumber !== suggestedBillNumber || billNumberError) && (
+                {!isEditMode && billNumber && (
                   <Button
-                    onClick={useSuggestedNumber}
+                    onClick={useSeriesNumber}
                     variant="outline"
                     size="icon"
-                    title={billNumberError ? 'Get fresh suggestion from API' : `Use suggested: ${suggestedBillNumber}`}
+                    title="Use next number from series"
                     className={billNumberError ? 'border-green-500 text-green-600' : ''}
                   >
                     <Lightbulb className="h-4 w-4" />
                   </Button>
                 )}
               </div>
-              {suggestedBillNumber && !billNumber && (
+              {!isEditMode && suggestedBillNumber && !billNumber && (
                 <p className="text-xs text-muted-foreground">
-                  Suggested: {suggestedBillNumber}
+                  Next number {suggestedBillNumber} is assigned when the bill is saved
                 </p>
               )}
               {billNumberError && (
@@ -693,30 +1247,86 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
             </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="customerName">Customer Name (Optional)</Label>
+            <CustomerAutocomplete
+              id="customerName"
+              value={customerName}
+              customers={customers}
+              onChange={handleCustomerNameChange}
+              onSelect={selectCustomer}
+              onCreate={createCustomer}
+            />
+            {customerId && (
+              <p className="text-xs text-green-700">Saved customer</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="customerPhone">Customer Phone (Optional)</Label>
+              <Input
+                id="customerPhone"
+                type="tel"
+                value={customerPhone}
+                onChange={(e) => setCustomerPhone(e.target.value)}
+                placeholder="Mobile number"
+              />
+            </div>
             <div className="space-y-2">
-              <Label htmlFor="customerName">Customer Name (Optional)</Label>
+              <Label htmlFor="customerGstin">Customer GSTIN (Optional)</Label>
               <Input
-                id="customerName"
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
-                placeholder="Enter customer name"
+                id="customerGstin"
+                value={customerGstin}
+                onChange={(e) => handleCustomerGstinChange(e.target.value)}
+                placeholder="Required for B2B invoices"
+                maxLength={15}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="paymentMode">Payment Mode (Optional)</Label>
-              <Select value={paymentMode} onValueChange={(value: any) => setPaymentMode(value)}>
-                <SelectTrigger id="paymentMode">
-                  <SelectValue placeholder="Select payment mode" />
+              <Label htmlFor="customerState">Place of Supply</Label>
+              <Select
+                value={customerState || settings?.state || ''}
+                onValueChange={(value) => setCustomerState(value)}
+              >
+                <SelectTrigger id="customerState">
+                  <SelectValue placeholder="Same as business state" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Cash">Cash</SelectItem>
-                  <SelectItem value="UPI">UPI</SelectItem>
-                  <SelectItem value="Card">Card</SelectItem>
+                  {INDIAN_STATES.map(state => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {customerState && settings?.state && (
+                <p className="text-xs text-muted-foreground">
+                  {isInterState
+                    ? `Inter-state supply to ${getStateName(customerState)}: IGST applies`
+                    : 'Intra-state supply: CGST + SGST apply'}
+                </p>
+              )}
             </div>
           </div>
+
+          {(hasWholesalePrices || priceTier === 'wholesale') && (
+            <div className="space-y-2">
+              <Label htmlFor="priceTier">Price List</Label>
+              <Select value={priceTier} onValueChange={(value: PriceTier) => setPriceTier(value)}>
+                <SelectTrigger id="priceTier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="retail">Retail</SelectItem>
+                  <SelectItem value="wholesale">Wholesale</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Applies to items added from stock from now on
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -725,11 +1335,97 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
         <CardHeader>
           <CardTitle>Items</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {/* Scan, type a barcode/SKU or search by name to add stock items without the item form */}
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Input
+                id="itemCode"
+                value={itemCode}
+                onChange={(e) => handleItemCodeChange(e.target.value)}
+                onKeyDown={handleItemCodeKeyDown}
+                placeholder="Scan barcode, type SKU or name and press Enter (3*code adds 3)"
+                autoComplete="off"
+                autoFocus={posMode}
+              />
+              {codeSuggestions.length > 0 && (
+                <ul className="absolute z-20 mt-1 w-full bg-white border rounded-md shadow-lg max-h-64 overflow-y-auto">
+                  {codeSuggestions.map((stock, index) => (
+                    <li
+                      key={stock.id}
+                      className={`px-3 py-2 cursor-pointer flex justify-between items-center text-sm ${index === suggestionIndex ? 'bg-gray-100' : ''}`}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => addSuggestion(stock)}
+                    >
+                      <span>{stock.name}</span>
+                      <span className="text-xs text-muted-foreground">₹{getSellingPrice(stock, priceTier).toFixed(2)} · Qty: {stock.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <Button onClick={() => setIsScannerOpen(true)} variant="outline" size="icon" title="Scan with camera">
+              <Camera className="h-4 w-4" />
+            </Button>
+          </div>
+          {posMode && (
+            <p className="text-xs text-muted-foreground">
+              F2 payment mode · F4 discount · F8 park bill · F9 save · F12 save &amp; print · Esc clears the code
+            </p>
+          )}
+
           {items.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
-              No items added. Click "Add Item" below to start.
+              No items added. Scan or search above, or click "Add Item" below.
             </p>
+          ) : posMode ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-2">#</th>
+                    <th className="py-2 pr-2">Item</th>
+                    <th className="py-2 pr-2">Qty</th>
+                    <th className="py-2 pr-2 text-right">Rate</th>
+                    <th className="py-2 pr-2 text-right">Amount</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item, index) => (
+                    <tr key={item.id} className="border-b last:border-0">
+                      <td className="py-1 pr-2">{index + 1}</td>
+                      <td className="py-1 pr-2">
+                        {item.name}
+                        {!!item.discountAmount && (
+                          <span className="text-xs text-green-600"> (-₹{item.discountAmount.toFixed(2)})</span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20 h-8"
+                          value={item.quantity || ''}
+                          onChange={(e) => updateItemQuantity(item.id, Number(e.target.value))}
+                          onKeyDown={(e) => e.key === 'Enter' && focusItemCode()}
+                        />
+                      </td>
+                      <td className="py-1 pr-2 text-right">₹{item.rate.toFixed(2)}</td>
+                      <td className="py-1 pr-2 text-right font-medium">₹{item.total.toFixed(2)}</td>
+                      <td className="py-1 text-right whitespace-nowrap">
+                        <Button onClick={() => editItem(item)} variant="ghost" size="icon" title="Edit Item">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button onClick={() => removeItem(item.id)} variant="ghost" size="icon" title="Remove Item">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           ) : (
             <div className="space-y-4">
                 {items.map((item, index) => {
@@ -744,6 +1440,11 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
                                 <p className="text-sm text-muted-foreground">
                                     {item.quantity} x ₹{item.rate.toFixed(2)} = ₹{subtotal.toFixed(2)}
                                 </p>
+                                {(item.hsnCode || item.gstRate) ? (
+                                    <p className="text-xs text-muted-foreground">
+                                        {item.hsnCode && `HSN: ${item.hsnCode} · `}GST: {item.gstRate || 0}%
+                                    </p>
+                                ) : null}
                                 {hasDiscount && (
                                     <p className="text-xs text-green-600 mt-1">
                                         Discount: {item.discountType === 'percentage'
@@ -783,10 +1484,18 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
       </Card>
       
       {/* New 'Add Item' location */}
-      <Button onClick={openAddItemModal} className="w-full" variant="outline">
-        <Plus className="mr-2 h-4 w-4" />
-        Add Item
-      </Button>
+      <div className="flex gap-2">
+        <Button onClick={openAddItemModal} className="flex-1" variant="outline">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Item
+        </Button>
+        {!isEditMode && (
+          <Button onClick={handleParkBill} variant="outline" disabled={items.length === 0} title="Park this bill and start the next one">
+            <Pause className="mr-2 h-4 w-4" />
+            Park Bill
+          </Button>
+        )}
+      </div>
 
       {/* Discount Card (no change) */}
       <Card>
@@ -858,6 +1567,35 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
                   <span>- ₹{calculateDiscountAmount().toFixed(2)}</span>
                 </div>
               )}
+
+              {taxSummary.taxTotal > 0 && (
+                <>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>Taxable Value:</span>
+                    <span>₹{taxSummary.taxableAmount.toFixed(2)}</span>
+                  </div>
+                  {isInterState ? (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>IGST:</span>
+                      <span>₹{taxSummary.igstTotal.toFixed(2)}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between text-sm text-muted-foreground">
+                        <span>CGST:</span>
+                        <span>₹{taxSummary.cgstTotal.toFixed(2)}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm text-muted-foreground">
+                        <span>SGST:</span>
+                        <span>₹{taxSummary.sgstTotal.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
+                  {settings?.pricesIncludeTax !== false && (
+                    <p className="text-xs text-muted-foreground">Rates are inclusive of GST</p>
+                  )}
+                </>
+              )}
               
               <div className="flex items-center justify-between pt-2 border-t">
                 <span className="text-xl font-bold">Grand Total:</span>
@@ -865,10 +1603,79 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
                   ₹{calculateGrandTotal().toFixed(2)}
                 </span>
               </div>
+
+              <div className="space-y-2 pt-2 border-t">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">Payments:</span>
+                  <Button onClick={addTenderLine} variant="outline" size="sm">
+                    <Plus className="mr-1 h-3 w-3" />
+                    Split
+                  </Button>
+                </div>
+                {tenderLines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={line.mode} onValueChange={(value: PaymentMode) => updateTenderLine(index, { mode: value })}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="Cash">Cash</SelectItem>
+                        <SelectItem value="UPI">UPI</SelectItem>
+                        <SelectItem value="Card">Card</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-28 text-right"
+                      value={line.amount}
+                      onChange={(e) => updateTenderLine(index, { amount: e.target.value })}
+                      placeholder="Rest"
+                    />
+                    <Input
+                      className="flex-1"
+                      value={line.reference}
+                      onChange={(e) => updateTenderLine(index, { reference: e.target.value })}
+                      placeholder={line.mode === 'UPI' ? 'UPI txn id' : line.mode === 'Card' ? 'Card last 4' : 'Reference'}
+                    />
+                    <Button onClick={() => removeTenderLine(index)} variant="ghost" size="sm" title="Remove payment">
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {tenderSummary.change > 0 && (
+                <div className="flex items-center justify-between text-blue-700 font-semibold">
+                  <span>Change to return:</span>
+                  <span className="text-xl">₹{tenderSummary.change.toFixed(2)}</span>
+                </div>
+              )}
+              {tenderSummary.excess > 0 && (
+                <p className="text-xs text-red-600">
+                  UPI/Card payments are ₹{tenderSummary.excess.toFixed(2)} more than the bill total
+                </p>
+              )}
+              {tenderSummary.balance > 0 && (
+                <>
+                  <div className="flex items-center justify-between text-red-600 font-semibold">
+                    <span>{payOnCredit ? 'Balance Due:' : 'Remaining:'}</span>
+                    <span>₹{tenderSummary.balance.toFixed(2)}</span>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={payOnCredit} onCheckedChange={(checked) => setPayOnCredit(checked === true)} />
+                    Put the balance on the customer's account
+                  </label>
+                  {payOnCredit && !customerId && (
+                    <p className="text-xs text-red-600">Choose a saved customer to sell on credit</p>
+                  )}
+                </>
+              )}
             </div>
 
             <Button
-              onClick={handleSaveBill}
+              onClick={() => handleSaveBill()}
               className="w-full"
               disabled={loading || items.length === 0}
             >
@@ -886,6 +1693,53 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
         onSave={saveItem}
         initialItem={editingItem}
         stockItems={stockItems}
+        priceTier={priceTier}
+      />
+
+      {/* Parked Bills */}
+      <Dialog open={isParkedOpen} onOpenChange={setIsParkedOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Parked Bills</DialogTitle>
+          </DialogHeader>
+          {parkedBills.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No parked bills</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {parkedBills.map(bill => {
+                const itemsTotal = bill.items.reduce((sum, item) => sum + item.total, 0);
+                return (
+                  <div key={bill.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{bill.customerName || 'Walk-in customer'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {bill.items.length} item(s) · ₹{itemsTotal.toFixed(2)} · parked {new Date(bill.parkedAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+                        {bill.synced === false && ' · this device only'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={() => handleResumeBill(bill)} size="sm">
+                        Resume
+                      </Button>
+                      <Button onClick={() => handleDiscardParkedBill(bill)} variant="ghost" size="icon" title="Discard">
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <BarcodeScannerDialog
+        open={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onDetected={(code) => {
+          addItemByCode(code);
+          setIsScannerOpen(false);
+        }}
       />
       
       {/* Bill Preview Modal (no change) */}
@@ -894,18 +1748,18 @@ export function CreateBill({ user, editingBill, onEditComplete }: CreateBillProp
           <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="sticky top-0 bg-white border-b p-4 flex items-center justify-between">
               <h2 className="text-xl font-bold">Bill Preview</h2>
-              <Button onClick={() => setShowPreview(false)} variant="ghost" size="sm">
+              <Button onClick={closePreview} variant="ghost" size="sm">
                 <X className="h-4 w-4" />
               </Button>
             </div>
             <div className="p-4">
-              <BillPreview bill={createdBill} settings={settings} />
+              <BillPreview bill={createdBill} settings={settings} autoPrint={autoPrint} />
               <div className="mt-4 flex gap-2">
                 <Button onClick={() => window.print()} className="flex-1">
                   <Printer className="mr-2 h-4 w-4" />
                   Print
                 </Button>
-                <Button onClick={() => setShowPreview(false)} variant="outline" className="flex-1">
+                <Button onClick={closePreview} variant="outline" className="flex-1">
                   Close
                 </Button>
               </div>
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { creditNoteAPI } from '../utils/api';
+import type { Bill, CreditNote } from '../types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+
+interface CreditNoteDialogProps {
+  bill: Bill | null;
+  creditNotes: CreditNote[];
+  onClose: () => void;
+  onCreated: (creditNote: CreditNote) => void;
+}
+
+export function CreditNoteDialog({ bill, creditNotes, onClose, onCreated }: CreditNoteDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMode, setRefundMode] = useState<CreditNote['refundMode']>('Cash');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setQuantities({});
+    setRefundMode(bill?.balanceDue ? 'Credit' : bill?.paymentMode || 'Cash');
+    setReason('');
+  }, [bill]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  // Quantities already returned on earlier credit notes for this bill
+  const returned: Record<string, number> = {};
+  for (const note of creditNotes) {
+    if (note.billNumber !== bill?.billNumber) continue;
+    for (const item of note.items) {
+      returned[item.id] = (returned[item.id] || 0) + item.quantity;
+    }
+  }
+
+  // Same pricing as the server: each line's share of the grand total
+  const items = bill?.items || [];
+  const subtotal = items.reduce((sum, item) => sum + item.total, 0);
+  const refundTotal = items.reduce((sum, item) => {
+    const charged = subtotal > 0 ? (item.total / subtotal) * (bill?.grandTotal || 0) : 0;
+    return sum + (charged * (quantities[item.id] || 0)) / item.quantity;
+  }, 0);
+
+  const handleSave = async () => {
+    if (!bill) return;
+
+    const returnItems = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([id, quantity]) => ({ id, quantity }));
+    if (returnItems.length === 0) {
+      toast.error('Enter the quantity being returned');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const creditNote = await creditNoteAPI.createCreditNote({
+        billNumber: bill.billNumber,
+        items: returnItems,
+        refundMode,
+        reason: reason.trim() || undefined,
+      });
+      toast.success(`Credit note ${creditNote.creditNoteNumber} created`);
+      onCreated(creditNote);
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create credit note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Return items from {bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {items.map(item => {
+              const remaining = item.quantity - (returned[item.id] || 0);
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Sold {item.quantity}
+                      {returned[item.id] ? ` · ${returned[item.id]} already returned` : ''}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    className="w-20"
+                    disabled={remaining <= 0}
+                    value={quantities[item.id] || ''}
+                    onChange={(e) => {
+                      const quantity = Math.min(remaining, Math.max(0, Number(e.target.value)));
+                      setQuantities({ ...quantities, [item.id]: quantity });
+                    }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundMode">Refund Mode</Label>
+            <Select value={refundMode} onValueChange={(value: any) => setRefundMode(value)}>
+              <SelectTrigger id="refundMode">
+                <SelectValue placeholder="Select refund mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Cash">Cash</SelectItem>
+                <SelectItem value="UPI">UPI</SelectItem>
+                <SelectItem value="Card">Card</SelectItem>
+                {!!bill?.balanceDue && (
+                  <SelectItem value="Credit">Adjust against balance due</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="returnReason">Reason</Label>
+            <Input
+              id="returnReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., damaged, wrong size"
+            />
+          </div>
+
+          <div className="flex items-center justify-between font-semibold">
+            <span>Refund</span>
+            <span className="text-red-600">{formatCurrency(refundTotal)}</span>
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={saving || refundTotal <= 0}>
+            {saving ? 'Saving...' : 'Create Credit Note'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
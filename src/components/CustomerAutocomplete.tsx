@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { Customer } from '../types';
+import { Input } from './ui/input';
+import { UserPlus } from 'lucide-react';
+
+interface CustomerAutocompleteProps {
+  id?: string;
+  value: string;
+  customers: Customer[];
+  onChange: (value: string) => void;
+  onSelect: (customer: Customer) => void;
+  onCreate?: (name: string) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Customer name field that suggests saved customers by name or phone
+export function CustomerAutocomplete({ id, value, customers, onChange, onSelect, onCreate }: CustomerAutocompleteProps) {
+  const [open, setOpen] = useState(false);
+
+  const term = value.trim().toLowerCase();
+  const digits = term.replace(/\D/g, '');
+  const suggestions = term
+    ? customers
+        .filter(customer =>
+          customer.name.toLowerCase().includes(term) ||
+          (digits.length >= 3 && customer.phone?.replace(/\D/g, '').includes(digits))
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const exactMatch = customers.some(customer => customer.name.toLowerCase() === term);
+  const showCreate = !!onCreate && !!term && !exactMatch;
+
+  const handleSelect = (customer: Customer) => {
+    onSelect(customer);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder="Search by name or phone"
+        autoComplete="off"
+      />
+      {open && (suggestions.length > 0 || showCreate) && (
+        <div className="absolute z-20 mt-1 w-full bg-white border rounded-md shadow-lg max-h-64 overflow-y-auto">
+          {suggestions.map(customer => (
+            <button
+              key={customer.id}
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(customer)}
+            >
+              <p className="font-medium">{customer.name}</p>
+              {(customer.phone || customer.gstin) && (
+                <p className="text-xs text-muted-foreground">
+                  {[customer.phone, customer.gstin].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </button>
+          ))}
+          {showCreate && (
+            <button
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-gray-100 border-t flex items-center gap-2"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onCreate(value.trim());
+                setOpen(false);
+              }}
+            >
+              <UserPlus className="h-4 w-4" />
+              Add "{value.trim()}" as a new customer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
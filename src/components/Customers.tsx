@@ -0,0 +1,581 @@
+import { useEffect, useState } from 'react';
+import { billAPI, customerAPI } from '../utils/api';
+import type { Bill, Customer, CustomerReceivable, CustomerSummary, LedgerEntry, User } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Plus, Pencil, Trash2, Search, ArrowLeft, IndianRupee } from 'lucide-react';
+import { ReceivePaymentDialog } from './ReceivePaymentDialog';
+import { toast } from 'sonner';
+import { INDIAN_STATES, getStateFromGstin, getStateName } from '../utils/gst';
+
+interface CustomersProps {
+  user: User;
+}
+
+const emptyCustomer = {
+  name: '',
+  phone: '',
+  address: '',
+  gstin: '',
+  state: '',
+};
+
+export function Customers({ user }: CustomersProps) {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [formData, setFormData] = useState(emptyCustomer);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerBills, setCustomerBills] = useState<Bill[]>([]);
+  const [billsCursor, setBillsCursor] = useState<string | null>(null);
+  const [summary, setSummary] = useState<CustomerSummary | null>(null);
+  const [loadingBills, setLoadingBills] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [ledgerCursor, setLedgerCursor] = useState<string | null>(null);
+  const [receivables, setReceivables] = useState<CustomerReceivable[]>([]);
+  const [receivingFrom, setReceivingFrom] = useState<CustomerReceivable | null>(null);
+
+  useEffect(() => {
+    loadCustomers();
+    loadReceivables();
+  }, []);
+
+  useEffect(() => {
+    if (selectedCustomer) {
+      loadCustomerBills(selectedCustomer.id);
+    }
+  }, [selectedCustomer]);
+
+  const loadCustomers = async () => {
+    try {
+      const allCustomers = await customerAPI.getAllCustomers();
+      setCustomers(allCustomers);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast.error('Failed to load customers');
+    }
+  };
+
+  const loadReceivables = async () => {
+    try {
+      const allReceivables = await customerAPI.getReceivables();
+      setReceivables(allReceivables);
+    } catch (error) {
+      console.error('Error loading receivables:', error);
+    }
+  };
+
+  const loadCustomerBills = async (customerId: string) => {
+    setLoadingBills(true);
+    try {
+      const [page, totals, account] = await Promise.all([
+        billAPI.getBills({ customerId }),
+        customerAPI.getSummary(customerId),
+        customerAPI.getLedger(customerId),
+      ]);
+      setCustomerBills(page.bills);
+      setBillsCursor(page.nextCursor);
+      setSummary(totals);
+      setLedger(account.ledger);
+      setLedgerCursor(account.nextCursor);
+    } catch (error) {
+      console.error('Error loading customer bills:', error);
+      toast.error('Failed to load bills');
+    } finally {
+      setLoadingBills(false);
+    }
+  };
+
+  const loadMoreBills = async (customerId: string) => {
+    setLoadingMore(true);
+    try {
+      const page = await billAPI.getBills({ customerId }, billsCursor);
+      setCustomerBills(current => [...current, ...page.bills]);
+      setBillsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more bills:', error);
+      toast.error('Failed to load more bills');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadMoreLedger = async (customerId: string) => {
+    setLoadingMore(true);
+    try {
+      const account = await customerAPI.getLedger(customerId, ledgerCursor);
+      setLedger(current => [...current, ...account.ledger]);
+      setLedgerCursor(account.nextCursor);
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+      toast.error('Failed to load more transactions');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const openAddDialog = () => {
+    setEditingCustomer(null);
+    setFormData(emptyCustomer);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setFormData({
+      name: customer.name,
+      phone: customer.phone || '',
+      address: customer.address || '',
+      gstin: customer.gstin || '',
+      state: customer.state || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    // State follows the code in the GSTIN, as on bills
+    setFormData({ ...formData, gstin, state: getStateFromGstin(gstin) || formData.state });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Customer name is required');
+      return;
+    }
+
+    const customer = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      gstin: formData.gstin.trim() || undefined,
+      state: formData.state || undefined,
+    };
+
+    try {
+      if (editingCustomer) {
+        const updated = await customerAPI.updateCustomer(editingCustomer.id, customer);
+        if (selectedCustomer?.id === updated.id) {
+          setSelectedCustomer(updated);
+        }
+        toast.success('Customer updated successfully');
+      } else {
+        await customerAPI.addCustomer(customer);
+        toast.success('Customer added successfully');
+      }
+      setIsDialogOpen(false);
+      loadCustomers();
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save customer');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this customer? Their bills are kept.')) {
+      return;
+    }
+
+    try {
+      await customerAPI.deleteCustomer(id);
+      toast.success('Customer deleted successfully');
+      loadCustomers();
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      toast.error('Failed to delete customer');
+    }
+  };
+
+  const handlePaymentReceived = () => {
+    setReceivingFrom(null);
+    loadReceivables();
+    if (selectedCustomer) {
+      loadCustomerBills(selectedCustomer.id);
+    }
+  };
+
+  const totalReceivable = receivables.reduce((sum, receivable) => sum + receivable.balance, 0);
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredCustomers = customers.filter(customer =>
+    !term ||
+    customer.name.toLowerCase().includes(term) ||
+    customer.phone?.includes(term) ||
+    customer.gstin?.toLowerCase().includes(term)
+  );
+
+  const renderDetail = (customer: Customer) => {
+    const billCount = summary?.bills || 0;
+    const totalBilled = summary?.billed || 0;
+    const totalReturned = summary?.returned || 0;
+    const lifetimeValue = totalBilled - totalReturned;
+    const receivable = receivables.find(r => r.customerId === customer.id);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button onClick={() => setSelectedCustomer(null)} variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold">{customer.name}</h1>
+            <p className="text-muted-foreground">
+              {[customer.phone, customer.gstin && `GSTIN: ${customer.gstin}`, customer.state && getStateName(customer.state)]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+            {customer.address && <p className="text-sm text-muted-foreground">{customer.address}</p>}
+          </div>
+          <Button onClick={() => openEditDialog(customer)} variant="outline" size="sm">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${receivable ? 'text-red-600' : ''}`}>
+                {formatCurrency(receivable?.balance || 0)}
+              </div>
+              {receivable && (
+                <Button onClick={() => setReceivingFrom(receivable)} size="sm" className="mt-2">
+                  <IndianRupee className="mr-2 h-4 w-4" />
+                  Receive Payment
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Lifetime Value</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(lifetimeValue)}</div>
+              {totalReturned > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">After {formatCurrency(totalReturned)} returns</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Bills</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{billCount}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Avg {formatCurrency(billCount > 0 ? totalBilled / billCount : 0)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Last Purchase</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {summary?.lastBillDate ? formatDate(summary.lastBillDate) : '-'}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Customer since {formatDate(customer.createdAt)}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Bills</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingBills ? (
+              <p className="text-center text-muted-foreground py-8">Loading bills...</p>
+            ) : customerBills.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No bills for this customer yet</p>
+            ) : (
+              <div className="space-y-2">
+                {customerBills.map(bill => (
+                  <div key={bill.billNumber} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium">{bill.billNumber}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(bill.date)} · {bill.items.length} item{bill.items.length !== 1 ? 's' : ''}
+                        {bill.sellerName ? ` · ${bill.sellerName}` : ''}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold">{formatCurrency(bill.grandTotal)}</p>
+                      {!!bill.balanceDue && (
+                        <p className="text-xs text-red-600">Due {formatCurrency(bill.balanceDue)}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {billsCursor && (
+                  <Button onClick={() => loadMoreBills(customer.id)} variant="outline" className="w-full" disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : 'Load more bills'}
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {ledger.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No transactions yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2">Date</th>
+                      <th className="py-2 pr-2">Details</th>
+                      <th className="py-2 pr-2 text-right">Billed</th>
+                      <th className="py-2 pr-2 text-right">Paid</th>
+                      <th className="py-2 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ledger.map((entry, index) => (
+                      <tr key={index} className="border-b last:border-0">
+                        <td className="py-2 pr-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                        <td className="py-2 pr-2">
+                          {entry.type === 'bill' ? 'Bill' : entry.type === 'return' ? 'Return' : 'Payment'} {entry.reference}
+                          {(entry.mode || entry.note) && (
+                            <span className="text-xs text-muted-foreground">
+                              {' '}({[entry.mode, entry.note].filter(Boolean).join(' · ')})
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2 text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                        <td className="py-2 pr-2 text-right text-green-600">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                        <td className={`py-2 text-right font-medium ${entry.balance > 0 ? 'text-red-600' : ''}`}>
+                          {formatCurrency(entry.balance)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {ledgerCursor && (
+                  <Button onClick={() => loadMoreLedger(customer.id)} variant="outline" className="w-full mt-2" disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : 'Load earlier transactions'}
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {selectedCustomer ? (
+        renderDetail(selectedCustomer)
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold">Customers</h1>
+              <p className="text-muted-foreground">Repeat customers and their purchase history</p>
+            </div>
+            <Button onClick={openAddDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          </div>
+
+          <Tabs defaultValue="customers" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="customers">Customers</TabsTrigger>
+              <TabsTrigger value="receivables">Receivables ({formatCurrency(totalReceivable)})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="customers">
+              <Card>
+                <CardHeader>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search by name, phone, or GSTIN..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {filteredCustomers.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      {searchTerm ? 'No customers found matching your search' : 'No customers yet. Click "Add Customer" to start.'}
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {filteredCustomers.map(customer => (
+                        <div
+                          key={customer.id}
+                          className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 cursor-pointer"
+                          onClick={() => setSelectedCustomer(customer)}
+                        >
+                          <div>
+                            <p className="font-medium">{customer.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {[customer.phone, customer.gstin && `GSTIN: ${customer.gstin}`].filter(Boolean).join(' · ')}
+                            </p>
+                          </div>
+                          <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                            <Button onClick={() => openEditDialog(customer)} variant="outline" size="sm">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {user.role === 'admin' && (
+                              <Button onClick={() => handleDelete(customer.id)} variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="receivables">
+              <Card>
+                <CardContent className="pt-6">
+                  {receivables.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No outstanding balances</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {receivables.map(receivable => (
+                        <div key={receivable.customerId || 'unknown'} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium">{receivable.customerName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {receivable.bills.length} unpaid bill{receivable.bills.length !== 1 ? 's' : ''} · oldest {formatDate(receivable.oldestDueDate)}
+                              {receivable.customerPhone ? ` · ${receivable.customerPhone}` : ''}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="font-semibold text-red-600">{formatCurrency(receivable.balance)}</span>
+                            {receivable.customerId && (
+                              <Button onClick={() => setReceivingFrom(receivable)} variant="outline" size="sm" title="Receive Payment">
+                                <IndianRupee className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      )}
+
+      <ReceivePaymentDialog
+        receivable={receivingFrom}
+        onClose={() => setReceivingFrom(null)}
+        onReceived={handlePaymentReceived}
+      />
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="customerFormName">Customer Name *</Label>
+              <Input
+                id="customerFormName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Enter customer name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="customerFormPhone">Phone</Label>
+                <Input
+                  id="customerFormPhone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerFormGstin">GSTIN</Label>
+                <Input
+                  id="customerFormGstin"
+                  value={formData.gstin}
+                  onChange={(e) => handleGstinChange(e.target.value)}
+                  maxLength={15}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerFormState">State</Label>
+              <Select value={formData.state} onValueChange={(value) => setFormData({ ...formData, state: value })}>
+                <SelectTrigger id="customerFormState">
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDIAN_STATES.map(state => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerFormAddress">Address</Label>
+              <Textarea
+                id="customerFormAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <Button onClick={handleSave} className="w-full">
+              {editingCustomer ? 'Update Customer' : 'Add Customer'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
-import { billAPI } from '../utils/api';
+import { billAPI, customerAPI, isNetworkError } from '../utils/api';
 import type { Bill } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { IndianRupee, FileText, TrendingUp, Calendar } from 'lucide-react';
+import { IndianRupee, FileText, TrendingUp, Calendar, Wallet } from 'lucide-react';
+import { getPaymentLabel, getSalePayments } from '../utils/payments';
 
 export function Dashboard() {
   const [todayStats, setTodayStats] = useState({
@@ -10,47 +11,85 @@ export function Dashboard() {
     totalBills: 0,
     cashSales: 0,
     digitalSales: 0,
+    creditSales: 0,
   });
+  const [outstanding, setOutstanding] = useState({ balance: 0, customers: 0 });
   const [recentBills, setRecentBills] = useState<Bill[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadDashboardData();
+    loadOutstanding();
   }, []);
 
-  const loadDashboardData = async () => {
+  const loadOutstanding = async () => {
     try {
-      const bills = await billAPI.getAllBills();
-      
-      // Get today's date
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      // Filter today's bills
-      const todayBills = bills.filter(bill => {
-        const billDate = new Date(bill.date);
-        billDate.setHours(0, 0, 0, 0);
-        return billDate.getTime() === today.getTime();
-      });
-      
-      // Calculate stats
-      const totalSales = todayBills.reduce((sum, bill) => sum + bill.grandTotal, 0);
-      const cashSales = todayBills
-        .filter(bill => bill.paymentMode === 'Cash')
-        .reduce((sum, bill) => sum + bill.grandTotal, 0);
-      const digitalSales = todayBills
-        .filter(bill => bill.paymentMode === 'UPI' || bill.paymentMode === 'Card')
-        .reduce((sum, bill) => sum + bill.grandTotal, 0);
-      
-      setTodayStats({
-        totalSales,
-        totalBills: todayBills.length,
-        cashSales,
-        digitalSales,
+      const receivables = await customerAPI.getReceivables();
+      setOutstanding({
+        balance: receivables.reduce((sum, receivable) => sum + receivable.balance, 0),
+        customers: receivables.length,
       });
+    } catch (error) {
+      console.error('Error loading outstanding balances:', error);
+    }
+  };
+
+  const loadTodayStats = async () => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const day = new Date(today.getTime() - today.getTimezoneOffset() * 60000).toISOString().split('T')[0];
+
+    try {
+      const [summary] = await billAPI.getDailySummary(day);
+      const modes = summary?.paymentModes || {};
+      return {
+        totalSales: summary?.sales || 0,
+        totalBills: summary?.bills || 0,
+        cashSales: modes.Cash || 0,
+        digitalSales: (modes.UPI || 0) + (modes.Card || 0),
+        creditSales: modes.Credit || 0,
+      };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+
+    // Fetch only today's bills, a page at a time
+    const todayBills: Bill[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await billAPI.getBills({ from: today.toISOString() }, cursor, 200);
+      todayBills.push(...page.bills);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const totalSales = todayBills.reduce((sum, bill) => sum + bill.grandTotal, 0);
+    const payments = todayBills.flatMap(bill => getSalePayments(bill));
+    const cashSales = payments
+      .filter(payment => payment.mode === 'Cash')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const digitalSales = payments
+      .filter(payment => payment.mode === 'UPI' || payment.mode === 'Card')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const paidAtSale = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+    return {
+      totalSales,
+      totalBills: todayBills.length,
+      cashSales,
+      digitalSales,
+      creditSales: Math.max(0, totalSales - paidAtSale),
+    };
+  };
+
+  const loadDashboardData = async () => {
+    try {
+      // Today's totals come from the server's daily summary; offline they are
+      // worked out from the cached bills instead
+      setTodayStats(await loadTodayStats());
       
       // Get recent 5 bills
-      setRecentBills(bills.slice(0, 5));
+      const recent = await billAPI.getBills({}, null, 5);
+      setRecentBills(recent.bills.slice(0, 5));
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -125,6 +164,21 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {(outstanding.balance > 0 || todayStats.creditSales > 0) && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm">Outstanding from Customers</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl text-red-600">{formatCurrency(outstanding.balance)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {outstanding.customers} customer{outstanding.customers !== 1 ? 's' : ''} · {formatCurrency(todayStats.creditSales)} sold on credit today
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Bills</CardTitle>
@@ -156,8 +210,8 @@ export function Dashboard() {
                   </div>
                   <div className="text-right">
                     <p>{formatCurrency(bill.grandTotal)}</p>
-                    {bill.paymentMode && (
-                      <p className="text-sm text-muted-foreground">{bill.paymentMode}</p>
+                    {getPaymentLabel(bill) && (
+                      <p className="text-sm text-muted-foreground">{getPaymentLabel(bill)}</p>
                     )}
                   </div>
                 </div>
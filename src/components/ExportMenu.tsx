@@ -0,0 +1,61 @@
+import { Fragment, useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ExportFormat } from '../utils/exports';
+
+export interface ExportOption {
+  label: string;
+  run: (format: ExportFormat) => Promise<void>;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  disabled?: boolean;
+}
+
+// "Export" button listing each export as CSV or Excel
+export function ExportMenu({ options, disabled }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (option: ExportOption, format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await option.run(format);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option, index) => (
+          <Fragment key={option.label}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{option.label}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => handleExport(option, 'csv')}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport(option, 'xlsx')}>Excel (XLSX)</DropdownMenuItem>
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,419 @@
+import { useEffect, useState } from 'react';
+import { purchaseAPI, supplierAPI, stockAPI, ApiError } from '../utils/api';
+import type { Purchase, PurchaseItem, StockItem, Supplier } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { GST_RATES } from '../utils/gst';
+import { SupplierManagement } from './SupplierManagement';
+
+const NEW_ITEM = 'new';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const createEmptyRow = (): PurchaseItem => ({
+  id: `row-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  name: '',
+  quantity: 1,
+  cost: 0,
+  gstRate: 0,
+  taxAmount: 0,
+  total: 0,
+});
+
+// Line total is cost × qty plus GST charged by the supplier
+const calculateRow = (row: PurchaseItem): PurchaseItem => {
+  const value = row.quantity * row.cost;
+  const taxAmount = round2((value * (Number(row.gstRate) || 0)) / 100);
+  return { ...row, taxAmount, total: round2(value + taxAmount) };
+};
+
+export function Purchases() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [supplierId, setSupplierId] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [rows, setRows] = useState<PurchaseItem[]>([createEmptyRow()]);
+  const [amountPaid, setAmountPaid] = useState(0);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    loadSuppliers();
+    loadStock();
+    loadPurchases();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await supplierAPI.getAllSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  };
+
+  const loadStock = async () => {
+    try {
+      setStockItems(await stockAPI.getAllStock());
+    } catch (error) {
+      console.error('Error loading stock:', error);
+    }
+  };
+
+  const loadPurchases = async () => {
+    try {
+      setPurchases(await purchaseAPI.getPurchases());
+    } catch (error) {
+      console.error('Error loading purchases:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const updateRow = (id: string, updates: Partial<PurchaseItem>) => {
+    setRows(rows.map(row => (row.id === id ? calculateRow({ ...row, ...updates }) : row)));
+  };
+
+  const selectStockItem = (id: string, stockId: string) => {
+    if (stockId === NEW_ITEM) {
+      updateRow(id, { stockId: undefined, name: '' });
+      return;
+    }
+    const stock = stockItems.find(s => s.id === stockId);
+    if (stock) {
+      updateRow(id, {
+        stockId: stock.id,
+        name: stock.name,
+        cost: stock.purchaseRate || 0,
+        gstRate: stock.gstRate || 0,
+      });
+    }
+  };
+
+  const removeRow = (id: string) => {
+    setRows(rows.length === 1 ? [createEmptyRow()] : rows.filter(row => row.id !== id));
+  };
+
+  const subtotal = round2(rows.reduce((sum, row) => sum + row.quantity * row.cost, 0));
+  const taxTotal = round2(rows.reduce((sum, row) => sum + (row.taxAmount || 0), 0));
+  const grandTotal = round2(subtotal + taxTotal);
+
+  const resetForm = () => {
+    setInvoiceNumber('');
+    setRows([createEmptyRow()]);
+    setAmountPaid(0);
+    setNotes('');
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast.error('Please select a supplier');
+      return;
+    }
+    if (!invoiceNumber.trim()) {
+      toast.error('Please enter the supplier invoice number');
+      return;
+    }
+
+    const items = rows.filter(row => row.name.trim() && row.quantity > 0);
+    if (items.length === 0) {
+      toast.error('Please add at least one item');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await purchaseAPI.createPurchase({
+        supplierId,
+        invoiceNumber: invoiceNumber.trim(),
+        date: new Date(date).toISOString(),
+        items: items.map(row => ({ ...row, name: row.name.trim() })),
+        subtotal,
+        taxTotal,
+        grandTotal,
+        amountPaid,
+        notes: notes.trim() || undefined,
+      });
+      toast.success('Purchase recorded and stock updated');
+      resetForm();
+      loadStock();
+      loadPurchases();
+    } catch (error) {
+      console.error('Error saving purchase:', error);
+      if (error instanceof ApiError && error.status === 409) {
+        toast.error(error.message);
+      } else {
+        toast.error('Failed to save purchase');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1>Purchases</h1>
+        <p className="text-muted-foreground">Record supplier bills and restock inventory</p>
+      </div>
+
+      <Tabs defaultValue="new" className="space-y-4">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="new">New Purchase</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="new" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Supplier Invoice</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Supplier *</Label>
+                  <Select value={supplierId} onValueChange={setSupplierId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={suppliers.length === 0 ? 'Add a supplier first' : 'Select supplier'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map(supplier => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceNumber">Invoice Number *</Label>
+                  <Input
+                    id="invoiceNumber"
+                    value={invoiceNumber}
+                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                    placeholder="Supplier's bill no."
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseDate">Date</Label>
+                  <Input
+                    id="purchaseDate"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Items</CardTitle>
+              <Button onClick={() => setRows([...rows, createEmptyRow()])} variant="outline" size="sm">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Row
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rows.map(row => (
+                <div key={row.id} className="border rounded-lg p-3 space-y-3">
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Stock Item</Label>
+                      <Select
+                        value={row.stockId || NEW_ITEM}
+                        onValueChange={(value) => selectStockItem(row.id, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NEW_ITEM}>New item</SelectItem>
+                          {stockItems.map(stock => (
+                            <SelectItem key={stock.id} value={stock.id}>
+                              {stock.name} ({stock.quantity} in stock)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {!row.stockId && (
+                      <div className="space-y-2">
+                        <Label>Item Name *</Label>
+                        <Input
+                          value={row.name}
+                          onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                          placeholder="Name for the new stock item"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                    <div className="space-y-2">
+                      <Label>Quantity</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(row.id, { quantity: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Cost (₹)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.cost}
+                        onChange={(e) => updateRow(row.id, { cost: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>GST Rate</Label>
+                      <Select
+                        value={String(row.gstRate || 0)}
+                        onValueChange={(value) => updateRow(row.id, { gstRate: Number(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GST_RATES.map(rate => (
+                            <SelectItem key={rate} value={String(rate)}>
+                              {rate}%
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="text-xs text-muted-foreground">Total</p>
+                        <p className="font-semibold">{formatCurrency(row.total)}</p>
+                      </div>
+                      <Button onClick={() => removeRow(row.id)} variant="ghost" size="sm">
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>GST:</span>
+                  <span>{formatCurrency(taxTotal)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold pt-2 border-t">
+                  <span>Total:</span>
+                  <span>{formatCurrency(grandTotal)}</span>
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="amountPaid">Amount Paid Now (₹)</Label>
+                  <Input
+                    id="amountPaid"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amountPaid}
+                    onChange={(e) => setAmountPaid(Number(e.target.value))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Balance due: {formatCurrency(Math.max(0, grandTotal - amountPaid))}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseNotes">Notes</Label>
+                  <Textarea
+                    id="purchaseNotes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSave} disabled={saving} className="w-full">
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? 'Saving...' : 'Save Purchase'}
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {purchases.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No purchases recorded yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {purchases.map(purchase => (
+                    <div key={purchase.id} className="p-3 border rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{purchase.supplierName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {purchase.invoiceNumber} · {formatDate(purchase.date)} · {purchase.items.length} item{purchase.items.length !== 1 ? 's' : ''}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold">{formatCurrency(purchase.grandTotal)}</p>
+                          {purchase.amountPaid < purchase.grandTotal && (
+                            <p className="text-xs text-red-600">
+                              Due {formatCurrency(purchase.grandTotal - purchase.amountPaid)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <SupplierManagement onSuppliersChanged={loadSuppliers} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
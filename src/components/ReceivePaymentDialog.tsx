@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { customerAPI } from '../utils/api';
+import type { CustomerReceivable, PaymentMode, PaymentReceipt } from '../types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+
+interface ReceivePaymentDialogProps {
+  receivable: CustomerReceivable | null;
+  onClose: () => void;
+  onReceived: (receipt: PaymentReceipt) => void;
+}
+
+export function ReceivePaymentDialog({ receivable, onClose, onReceived }: ReceivePaymentDialogProps) {
+  const [selectedBills, setSelectedBills] = useState<string[]>([]);
+  const [amount, setAmount] = useState(0);
+  const [mode, setMode] = useState<PaymentMode>('Cash');
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedBills(receivable?.bills.map(bill => bill.billNumber) || []);
+    setAmount(receivable?.balance || 0);
+    setMode('Cash');
+    setReference('');
+  }, [receivable]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(value);
+  };
+
+  const selectedDue = (receivable?.bills || [])
+    .filter(bill => selectedBills.includes(bill.billNumber))
+    .reduce((sum, bill) => sum + bill.balanceDue, 0);
+
+  const toggleBill = (billNumber: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedBills, billNumber]
+      : selectedBills.filter(number => number !== billNumber);
+    setSelectedBills(next);
+    const due = (receivable?.bills || [])
+      .filter(bill => next.includes(bill.billNumber))
+      .reduce((sum, bill) => sum + bill.balanceDue, 0);
+    setAmount(Math.round(due * 100) / 100);
+  };
+
+  const handleReceive = async () => {
+    if (!receivable?.customerId) return;
+    if (selectedBills.length === 0 || amount <= 0) {
+      toast.error('Select bills and enter the amount received');
+      return;
+    }
+    if (amount > selectedDue + 0.005) {
+      toast.error(`Only ${formatCurrency(selectedDue)} is due on the selected bills`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const receipt = await customerAPI.receivePayment({
+        customerId: receivable.customerId,
+        amount,
+        mode,
+        reference: reference.trim() || undefined,
+        billNumbers: selectedBills,
+      });
+      toast.success(`Received ${formatCurrency(receipt.amount)} from ${receivable.customerName}`);
+      onReceived(receipt);
+    } catch (error) {
+      console.error('Error receiving payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!receivable} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Receive Payment from {receivable?.customerName}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-56 overflow-y-auto">
+            {receivable?.bills.map(bill => (
+              <label
+                key={bill.billNumber}
+                className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg text-sm cursor-pointer"
+              >
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selectedBills.includes(bill.billNumber)}
+                    onCheckedChange={(checked) => toggleBill(bill.billNumber, checked === true)}
+                  />
+                  <div>
+                    <p className="font-medium">{bill.billNumber}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(bill.date).toLocaleDateString('en-IN')} · Bill {formatCurrency(bill.grandTotal)}
+                    </p>
+                  </div>
+                </div>
+                <span className="font-semibold text-red-600">{formatCurrency(bill.balanceDue)}</span>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Oldest selected bills are settled first. Due on selection: {formatCurrency(selectedDue)}
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="receiptAmount">Amount (₹) *</Label>
+              <Input
+                id="receiptAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receiptMode">Mode</Label>
+              <Select value={mode} onValueChange={(value: PaymentMode) => setMode(value)}>
+                <SelectTrigger id="receiptMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Cash">Cash</SelectItem>
+                  <SelectItem value="UPI">UPI</SelectItem>
+                  <SelectItem value="Card">Card</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receiptReference">Reference</Label>
+            <Input
+              id="receiptReference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="e.g., UPI ref, cheque no."
+            />
+          </div>
+
+          <Button onClick={handleReceive} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : 'Record Payment'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
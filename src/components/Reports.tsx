@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { billAPI } from '../utils/api';
-import type { SalesReport } from '../types';
+import type { MarginRow, SalesReport } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
@@ -8,9 +8,23 @@ import { Input } from './ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { BarChart3, TrendingUp, FileText, IndianRupee, Percent } from 'lucide-react';
 import { toast } from 'sonner';
+import { SalesAnalytics } from './SalesAnalytics';
+import { getPaymentLabel } from '../utils/payments';
+import { ExportMenu, type ExportOption } from './ExportMenu';
+import {
+  BILL_REGISTER_COLUMNS,
+  LINE_ITEM_COLUMNS,
+  PAYMENT_MODE_COLUMNS,
+  exportFileName,
+  exportTable,
+  fetchAllBills,
+  getLineItemRows,
+  getPaymentModeRows,
+} from '../utils/exports';
 
 export function Reports() {
   const [report, setReport] = useState<SalesReport | null>(null);
+  const [period, setPeriod] = useState<{ startDate: string; endDate: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
@@ -21,6 +35,7 @@ export function Reports() {
       // Don't send sellerId at all if we want all sellers
       const reportData = await billAPI.getReport(startDate, endDate);
       setReport(reportData);
+      setPeriod({ startDate, endDate });
     } catch (error) {
       console.error('Error generating report:', error);
       toast.error('Failed to generate report');
@@ -75,6 +90,37 @@ export function Reports() {
     generateReport(start.toISOString(), end.toISOString());
   };
 
+  // The report only lists the latest bills, so registers fetch the whole period.
+  // Cancelled bills are included (marked as such) so the bill numbers run unbroken.
+  const loadPeriodBills = () =>
+    fetchAllBills((cursor, limit) =>
+      billAPI.getBills({ from: period!.startDate, to: period!.endDate, status: 'all' }, cursor, limit)
+    );
+
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Bill register',
+      run: async format => {
+        const bills = await loadPeriodBills();
+        await exportTable(exportFileName('bill-register', period!.startDate, period!.endDate), 'Bills', BILL_REGISTER_COLUMNS, bills, format);
+      },
+    },
+    {
+      label: 'Line items',
+      run: async format => {
+        const rows = getLineItemRows(await loadPeriodBills());
+        await exportTable(exportFileName('line-items', period!.startDate, period!.endDate), 'Line Items', LINE_ITEM_COLUMNS, rows, format);
+      },
+    },
+    {
+      label: 'Payment mode summary',
+      run: async format => {
+        const rows = getPaymentModeRows(report!.paymentModes);
+        await exportTable(exportFileName('payment-modes', period!.startDate, period!.endDate), 'Payment Modes', PAYMENT_MODE_COLUMNS, rows, format);
+      },
+    },
+  ];
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -82,6 +128,48 @@ export function Reports() {
     }).format(amount);
   };
 
+  const billMargins = useMemo(() => {
+    return new Map((report?.billMargins || []).map(row => [row.key, row]));
+  }, [report]);
+
+  const formatDay = (day: string) => {
+    return new Date(`${day}T00:00:00`).toLocaleDateString('en-IN', {
+      weekday: 'short',
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const renderMarginRows = (
+    rows: MarginRow[] | undefined,
+    describe: (row: MarginRow) => string,
+    formatLabel: (label: string) => string = label => label
+  ) => {
+    if (!rows || rows.length === 0) {
+      return <p className="text-center text-muted-foreground py-4">No costed sales in this period</p>;
+    }
+
+    return (
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {rows.map(row => (
+          <div key={row.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+            <div>
+              <p className="font-medium">{formatLabel(row.label)}</p>
+              <p className="text-xs text-muted-foreground">
+                {describe(row)} · Sales {formatCurrency(row.revenue)} · COGS {formatCurrency(row.cost)}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className={`font-semibold ${row.profit < 0 ? 'text-red-600' : ''}`}>{formatCurrency(row.profit)}</p>
+              <p className="text-xs text-muted-foreground">{row.margin.toFixed(1)}%</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-IN', {
       day: '2-digit',
@@ -167,6 +255,10 @@ export function Reports() {
 
       {report && !loading && (
         <div className="space-y-6">
+          <div className="flex justify-end">
+            <ExportMenu options={exportOptions} disabled={!period} />
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -178,6 +270,11 @@ export function Reports() {
                 <p className="text-xs text-muted-foreground mt-1">
                   From {report.totalBills} bills
                 </p>
+                {!!report.totalReturns && (
+                  <p className="text-xs text-red-600">
+                    After {formatCurrency(report.totalReturns)} returns ({report.returnCount ?? report.creditNotes?.length ?? 0} credit notes)
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -191,6 +288,11 @@ export function Reports() {
                 <p className="text-xs text-muted-foreground mt-1">
                   Transactions
                 </p>
+                {!!report.cancelledCount && (
+                  <p className="text-xs text-red-600 mt-1">
+                    {report.cancelledCount} cancelled ({formatCurrency(report.cancelledTotal || 0)}) not counted
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -201,7 +303,7 @@ export function Reports() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">
-                  {formatCurrency(report.totalBills > 0 ? report.totalSales / report.totalBills : 0)}
+                  {formatCurrency(report.totalBills > 0 ? (report.grossSales ?? report.totalSales) / report.totalBills : 0)}
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
                   Per transaction
@@ -225,6 +327,58 @@ export function Reports() {
             </Card>
           </div>
 
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Gross Margin</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Net Sales (excl. GST)</p>
+                  <p className="text-lg font-semibold">{formatCurrency(report.totalRevenue || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Cost of Goods Sold</p>
+                  <p className="text-lg font-semibold">{formatCurrency(report.totalCost || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Gross Profit</p>
+                  <p className={`text-lg font-semibold ${(report.grossProfit || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(report.grossProfit || 0)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Margin</p>
+                  <p className="text-lg font-semibold">{(report.grossMargin || 0).toFixed(1)}%</p>
+                </div>
+              </div>
+              {!!report.uncostedSales && report.uncostedSales > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(report.uncostedSales)} of sales have no cost price and are left out of the margin.
+                </p>
+              )}
+              <Tabs defaultValue="item" className="w-full">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="item">By Item</TabsTrigger>
+                  <TabsTrigger value="seller">By Seller</TabsTrigger>
+                  <TabsTrigger value="day">By Day</TabsTrigger>
+                </TabsList>
+                <TabsContent value="item">
+                  {renderMarginRows(report.itemMargins, row => `${row.quantity} sold`)}
+                </TabsContent>
+                <TabsContent value="seller">
+                  {renderMarginRows(report.sellerMargins, row => `${row.quantity} items`)}
+                </TabsContent>
+                <TabsContent value="day">
+                  {renderMarginRows(report.dailyMargins, row => `${row.quantity} items`, formatDay)}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <SalesAnalytics report={report} />
+
           <Card>
             <CardHeader>
               <CardTitle>Payment Mode Breakdown</CardTitle>
@@ -255,9 +409,37 @@ export function Reports() {
             </CardContent>
           </Card>
 
+          {(!!report.totalOutstanding || !!report.creditSales || !!report.collections) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Receivables</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Sold on credit in period</p>
+                    <p className="text-lg font-semibold">{formatCurrency(report.creditSales || 0)}</p>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Collected in period</p>
+                    <p className="text-lg font-semibold text-green-600">{formatCurrency(report.collections || 0)}</p>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Outstanding today</p>
+                    <p className="text-lg font-semibold text-red-600">{formatCurrency(report.totalOutstanding || 0)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
-              <CardTitle>Bill Details ({report.bills.length} bills)</CardTitle>
+              <CardTitle>
+                Bill Details ({report.bills.length < report.totalBills
+                  ? `latest ${report.bills.length} of ${report.totalBills} bills`
+                  : `${report.bills.length} bills`})
+              </CardTitle>
             </CardHeader>
             <CardContent>
               {report.bills.length === 0 ? (
@@ -300,9 +482,17 @@ export function Reports() {
                         <p className="text-lg font-bold text-green-600">
                           {formatCurrency(bill.grandTotal)}
                         </p>
-                        {bill.paymentMode && (
+                        {getPaymentLabel(bill) && (
                           <p className="text-sm text-muted-foreground mt-1">
-                            {bill.paymentMode}
+                            {getPaymentLabel(bill)}
+                          </p>
+                        )}
+                        {!!bill.balanceDue && (
+                          <p className="text-xs text-red-600">Due {formatCurrency(bill.balanceDue)}</p>
+                        )}
+                        {billMargins.has(bill.billNumber) && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Profit {formatCurrency(billMargins.get(bill.billNumber)!.profit)} ({billMargins.get(bill.billNumber)!.margin.toFixed(1)}%)
                           </p>
                         )}
                       </div>
@@ -312,6 +502,35 @@ export function Reports() {
               )}
             </CardContent>
           </Card>
+
+          {!!report.cancelledBills?.length && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cancelled Bills ({report.cancelledCount ?? report.cancelledBills.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {report.cancelledBills.map(bill => (
+                    <div key={bill.billNumber} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {bill.billNumber}
+                          <span className="text-muted-foreground font-normal"> · {bill.customerName || 'Walk-in Customer'}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(bill.date)}{bill.voidedBy ? ` · Cancelled by ${bill.voidedBy}` : ''}
+                        </p>
+                        {bill.voidReason && (
+                          <p className="text-xs text-muted-foreground">Reason: {bill.voidReason}</p>
+                        )}
+                      </div>
+                      <p className="font-semibold text-muted-foreground line-through">{formatCurrency(bill.grandTotal)}</p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import type { SalesReport } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+
+interface SalesAnalyticsProps {
+  report: SalesReport;
+}
+
+type ItemMetric = 'revenue' | 'quantity';
+
+const TOP_ITEMS = 10;
+
+const CATEGORY_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+];
+
+const itemChartConfig: ChartConfig = {
+  revenue: { label: 'Net Sales', color: 'var(--chart-1)' },
+  quantity: { label: 'Quantity', color: 'var(--chart-2)' },
+};
+
+export function SalesAnalytics({ report }: SalesAnalyticsProps) {
+  const [itemMetric, setItemMetric] = useState<ItemMetric>('revenue');
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const topItems = [...(report.itemSales || [])]
+    .sort((a, b) => b[itemMetric] - a[itemMetric])
+    .slice(0, TOP_ITEMS);
+  const categories = report.categorySales || [];
+  const slowMovers = report.slowMovers || [];
+
+  const categoryChartConfig: ChartConfig = Object.fromEntries(
+    categories.map((row, index) => [
+      row.category,
+      { label: row.category, color: CATEGORY_COLORS[index % CATEGORY_COLORS.length] },
+    ])
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Item Analytics</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="items" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="items">Top Items</TabsTrigger>
+            <TabsTrigger value="categories">Categories</TabsTrigger>
+            <TabsTrigger value="slow">Slow Movers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="items" className="space-y-4">
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setItemMetric('revenue')}
+                variant={itemMetric === 'revenue' ? 'default' : 'outline'}
+                size="sm"
+              >
+                By Sales
+              </Button>
+              <Button
+                onClick={() => setItemMetric('quantity')}
+                variant={itemMetric === 'quantity' ? 'default' : 'outline'}
+                size="sm"
+              >
+                By Quantity
+              </Button>
+            </div>
+            {topItems.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No items sold in this period</p>
+            ) : (
+              <ChartContainer config={itemChartConfig} className="aspect-auto h-80 w-full">
+                <BarChart data={topItems} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" dataKey={itemMetric} tickLine={false} axisLine={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="name"
+                    width={110}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(name: string) => (name.length > 16 ? `${name.slice(0, 15)}…` : name)}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey={itemMetric} fill={`var(--color-${itemMetric})`} radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </TabsContent>
+
+          <TabsContent value="categories" className="space-y-4">
+            {categories.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No items sold in this period</p>
+            ) : (
+              <>
+                <ChartContainer config={categoryChartConfig} className="mx-auto aspect-square max-h-72">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="category" hideLabel />} />
+                    <Pie data={categories} dataKey="revenue" nameKey="category" innerRadius={50}>
+                      {categories.map((row, index) => (
+                        <Cell key={row.category} fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ChartContainer>
+                <div className="space-y-2">
+                  {categories.map((row, index) => (
+                    <div key={row.category} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div className="flex items-center gap-3">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: CATEGORY_COLORS[index % CATEGORY_COLORS.length] }}
+                        ></div>
+                        <div>
+                          <p className="font-medium">{row.category}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {row.items} item{row.items !== 1 ? 's' : ''} · {row.quantity} sold
+                          </p>
+                        </div>
+                      </div>
+                      <span className="font-semibold">{formatCurrency(row.revenue)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="slow">
+            {slowMovers.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No items in stock</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Items in stock that sold the least in this period
+                </p>
+                {slowMovers.map(row => (
+                  <div key={row.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {row.category} · {row.stockOnHand} in stock
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-semibold ${row.quantity === 0 ? 'text-red-600' : ''}`}>
+                        {row.quantity} sold
+                      </p>
+                      <p className="text-xs text-muted-foreground">{formatCurrency(row.revenue)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
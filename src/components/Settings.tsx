@@ -1,16 +1,21 @@
 import { useEffect, useState } from 'react';
-import { settingsAPI } from '../utils/api';
+import { billAPI, settingsAPI } from '../utils/api';
 import type { BusinessSettings, User } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { Save } from 'lucide-react';
+import { RefreshCw, Save } from 'lucide-react';
 import { toast } from 'sonner';
 import { SellerManagement } from './SellerManagement';
 import { BluetoothPrinterManager } from './BluetoothPrinterManager';
+import { BillSeriesSettings } from './BillSeriesSettings';
+import { INDIAN_STATES, getStateFromGstin } from '../utils/gst';
+import { isValidUpiVpa } from '../utils/upi';
 
 interface SettingsProps {
   user: User;
@@ -22,10 +27,13 @@ export function Settings({ user, accessToken }: SettingsProps) {
     businessName: '',
     address: '',
     phone: '',
-    gstin: '',
+    gst: '',
+    state: '',
+    pricesIncludeTax: true,
     email: '',
   });
   const [loading, setLoading] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
 
   useEffect(() => {
     loadSettings();
@@ -43,6 +51,24 @@ export function Settings({ user, accessToken }: SettingsProps) {
     }
   };
 
+  // Sales totals are kept as daily summaries; rebuild them if they ever drift from the bills
+  const handleRebuildSummaries = async () => {
+    if (!confirm('Recalculate the daily sales summaries from all bills? This can take a while.')) {
+      return;
+    }
+
+    setRebuilding(true);
+    try {
+      await billAPI.rebuildRollups();
+      toast.success('Sales summaries rebuilt');
+    } catch (error) {
+      console.error('Error rebuilding sales summaries:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rebuild sales summaries');
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   const handleSave = async () => {
     try {
       setLoading(true);
@@ -69,8 +95,9 @@ export function Settings({ user, accessToken }: SettingsProps) {
       </div>
 
       <Tabs defaultValue="business" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="business">Business</TabsTrigger>
+          <TabsTrigger value="numbering">Numbering</TabsTrigger>
           <TabsTrigger value="sellers">Sellers</TabsTrigger>
           <TabsTrigger value="printer">Printer</TabsTrigger>
           <TabsTrigger value="about">About</TabsTrigger>
@@ -126,14 +153,96 @@ export function Settings({ user, accessToken }: SettingsProps) {
                 </div>
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="gstin">GSTIN (Optional)</Label>
+                  <Input
+                    id="gstin"
+                    value={settings.gst}
+                    onChange={(e) => {
+                      const gst = e.target.value.toUpperCase();
+                      setSettings({ ...settings, gst, state: getStateFromGstin(gst) || settings.state });
+                    }}
+                    placeholder="Enter GSTIN"
+                    maxLength={15}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="state">State</Label>
+                  <Select
+                    value={settings.state || ''}
+                    onValueChange={(value) => setSettings({ ...settings, state: value })}
+                  >
+                    <SelectTrigger id="state">
+                      <SelectValue placeholder="Select business state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INDIAN_STATES.map(state => (
+                        <SelectItem key={state.code} value={state.code}>
+                          {state.code} - {state.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="pricesIncludeTax">Rates include GST</Label>
+                  <p className="text-xs text-muted-foreground">
+                    When off, GST is added on top of item rates
+                  </p>
+                </div>
+                <Switch
+                  id="pricesIncludeTax"
+                  checked={settings.pricesIncludeTax !== false}
+                  onCheckedChange={(checked) => setSettings({ ...settings, pricesIncludeTax: checked })}
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="upiVpa">UPI ID (VPA)</Label>
+                  <Input
+                    id="upiVpa"
+                    value={settings.upiVpa || ''}
+                    onChange={(e) => setSettings({ ...settings, upiVpa: e.target.value.trim() })}
+                    placeholder="e.g., rajstore@okaxis"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="upiPayeeName">UPI Payee Name</Label>
+                  <Input
+                    id="upiPayeeName"
+                    value={settings.upiPayeeName || ''}
+                    onChange={(e) => setSettings({ ...settings, upiPayeeName: e.target.value })}
+                    placeholder="Defaults to the business name"
+                  />
+                </div>
+              </div>
+              {settings.upiVpa && !isValidUpiVpa(settings.upiVpa) && (
+                <p className="text-xs text-red-600">A UPI ID looks like name@bank</p>
+              )}
+
               <div className="space-y-2">
-                <Label htmlFor="gstin">GSTIN (Optional)</Label>
+                <Label htmlFor="cancelWindowHours">Seller cancel window (hours)</Label>
                 <Input
-                  id="gstin"
-                  value={settings.gstin}
-                  onChange={(e) => setSettings({ ...settings, gstin: e.target.value })}
-                  placeholder="Enter GSTIN"
+                  id="cancelWindowHours"
+                  type="number"
+                  min="0"
+                  value={settings.cancelWindowHours ?? ''}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    cancelWindowHours: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                  })}
+                  placeholder="24"
                 />
+                <p className="text-xs text-muted-foreground">
+                  Sellers can cancel their own bills for this long after the sale; older bills need an admin
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -147,14 +256,40 @@ export function Settings({ user, accessToken }: SettingsProps) {
                 />
               </div>
 
-              <Button onClick={handleSave} disabled={loading}>
-                <Save className="mr-2 h-4 w-4" />
-                {loading ? 'Saving...' : 'Save Settings'}
-              </Button>
+              {user.role === 'admin' ? (
+                <Button onClick={handleSave} disabled={loading}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {loading ? 'Saving...' : 'Save Settings'}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Only admin users can change business settings.
+                </p>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
 
+        <TabsContent value="numbering" className="space-y-4">
+          {accessToken && user.role === 'admin' ? (
+            <BillSeriesSettings
+              series={settings.billSeries || []}
+              accessToken={accessToken}
+              loading={loading}
+              onChange={(billSeries) => setSettings({ ...settings, billSeries })}
+              onSave={handleSave}
+            />
+          ) : (
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-muted-foreground text-center">
+                  Only admin users can configure bill numbering.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
         <TabsContent value="sellers" className="space-y-4">
           {accessToken && user.role === 'admin' ? (
             <SellerManagement accessToken={accessToken} currentUser={user} />
@@ -181,6 +316,24 @@ export function Settings({ user, accessToken }: SettingsProps) {
         </TabsContent>
 
         <TabsContent value="about" className="space-y-4">
+          {user.role === 'admin' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Sales Summaries</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Reports and the dashboard read daily totals that are updated with every bill.
+                  Rebuild them if the totals ever disagree with the bills.
+                </p>
+                <Button onClick={handleRebuildSummaries} variant="outline" disabled={rebuilding}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  {rebuilding ? 'Rebuilding...' : 'Rebuild Summaries'}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>About Sales & Billing System</CardTitle>
@@ -194,13 +347,14 @@ export function Settings({ user, accessToken }: SettingsProps) {
               <div className="pt-4 space-y-1">
                 <p>Features:</p>
                 <ul className="list-disc list-inside space-y-1 ml-4 text-sm text-muted-foreground">
-                  <li>User authentication and seller management</li>
+                  <li>User authentication, seller management and role-based access</li>
                   <li>Create and manage bills with automatic bill numbering</li>
                   <li>Track sales by day, month, and financial year</li>
                   <li>Manage stock inventory with automatic quantity updates</li>
                   <li>Print-friendly bill format optimized for thermal printers</li>
                   <li>Bluetooth thermal printer support (58mm/2-inch)</li>
                   <li>Payment mode tracking (Cash, UPI, Card)</li>
+                  <li>GST tax invoices with HSN codes and CGST/SGST/IGST split</li>
                   <li>Permanent data storage with Supabase</li>
                 </ul>
               </div>
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { stockAPI } from '../utils/api';
+import type { StockItem } from '../types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Printer, Bluetooth, Barcode } from 'lucide-react';
+import { toast } from 'sonner';
+import { BluetoothPrinterManager } from './BluetoothPrinterManager';
+import { bluetoothPrinter } from '../utils/bluetoothPrinter';
+import { generateEan13 } from '../utils/barcode';
+import { buildShelfLabels, printLabelSheet } from '../utils/labels';
+import { getSellingPrice } from '../utils/pricing';
+
+interface ShelfLabelsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  stockItems: StockItem[];
+  isAdmin: boolean;
+  onStockUpdated: () => void;
+}
+
+// Pick stock items and copies, then print shelf labels / price tags
+export function ShelfLabelsDialog({ open, onClose, stockItems, isAdmin, onStockUpdated }: ShelfLabelsDialogProps) {
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [search, setSearch] = useState('');
+  const [generating, setGenerating] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [canPrint, setCanPrint] = useState(false);
+  const [showPrinter, setShowPrinter] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCopies({});
+      setSearch('');
+      setShowPrinter(false);
+    }
+  }, [open]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleItems = stockItems
+    .filter(stock =>
+      !term ||
+      stock.name.toLowerCase().includes(term) ||
+      stock.barcodes?.some(code => code.toLowerCase().includes(term))
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const missingBarcodes = stockItems.filter(stock => !stock.barcodes?.length);
+
+  const labels = buildShelfLabels(
+    stockItems
+      .filter(stock => copies[stock.id] > 0)
+      .map(stock => ({ stock, copies: copies[stock.id] }))
+  );
+
+  const selectAll = () => {
+    const next: Record<string, number> = { ...copies };
+    for (const stock of visibleItems) {
+      if (stock.barcodes?.length && !next[stock.id]) {
+        next[stock.id] = 1;
+      }
+    }
+    setCopies(next);
+  };
+
+  // Give every item without a code the next in-store EAN-13
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const assigned = stockItems.flatMap(stock => stock.barcodes || []);
+      for (const stock of missingBarcodes) {
+        const code = generateEan13(assigned);
+        await stockAPI.updateStock(stock.id, { barcodes: [code] });
+        assigned.push(code);
+      }
+      toast.success(`Generated barcodes for ${missingBarcodes.length} item(s)`);
+    } catch (error) {
+      console.error('Error generating barcodes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate barcodes');
+    } finally {
+      setGenerating(false);
+      onStockUpdated();
+    }
+  };
+
+  const handleSheetPrint = () => {
+    try {
+      printLabelSheet(labels);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to print labels');
+    }
+  };
+
+  const handleThermalPrint = async () => {
+    setPrinting(true);
+    try {
+      await bluetoothPrinter.printLabels(labels);
+      toast.success(`Printed ${labels.length} label(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to print labels');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Shelf Labels</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isAdmin && missingBarcodes.length > 0 && (
+            <div className="flex items-center justify-between gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+              <span className="text-yellow-800">{missingBarcodes.length} item(s) have no barcode</span>
+              <Button onClick={handleGenerate} variant="outline" size="sm" disabled={generating}>
+                <Barcode className="mr-2 h-4 w-4" />
+                {generating ? 'Generating...' : 'Generate EAN-13'}
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or code"
+            />
+            <Button onClick={selectAll} variant="outline">
+              Select All
+            </Button>
+          </div>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {visibleItems.map(stock => {
+              const code = stock.barcodes?.[0];
+              return (
+                <div key={stock.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg text-sm">
+                  <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                    <Checkbox
+                      checked={copies[stock.id] > 0}
+                      disabled={!code}
+                      onCheckedChange={(checked) => setCopies({ ...copies, [stock.id]: checked === true ? 1 : 0 })}
+                    />
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{stock.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(getSellingPrice(stock))} · {code || 'No barcode'}
+                      </p>
+                    </div>
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-20"
+                    disabled={!code}
+                    value={copies[stock.id] || ''}
+                    onChange={(e) => setCopies({ ...copies, [stock.id]: Math.max(0, Math.floor(Number(e.target.value))) })}
+                    placeholder="Copies"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {showPrinter && <BluetoothPrinterManager onPrintReady={setCanPrint} />}
+
+          <div className="flex gap-2">
+            <Button onClick={handleSheetPrint} className="flex-1" disabled={labels.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Sheet ({labels.length})
+            </Button>
+            {showPrinter ? (
+              <Button
+                onClick={handleThermalPrint}
+                variant="outline"
+                className="flex-1"
+                disabled={!canPrint || printing || labels.length === 0}
+              >
+                <Bluetooth className="mr-2 h-4 w-4" />
+                {printing ? 'Printing...' : 'Thermal Print'}
+              </Button>
+            ) : (
+              <Button onClick={() => setShowPrinter(true)} variant="outline" className="flex-1">
+                <Bluetooth className="mr-2 h-4 w-4" />
+                Thermal Printer
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
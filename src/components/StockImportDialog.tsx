@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { stockAPI } from '../utils/api';
+import type { StockImportResult, StockItem } from '../types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  STOCK_IMPORT_FIELDS,
+  buildImportPreview,
+  guessColumnMapping,
+  readImportFile,
+  type ColumnMapping,
+  type ImportSheet,
+} from '../utils/stockImport';
+
+interface StockImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  stockItems: StockItem[];
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+// Rows drawn in the preview; the counts above it always cover the whole file
+const PREVIEW_ROW_LIMIT = 300;
+const SKIP_COLUMN = 'skip';
+
+// Import wizard: choose a CSV/Excel file, map its columns, review every row, then import
+export function StockImportDialog({ open, onClose, stockItems, onImported }: StockImportDialogProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Stock as it was when the file was chosen, so the preview doesn't shift once the import lands
+  const [baseStock, setBaseStock] = useState<StockItem[]>([]);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [result, setResult] = useState<StockImportResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName('');
+      setSheet(null);
+      setMapping({});
+      setProblemsOnly(false);
+      setResult(null);
+    }
+  }, [open]);
+
+  const preview = useMemo(
+    () => (sheet && step === 'preview' ? buildImportPreview(sheet, mapping, baseStock) : []),
+    [sheet, mapping, baseStock, step]
+  );
+  const validRows = preview.filter(row => row.errors.length === 0);
+  const invalidCount = preview.length - validRows.length;
+  const createCount = validRows.filter(row => row.action === 'create').length;
+  const visibleRows = (problemsOnly ? preview.filter(row => row.errors.length > 0) : preview).slice(0, PREVIEW_ROW_LIMIT);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const data = await readImportFile(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has no rows under its header');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setBaseStock(stockItems);
+      setMapping(guessColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const imported = await stockAPI.importStock(validRows.map(row => row.item));
+      setResult(imported);
+      toast.success(`Imported ${imported.created} new and ${imported.updated} updated item(s)`);
+      onImported();
+    } catch (error) {
+      console.error('Error importing stock:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import stock');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnLabel = (index: number) => sheet?.headers[index] || `Column ${index + 1}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Stock</DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Choose a CSV or Excel file with one item per row and a header row. Items are matched to
+              existing stock by barcode, then by name; matched items are updated, the rest are added.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="stock-import-file">File</Label>
+              <Input
+                id="stock-import-file"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                disabled={reading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            {reading && <p className="text-sm text-muted-foreground">Reading file...</p>}
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName} · {sheet.rows.length} row(s). Pick the column holding each field; fields left
+              unmapped keep their current value on existing items.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-96 overflow-y-auto">
+              {STOCK_IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}{field === 'name' ? ' *' : ''}</Label>
+                  <Select
+                    value={mapping[field] === undefined ? SKIP_COLUMN : String(mapping[field])}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === SKIP_COLUMN ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                      {sheet.headers.map((_, index) => (
+                        <SelectItem key={index} value={String(index)}>{columnLabel(index)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => setStep('upload')} variant="outline" className="flex-1">
+                Back
+              </Button>
+              <Button onClick={() => setStep('preview')} className="flex-1" disabled={mapping.name === undefined}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-green-800 font-semibold">{createCount}</p>
+                <p className="text-xs text-green-700">New items</p>
+              </div>
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-blue-800 font-semibold">{validRows.length - createCount}</p>
+                <p className="text-xs text-blue-700">Updates to existing items</p>
+              </div>
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-800 font-semibold">{invalidCount}</p>
+                <p className="text-xs text-red-700">Rows with problems (skipped)</p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox checked={problemsOnly} onCheckedChange={(checked) => setProblemsOnly(checked === true)} />
+              Show only rows with problems
+            </label>
+
+            <div className="max-h-80 overflow-y-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="p-2 font-medium">Row</th>
+                    <th className="p-2 font-medium">Item</th>
+                    <th className="p-2 font-medium">Qty</th>
+                    <th className="p-2 font-medium">Price</th>
+                    <th className="p-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(row => (
+                    <tr key={row.row} className={`border-b last:border-0 align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="p-2 text-muted-foreground">{row.row}</td>
+                      <td className="p-2">
+                        <p className="font-medium">{row.item.name || '—'}</p>
+                        {row.item.barcodes && (
+                          <p className="text-xs text-muted-foreground">{row.item.barcodes.join(', ')}</p>
+                        )}
+                      </td>
+                      <td className="p-2">{row.item.quantity ?? '—'}</td>
+                      <td className="p-2">{row.item.sellingPrice ?? '—'}</td>
+                      <td className="p-2">
+                        {row.errors.length > 0 ? (
+                          row.errors.map(error => (
+                            <p key={error} className="text-xs text-red-700 flex items-start gap-1">
+                              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                              {error}
+                            </p>
+                          ))
+                        ) : (
+                          <p className="text-xs text-green-700 flex items-center gap-1">
+                            <CheckCircle className="h-3 w-3" />
+                            {row.action === 'update' ? `Updates ${row.matchName}` : 'New item'}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && (
+                <p className="text-center text-muted-foreground py-6">No rows to show</p>
+              )}
+            </div>
+            {visibleRows.length === PREVIEW_ROW_LIMIT && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROW_LIMIT} rows</p>
+            )}
+
+            {result && result.errors.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-1">
+                <p>{result.errors.length} row(s) were rejected by the server:</p>
+                {result.errors.slice(0, 10).map(error => (
+                  <p key={error.row} className="text-xs">Row {error.row}: {error.error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={() => setStep('map')} variant="outline" className="flex-1" disabled={importing || !!result}>
+                Back
+              </Button>
+              {result ? (
+                <Button onClick={onClose} className="flex-1">
+                  Done
+                </Button>
+              ) : (
+                <Button onClick={handleImport} className="flex-1" disabled={importing || validRows.length === 0}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importing ? 'Importing...' : `Import ${validRows.length} Item(s)`}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
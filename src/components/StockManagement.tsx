@@ -1,25 +1,50 @@
 import { useEffect, useState } from 'react';
 import { stockAPI } from '../utils/api';
-import type { StockItem } from '../types';
+import type { StockItem, User } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Plus, Pencil, Trash2, Package, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Plus, Pencil, Trash2, Package, AlertCircle, AlertTriangle, CheckCircle, History, RefreshCw, Tag, Upload } from 'lucide-react';
 import { toast } from 'sonner';
+import { GST_RATES } from '../utils/gst';
+import { generateEan13, normalizeBarcodes } from '../utils/barcode';
+import { StockMovementHistory } from './StockMovementHistory';
+import { ShelfLabelsDialog } from './ShelfLabelsDialog';
+import { StockImportDialog } from './StockImportDialog';
+import { ExportMenu, type ExportOption } from './ExportMenu';
+import { STOCK_COLUMNS, exportFileName, exportTable } from '../utils/exports';
 
-export function StockManagement() {
+interface StockManagementProps {
+  user: User;
+}
+
+export function StockManagement({ user }: StockManagementProps) {
+  const isAdmin = user.role === 'admin';
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<StockItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<StockItem | null>(null);
+  const [adjustmentNote, setAdjustmentNote] = useState('');
+  const [reconciling, setReconciling] = useState(false);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   
   // Form state
   const [formData, setFormData] = useState({
     name: '',
     quantity: 0,
     purchaseRate: 0,
+    sellingPrice: 0,
+    mrp: 0,
+    wholesalePrice: 0,
+    category: '',
+    hsnCode: '',
+    gstRate: 0,
+    barcodes: '',
   });
 
   useEffect(() => {
@@ -43,8 +68,16 @@ export function StockManagement() {
       name: '',
       quantity: 0,
       purchaseRate: 0,
+      sellingPrice: 0,
+      mrp: 0,
+      wholesalePrice: 0,
+      category: '',
+      hsnCode: '',
+      gstRate: 0,
+      barcodes: '',
     });
     setEditingItem(null);
+    setAdjustmentNote('');
   };
 
   const handleAdd = async () => {
@@ -58,6 +91,13 @@ export function StockManagement() {
         name: formData.name,
         quantity: formData.quantity,
         purchaseRate: formData.purchaseRate || undefined,
+        sellingPrice: formData.sellingPrice || undefined,
+        mrp: formData.mrp || undefined,
+        wholesalePrice: formData.wholesalePrice || undefined,
+        category: formData.category.trim() || undefined,
+        hsnCode: formData.hsnCode.trim() || undefined,
+        gstRate: formData.gstRate,
+        barcodes: normalizeBarcodes(formData.barcodes),
       });
       
       toast.success('Stock item added successfully');
@@ -66,7 +106,7 @@ export function StockManagement() {
       loadStock();
     } catch (error) {
       console.error('Error adding stock:', error);
-      toast.error('Failed to add stock item');
+      toast.error(error instanceof Error ? error.message : 'Failed to add stock item');
     }
   };
 
@@ -81,7 +121,14 @@ export function StockManagement() {
         name: formData.name,
         quantity: formData.quantity,
         purchaseRate: formData.purchaseRate || undefined,
-      });
+        sellingPrice: formData.sellingPrice || undefined,
+        mrp: formData.mrp || undefined,
+        wholesalePrice: formData.wholesalePrice || undefined,
+        category: formData.category.trim() || undefined,
+        hsnCode: formData.hsnCode.trim() || undefined,
+        gstRate: formData.gstRate,
+        barcodes: normalizeBarcodes(formData.barcodes),
+      }, adjustmentNote.trim() || undefined);
       
       toast.success('Stock item updated successfully');
       setEditingItem(null);
@@ -89,7 +136,7 @@ export function StockManagement() {
       loadStock();
     } catch (error) {
       console.error('Error updating stock:', error);
-      toast.error('Failed to update stock item');
+      toast.error(error instanceof Error ? error.message : 'Failed to update stock item');
     }
   };
 
@@ -108,18 +155,50 @@ export function StockManagement() {
     }
   };
 
+  const handleReconcile = async () => {
+    setReconciling(true);
+    try {
+      const corrections = await stockAPI.reconcileStock();
+      if (corrections.length === 0) {
+        toast.success('Stock quantities match the ledger');
+      } else {
+        toast.success(`Corrected ${corrections.length} item${corrections.length !== 1 ? 's' : ''} from the ledger`);
+      }
+      loadStock();
+    } catch (error) {
+      console.error('Error reconciling stock:', error);
+      toast.error('Failed to reconcile stock');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  // Add the next in-store EAN-13 to the codes on the form
+  const addGeneratedBarcode = () => {
+    const formCodes = normalizeBarcodes(formData.barcodes);
+    const code = generateEan13([...stockItems.flatMap(item => item.barcodes || []), ...formCodes]);
+    setFormData({ ...formData, barcodes: [...formCodes, code].join(', ') });
+  };
+
   const startEdit = (item: StockItem) => {
     setEditingItem(item);
     setFormData({
       name: item.name,
       quantity: item.quantity,
       purchaseRate: item.purchaseRate || 0,
+      sellingPrice: item.sellingPrice || 0,
+      mrp: item.mrp || 0,
+      wholesalePrice: item.wholesalePrice || 0,
+      category: item.category || '',
+      hsnCode: item.hsnCode || '',
+      gstRate: item.gstRate || 0,
+      barcodes: (item.barcodes || []).join(', '),
     });
   };
 
   const getTotalValue = () => {
     return stockItems.reduce((sum, item) => {
-      return sum + (item.quantity * (item.purchaseRate || 0));
+      return sum + (item.quantity * (item.averageCost ?? item.purchaseRate ?? 0));
     }, 0);
   };
 
@@ -178,61 +257,187 @@ export function StockManagement() {
     );
   }
 
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Stock list',
+      run: async format => {
+        const rows = [...stockItems].sort((a, b) => a.name.localeCompare(b.name));
+        await exportTable(exportFileName('stock', new Date().toISOString()), 'Stock', STOCK_COLUMNS, rows, format);
+      },
+    },
+  ];
+
+  // Existing categories, suggested while typing so the same category isn't spelled two ways
+  const categories = [...new Set(stockItems.map(item => item.category).filter(Boolean))].sort() as string[];
+
   return (
     <div className="space-y-6">
+      <datalist id="stock-categories">
+        {categories.map(category => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold">Stock Management</h1>
           <p className="text-muted-foreground">Manage your inventory</p>
         </div>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => resetForm()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Stock
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Stock Item</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Product Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="Enter product name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="quantity">Quantity *</Label>
-                <Input
-                  id="quantity"
-                  type="number"
-                  min="0"
-                  value={formData.quantity}
-                  onChange={(e) => setFormData({ ...formData, quantity: Number(e.target.value) })}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="purchaseRate">Purchase Rate (₹) (Optional)</Label>
-                <Input
-                  id="purchaseRate"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={formData.purchaseRate}
-                  onChange={(e) => setFormData({ ...formData, purchaseRate: Number(e.target.value) })}
-                />
-              </div>
-              <Button onClick={handleAdd} className="w-full">
-                Add Stock Item
+        <div className="flex gap-2">
+          <ExportMenu options={exportOptions} disabled={stockItems.length === 0} />
+          <Button onClick={() => setIsLabelsOpen(true)} variant="outline" title="Print shelf labels and price tags">
+            <Tag className="mr-2 h-4 w-4" />
+            Labels
+          </Button>
+          {isAdmin && (
+            <>
+              <Button onClick={() => setIsImportOpen(true)} variant="outline" title="Add or update items from a CSV or Excel file">
+                <Upload className="mr-2 h-4 w-4" />
+                Import
               </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+              <Button onClick={handleReconcile} variant="outline" disabled={reconciling} title="Reconcile quantities with the stock ledger">
+                <RefreshCw className={`mr-2 h-4 w-4 ${reconciling ? 'animate-spin' : ''}`} />
+                Reconcile
+              </Button>
+              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => resetForm()}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Stock
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Stock Item</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Product Name *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="Enter product name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="category">Category</Label>
+                      <Input
+                        id="category"
+                        list="stock-categories"
+                        value={formData.category}
+                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                        placeholder="e.g., Kitchenware"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="barcodes">Barcodes / SKUs</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="barcodes"
+                          value={formData.barcodes}
+                          onChange={(e) => setFormData({ ...formData, barcodes: e.target.value })}
+                          placeholder="Scan or type, separate with commas"
+                        />
+                        <Button onClick={addGeneratedBarcode} variant="outline" type="button">
+                          Generate
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quantity">Quantity *</Label>
+                      <Input
+                        id="quantity"
+                        type="number"
+                        min="0"
+                        value={formData.quantity}
+                        onChange={(e) => setFormData({ ...formData, quantity: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="purchaseRate">Cost Price (₹)</Label>
+                        <Input
+                          id="purchaseRate"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.purchaseRate}
+                          onChange={(e) => setFormData({ ...formData, purchaseRate: Number(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="sellingPrice">Selling Price (₹)</Label>
+                        <Input
+                          id="sellingPrice"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.sellingPrice}
+                          onChange={(e) => setFormData({ ...formData, sellingPrice: Number(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="mrp">MRP (₹)</Label>
+                        <Input
+                          id="mrp"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.mrp}
+                          onChange={(e) => setFormData({ ...formData, mrp: Number(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="wholesalePrice">Wholesale Price (₹)</Label>
+                        <Input
+                          id="wholesalePrice"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.wholesalePrice}
+                          onChange={(e) => setFormData({ ...formData, wholesalePrice: Number(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                    {formData.sellingPrice > 0 && formData.purchaseRate > formData.sellingPrice && (
+                      <p className="text-xs text-yellow-700">Selling price is below the cost price</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="hsnCode">HSN/SAC Code</Label>
+                        <Input
+                          id="hsnCode"
+                          value={formData.hsnCode}
+                          onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                          placeholder="e.g., 7323"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="gstRate">GST Rate</Label>
+                        <Select
+                          value={String(formData.gstRate)}
+                          onValueChange={(value) => setFormData({ ...formData, gstRate: Number(value) })}
+                        >
+                          <SelectTrigger id="gstRate">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GST_RATES.map(rate => (
+                              <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <Button onClick={handleAdd} className="w-full">
+                      Add Stock Item
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Stock Level Summary */}
@@ -343,17 +548,52 @@ export function StockManagement() {
                               {status.status}
                             </span>
                           </div>
-                          <div className="flex gap-4 mt-2 text-sm">
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm">
                             <span className={`font-semibold ${status.textColor}`}>
                               Qty: {item.quantity}
                             </span>
+                            {item.category && (
+                              <span className="text-muted-foreground">
+                                {item.category}
+                              </span>
+                            )}
+                            {item.hsnCode && (
+                              <span className="text-muted-foreground">
+                                HSN: {item.hsnCode}
+                              </span>
+                            )}
+                            {!!item.barcodes?.length && (
+                              <span className="text-muted-foreground">
+                                Code: {item.barcodes.join(', ')}
+                              </span>
+                            )}
+                            {!!item.gstRate && (
+                              <span className="text-muted-foreground">
+                                GST: {item.gstRate}%
+                              </span>
+                            )}
+                            {!!item.sellingPrice && (
+                              <span className="text-muted-foreground">
+                                Price: {formatCurrency(item.sellingPrice)}
+                              </span>
+                            )}
+                            {!!item.mrp && (
+                              <span className="text-muted-foreground">
+                                MRP: {formatCurrency(item.mrp)}
+                              </span>
+                            )}
                             {item.purchaseRate && (
                               <>
                                 <span className="text-muted-foreground">
-                                  Rate: {formatCurrency(item.purchaseRate)}
+                                  Cost: {formatCurrency(item.purchaseRate)}
                                 </span>
+                                {item.averageCost !== undefined && (
+                                  <span className="text-muted-foreground">
+                                    Avg Cost: {formatCurrency(item.averageCost)}
+                                  </span>
+                                )}
                                 <span className="text-muted-foreground">
-                                  Value: {formatCurrency(item.quantity * item.purchaseRate)}
+                                  Value: {formatCurrency(item.quantity * (item.averageCost ?? item.purchaseRate))}
                                 </span>
                               </>
                             )}
@@ -361,64 +601,178 @@ export function StockManagement() {
                         </div>
                       </div>
                       <div className="flex gap-2">
-                        <Dialog open={editingItem?.id === item.id} onOpenChange={(open) => {
-                          if (!open) {
-                            setEditingItem(null);
-                            resetForm();
-                          }
-                        }}>
-                          <DialogTrigger asChild>
-                            <Button onClick={() => startEdit(item)} variant="outline" size="sm">
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Edit Stock Item</DialogTitle>
-                            </DialogHeader>
-                            <div className="space-y-4">
-                              <div className="space-y-2">
-                                <Label htmlFor="edit-name">Product Name *</Label>
-                                <Input
-                                  id="edit-name"
-                                  value={formData.name}
-                                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                                />
-                              </div>
-                              <div className="space-y-2">
-                                <Label htmlFor="edit-quantity">Quantity *</Label>
-                                <Input
-                                  id="edit-quantity"
-                                  type="number"
-                                  min="0"
-                                  value={formData.quantity}
-                                  onChange={(e) => setFormData({ ...formData, quantity: Number(e.target.value) })}
-                                />
-                              </div>
-                              <div className="space-y-2">
-                                <Label htmlFor="edit-purchaseRate">Purchase Rate (₹) (Optional)</Label>
-                                <Input
-                                  id="edit-purchaseRate"
-                                  type="number"
-                                  min="0"
-                                  step="0.01"
-                                  value={formData.purchaseRate}
-                                  onChange={(e) => setFormData({ ...formData, purchaseRate: Number(e.target.value) })}
-                                />
-                              </div>
-                              <Button onClick={handleUpdate} className="w-full">
-                                Update Stock Item
-                              </Button>
-                            </div>
-                          </DialogContent>
-                        </Dialog>
+                        {isAdmin && (
+                          <>
+                            <Dialog open={editingItem?.id === item.id} onOpenChange={(open) => {
+                              if (!open) {
+                                setEditingItem(null);
+                                resetForm();
+                              }
+                            }}>
+                              <DialogTrigger asChild>
+                                <Button onClick={() => startEdit(item)} variant="outline" size="sm">
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent>
+                                <DialogHeader>
+                                  <DialogTitle>Edit Stock Item</DialogTitle>
+                                </DialogHeader>
+                                <div className="space-y-4">
+                                  <div className="space-y-2">
+                                    <Label htmlFor="edit-name">Product Name *</Label>
+                                    <Input
+                                      id="edit-name"
+                                      value={formData.name}
+                                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                    />
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="edit-category">Category</Label>
+                                    <Input
+                                      id="edit-category"
+                                      list="stock-categories"
+                                      value={formData.category}
+                                      onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                                      placeholder="e.g., Kitchenware"
+                                    />
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="edit-barcodes">Barcodes / SKUs</Label>
+                                    <div className="flex gap-2">
+                                      <Input
+                                        id="edit-barcodes"
+                                        value={formData.barcodes}
+                                        onChange={(e) => setFormData({ ...formData, barcodes: e.target.value })}
+                                        placeholder="Scan or type, separate with commas"
+                                      />
+                                      <Button onClick={addGeneratedBarcode} variant="outline" type="button">
+                                        Generate
+                                      </Button>
+                                    </div>
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="edit-quantity">Quantity *</Label>
+                                    <Input
+                                      id="edit-quantity"
+                                      type="number"
+                                      min="0"
+                                      value={formData.quantity}
+                                      onChange={(e) => setFormData({ ...formData, quantity: Number(e.target.value) })}
+                                    />
+                                  </div>
+                                  {formData.quantity !== item.quantity && (
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-adjustmentNote">Reason for Quantity Change</Label>
+                                      <Input
+                                        id="edit-adjustmentNote"
+                                        value={adjustmentNote}
+                                        onChange={(e) => setAdjustmentNote(e.target.value)}
+                                        placeholder="e.g., Damaged, stock count correction"
+                                      />
+                                    </div>
+                                  )}
+                                  <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-purchaseRate">Cost Price (₹)</Label>
+                                      <Input
+                                        id="edit-purchaseRate"
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.purchaseRate}
+                                        onChange={(e) => setFormData({ ...formData, purchaseRate: Number(e.target.value) })}
+                                      />
+                                    </div>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-sellingPrice">Selling Price (₹)</Label>
+                                      <Input
+                                        id="edit-sellingPrice"
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.sellingPrice}
+                                        onChange={(e) => setFormData({ ...formData, sellingPrice: Number(e.target.value) })}
+                                      />
+                                    </div>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-mrp">MRP (₹)</Label>
+                                      <Input
+                                        id="edit-mrp"
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.mrp}
+                                        onChange={(e) => setFormData({ ...formData, mrp: Number(e.target.value) })}
+                                      />
+                                    </div>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-wholesalePrice">Wholesale Price (₹)</Label>
+                                      <Input
+                                        id="edit-wholesalePrice"
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={formData.wholesalePrice}
+                                        onChange={(e) => setFormData({ ...formData, wholesalePrice: Number(e.target.value) })}
+                                      />
+                                    </div>
+                                  </div>
+                                  {formData.sellingPrice > 0 && formData.purchaseRate > formData.sellingPrice && (
+                                    <p className="text-xs text-yellow-700">Selling price is below the cost price</p>
+                                  )}
+                                  <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-hsnCode">HSN/SAC Code</Label>
+                                      <Input
+                                        id="edit-hsnCode"
+                                        value={formData.hsnCode}
+                                        onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                                        placeholder="e.g., 7323"
+                                      />
+                                    </div>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="edit-gstRate">GST Rate</Label>
+                                      <Select
+                                        value={String(formData.gstRate)}
+                                        onValueChange={(value) => setFormData({ ...formData, gstRate: Number(value) })}
+                                      >
+                                        <SelectTrigger id="edit-gstRate">
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {GST_RATES.map(rate => (
+                                            <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    </div>
+                                  </div>
+                                  <Button onClick={handleUpdate} className="w-full">
+                                    Update Stock Item
+                                  </Button>
+                                </div>
+                              </DialogContent>
+                            </Dialog>
+                          </>
+                        )}
                         <Button
-                          onClick={() => handleDelete(item.id)}
+                          onClick={() => setHistoryItem(item)}
                           variant="outline"
                           size="sm"
+                          title="Movement History"
                         >
-                          <Trash2 className="h-4 w-4 text-red-500" />
+                          <History className="h-4 w-4" />
                         </Button>
+                        {isAdmin && (
+                          <Button
+                            onClick={() => handleDelete(item.id)}
+                            variant="outline"
+                            size="sm"
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   );
@@ -427,6 +781,30 @@ export function StockManagement() {
           )}
         </CardContent>
       </Card>
+
+      <ShelfLabelsDialog
+        open={isLabelsOpen}
+        onClose={() => setIsLabelsOpen(false)}
+        stockItems={stockItems}
+        isAdmin={isAdmin}
+        onStockUpdated={loadStock}
+      />
+
+      <StockImportDialog
+        open={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        stockItems={stockItems}
+        onImported={loadStock}
+      />
+
+      <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Stock History: {historyItem?.name}</DialogTitle>
+          </DialogHeader>
+          {historyItem && <StockMovementHistory item={historyItem} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
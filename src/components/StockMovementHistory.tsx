@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { stockAPI } from '../utils/api';
+import type { StockItem, StockMovement } from '../types';
+
+interface StockMovementHistoryProps {
+  item: StockItem;
+}
+
+const movementLabels: Record<StockMovement['type'], string> = {
+  'sale': 'Sale',
+  'return': 'Return',
+  'purchase': 'Purchase',
+  'adjustment': 'Adjustment',
+  'bill-edit': 'Bill Edit',
+};
+
+export function StockMovementHistory({ item }: StockMovementHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadMovements();
+  }, [item.id]);
+
+  const loadMovements = async () => {
+    try {
+      const result = await stockAPI.getMovements(item.id);
+      setMovements(result);
+    } catch (error) {
+      console.error('Error loading stock movements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading history...</p>;
+  }
+
+  if (movements.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No stock movements recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-96 overflow-y-auto">
+      {movements.map(movement => (
+        <div key={movement.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{movementLabels[movement.type] || movement.type}</span>
+              {movement.reference && (
+                <span className="text-xs text-muted-foreground">{movement.reference}</span>
+              )}
+            </div>
+            {movement.note && (
+              <p className="text-xs text-muted-foreground">{movement.note}</p>
+            )}
+            <p className="text-xs text-muted-foreground">{formatDate(movement.createdAt)}</p>
+          </div>
+          <div className="text-right">
+            <p className={`font-semibold ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+            </p>
+            <p className="text-xs text-muted-foreground">Balance: {movement.balance}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
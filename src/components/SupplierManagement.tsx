@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { supplierAPI } from '../utils/api';
+import type { Supplier, SupplierPayable } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Pencil, Trash2, IndianRupee } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SupplierManagementProps {
+  onSuppliersChanged?: () => void;
+}
+
+const emptySupplier = {
+  name: '',
+  phone: '',
+  address: '',
+  gstin: '',
+};
+
+export function SupplierManagement({ onSuppliersChanged }: SupplierManagementProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [payables, setPayables] = useState<SupplierPayable[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptySupplier);
+  const [paymentSupplier, setPaymentSupplier] = useState<SupplierPayable | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState(0);
+  const [paymentNote, setPaymentNote] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [supplierList, payableList] = await Promise.all([
+        supplierAPI.getAllSuppliers(),
+        supplierAPI.getPayables(),
+      ]);
+      setSuppliers(supplierList);
+      setPayables(payableList);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+      toast.error('Failed to load suppliers');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const openAddDialog = () => {
+    setEditingSupplier(null);
+    setFormData(emptySupplier);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      phone: supplier.phone || '',
+      address: supplier.address || '',
+      gstin: supplier.gstin || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Supplier name is required');
+      return;
+    }
+
+    const supplier = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      gstin: formData.gstin.trim().toUpperCase() || undefined,
+    };
+
+    try {
+      if (editingSupplier) {
+        await supplierAPI.updateSupplier(editingSupplier.id, supplier);
+        toast.success('Supplier updated successfully');
+      } else {
+        await supplierAPI.addSupplier(supplier);
+        toast.success('Supplier added successfully');
+      }
+      setIsDialogOpen(false);
+      loadData();
+      onSuppliersChanged?.();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      toast.error('Failed to save supplier');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this supplier? Their purchase history is kept.')) {
+      return;
+    }
+
+    try {
+      await supplierAPI.deleteSupplier(id);
+      toast.success('Supplier deleted successfully');
+      loadData();
+      onSuppliersChanged?.();
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      toast.error('Failed to delete supplier');
+    }
+  };
+
+  const openPaymentDialog = (payable: SupplierPayable) => {
+    setPaymentSupplier(payable);
+    setPaymentAmount(Math.max(0, payable.balance));
+    setPaymentNote('');
+  };
+
+  const handleRecordPayment = async () => {
+    if (!paymentSupplier || paymentAmount <= 0) {
+      toast.error('Enter a payment amount');
+      return;
+    }
+
+    try {
+      await supplierAPI.addPayment({
+        supplierId: paymentSupplier.supplierId,
+        amount: paymentAmount,
+        date: new Date().toISOString(),
+        note: paymentNote.trim() || undefined,
+      });
+      toast.success('Payment recorded');
+      setPaymentSupplier(null);
+      loadData();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('Failed to record payment');
+    }
+  };
+
+  const totalPayable = payables.reduce((sum, p) => sum + Math.max(0, p.balance), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Payables</CardTitle>
+          <span className="text-lg font-bold text-red-600">{formatCurrency(totalPayable)}</span>
+        </CardHeader>
+        <CardContent>
+          {payables.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No suppliers yet</p>
+          ) : (
+            <div className="space-y-3">
+              {payables.map(payable => (
+                <div key={payable.supplierId} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{payable.supplierName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {payable.purchaseCount} purchase{payable.purchaseCount !== 1 ? 's' : ''} ·
+                      {' '}Bought {formatCurrency(payable.totalPurchases)} · Paid {formatCurrency(payable.totalPaid)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`font-semibold ${payable.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(payable.balance)}
+                    </span>
+                    <Button onClick={() => openPaymentDialog(payable)} variant="outline" size="sm" title="Record Payment">
+                      <IndianRupee className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Suppliers</CardTitle>
+          <Button onClick={openAddDialog} size="sm">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Supplier
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              No suppliers yet. Click "Add Supplier" to start.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {suppliers.map(supplier => (
+                <div key={supplier.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{supplier.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[supplier.phone, supplier.gstin && `GSTIN: ${supplier.gstin}`].filter(Boolean).join(' · ')}
+                    </p>
+                    {supplier.address && (
+                      <p className="text-xs text-muted-foreground">{supplier.address}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => openEditDialog(supplier)} variant="outline" size="sm">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button onClick={() => handleDelete(supplier.id)} variant="outline" size="sm">
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Supplier Name *</Label>
+              <Input
+                id="supplierName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Enter supplier name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplierPhone">Phone</Label>
+                <Input
+                  id="supplierPhone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierGstin">GSTIN</Label>
+                <Input
+                  id="supplierGstin"
+                  value={formData.gstin}
+                  onChange={(e) => setFormData({ ...formData, gstin: e.target.value })}
+                  maxLength={15}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierAddress">Address</Label>
+              <Textarea
+                id="supplierAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <Button onClick={handleSave} className="w-full">
+              {editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!paymentSupplier} onOpenChange={(open) => !open && setPaymentSupplier(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay {paymentSupplier?.supplierName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Outstanding: {formatCurrency(paymentSupplier?.balance || 0)}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount (₹) *</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={paymentAmount}
+                onChange={(e) => setPaymentAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentNote">Note</Label>
+              <Input
+                id="paymentNote"
+                value={paymentNote}
+                onChange={(e) => setPaymentNote(e.target.value)}
+                placeholder="e.g., NEFT ref, cheque no."
+              />
+            </div>
+            <Button onClick={handleRecordPayment} className="w-full">
+              Record Payment
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,15 @@ import { logger } from 'npm:hono/logger';
 import { createClient } from 'npm:@supabase/supabase-js';
 import * as kv from './kv_store.tsx';
 
-const app = new Hono();
+interface AppUser {
+  id: string;
+  username: string;
+  name: string;
+  role: 'admin' | 'seller';
+  createdAt: string;
+}
+
+const app = new Hono<{ Variables: { user: AppUser } }>();
 
 app.use('*', cors());
 app.use('*', logger(console.log));
@@ -25,371 +33,3175 @@ async function verifyAuth(request: Request) {
   if (error || !user) {
     return null;
   }
-  
-  return user;
-}
+  
+  return user;
+}
+
+// Routes that can be called without signing in
+const PUBLIC_ROUTES = [
+  '/make-server-f305f05f/signup',
+  '/make-server-f305f05f/init-admin',
+  '/make-server-f305f05f/check-admin-exists',
+];
+
+// Resolve the caller from their Supabase access token on every other route
+app.use('/make-server-f305f05f/*', async (c, next) => {
+  if (c.req.method === 'OPTIONS' || PUBLIC_ROUTES.includes(c.req.path)) {
+    return next();
+  }
+
+  const authUser = await verifyAuth(c.req.raw);
+  if (!authUser) {
+    return c.json({ error: 'Unauthorized', success: false }, 401);
+  }
+
+  const userData = await kv.get(`user:${authUser.id}`);
+  if (!userData) {
+    return c.json({ error: 'User not found', success: false }, 403);
+  }
+
+  c.set('user', typeof userData === 'string' ? JSON.parse(userData) : userData);
+  await next();
+});
+
+// Restrict a route to admin users
+async function requireAdmin(c: any, next: () => Promise<void>) {
+  if (c.get('user')?.role !== 'admin') {
+    return c.json({ error: 'Admin access required', success: false }, 403);
+  }
+  await next();
+}
+
+// Insert a key only if it does not exist yet. The primary key on the KV
+// table makes this atomic, so two concurrent callers can never both win.
+async function kvInsert(key: string, value: any): Promise<boolean> {
+  const { error } = await supabase.from('kv_store_f305f05f').insert({ key, value });
+  if (!error) {
+    return true;
+  }
+  if (error.code === '23505') {
+    return false;
+  }
+  throw new Error(error.message);
+}
+
+// Default series matches the original BILL-YYYY-XXXX format
+const DEFAULT_BILL_SERIES = {
+  id: 'default',
+  name: 'Default',
+  prefix: 'BILL-',
+  padding: 4,
+  reset: 'yearly',
+  sellerId: undefined as string | undefined,
+};
+
+// The requested series; without one (or for an unknown id) the caller's own
+// series, then one shared by all sellers, then the default
+async function getBillSeries(seriesId: string | undefined, user: any) {
+  const settingsData = await kv.get('settings:business');
+  const settings = settingsData ? (typeof settingsData === 'string' ? JSON.parse(settingsData) : settingsData) : null;
+  const seriesList = settings?.billSeries || [];
+
+  return seriesList.find((series: any) => series.id === seriesId)
+    || seriesList.find((series: any) => series.sellerId && series.sellerId === user?.id)
+    || seriesList.find((series: any) => !series.sellerId)
+    || DEFAULT_BILL_SERIES;
+}
+
+// Period label used both in the bill number and the counter key
+function getSeriesPeriod(reset: string, date: Date): string {
+  if (reset === 'yearly') {
+    return String(date.getFullYear());
+  }
+  if (reset === 'financial-year') {
+    // Financial year in India: April 1 to March 31
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+  return '';
+}
+
+function formatBillNumber(series: any, period: string, sequence: number): string {
+  const number = String(sequence).padStart(Number(series.padding) || 1, '0');
+  return period ? `${series.prefix}${period}-${number}` : `${series.prefix}${number}`;
+}
+
+const seriesCounterKey = (docType: 'bill' | 'credit-note', seriesId: string, period: string) =>
+  `counter:${docType}:${seriesId}:${period || 'all'}`;
+
+async function getSeriesCounter(series: any, counterKey: string): Promise<number> {
+  const counter = await kv.get(counterKey);
+  if (counter) {
+    return Number(counter);
+  }
+  // The old global counter carries over into the first default-series period
+  // only, so numbers don't restart on upgrade; once any period has its own
+  // counter, each new period starts from 1
+  if (series.id === DEFAULT_BILL_SERIES.id) {
+    const legacyCounter = await kv.get('counter:bill');
+    if (legacyCounter && (await kv.getByPrefix(`counter:bill:${series.id}:`)).length === 0) {
+      await kv.set(counterKey, Number(legacyCounter));
+      return Number(legacyCounter);
+    }
+  }
+  return 0;
+}
+
+// Move a series counter up to a number that has been used, never back
+async function advanceSeriesCounter(series: any, counterKey: string, sequence: number) {
+  const latest = await getSeriesCounter(series, counterKey);
+  if (sequence > latest) {
+    await kv.set(counterKey, sequence);
+  }
+}
+
+// Sequence of a number written in the series' format for the period, or null
+function parseSeriesSequence(series: any, period: string, number: string): number | null {
+  const head = period ? `${series.prefix}${period}-` : series.prefix;
+  const digits = number.startsWith(head) ? number.slice(head.length) : '';
+  return /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+// Credit notes are numbered separately from bills
+const DEFAULT_CREDIT_NOTE_SERIES = {
+  id: 'credit-note',
+  name: 'Credit Notes',
+  prefix: 'CN-',
+  padding: 4,
+  reset: 'yearly',
+};
+
+async function getCreditNoteSeries() {
+  const settingsData = await kv.get('settings:business');
+  const settings = settingsData ? (typeof settingsData === 'string' ? JSON.parse(settingsData) : settingsData) : null;
+
+  return { ...DEFAULT_CREDIT_NOTE_SERIES, ...settings?.creditNoteSeries, id: DEFAULT_CREDIT_NOTE_SERIES.id };
+}
+
+// Reserve the next number in a series by claiming the document key itself.
+// The counter only moves once a document has actually been stored.
+async function createInSeries(series: any, record: any, docType: 'bill' | 'credit-note', numberField: string) {
+  const period = getSeriesPeriod(series.reset, new Date(record.date || Date.now()));
+  const counterKey = seriesCounterKey(docType, series.id, period);
+  let sequence = (await getSeriesCounter(series, counterKey)) + 1;
+
+  for (let attempt = 0; attempt < 50; attempt++, sequence++) {
+    const number = formatBillNumber(series, period, sequence);
+    const stored = { ...record, [numberField]: number, seriesId: series.id };
+
+    if (await kvInsert(`${docType}:${number}`, stored)) {
+      await advanceSeriesCounter(series, counterKey, sequence);
+      return stored;
+    }
+  }
+
+  throw new Error(`Could not reserve a ${docType === 'bill' ? 'bill' : 'credit note'} number, please try again`);
+}
+
+// Append an immutable movement to the stock ledger and apply it to the item.
+// Quantity is signed: negative takes stock out, positive puts it back.
+async function recordStockMovement(
+  stockId: string,
+  type: StockMovementType,
+  quantity: number,
+  details: { reference?: string; note?: string } = {}
+) {
+  return appendStockMovement(stockId, type, () => quantity, details);
+}
+
+// Set an item's quantity outright, recording the difference in the ledger
+async function setStockQuantity(stockId: string, quantity: number, details: { reference?: string; note?: string } = {}) {
+  return appendStockMovement(stockId, 'adjustment', balance => quantity - balance, details);
+}
+
+type StockMovementType = 'sale' | 'return' | 'purchase' | 'adjustment' | 'bill-edit';
+
+// Movements are numbered per item and each number is claimed with kvInsert, the
+// way bill numbers are, so two concurrent sales can never both build on the same
+// balance. The item's quantity is a copy of the latest claimed balance; a writer
+// that finds newer movements than the copy knows about catches up from them.
+const stockMovementKey = (stockId: string, sequence: number) =>
+  `stock-movement:${stockId}:seq-${String(sequence).padStart(8, '0')}`;
+const MAX_STOCK_MOVEMENT_ATTEMPTS = 20;
+
+async function appendStockMovement(
+  stockId: string,
+  type: StockMovementType,
+  getQuantity: (balance: number) => number,
+  details: { reference?: string; note?: string } = {}
+) {
+  const stockData = await kv.get(`stock:${stockId}`);
+  if (!stockData) {
+    return null;
+  }
+
+  const stock = typeof stockData === 'string' ? JSON.parse(stockData) : stockData;
+  let sequence = Number(stock.ledgerSeq) || 0;
+  let balance = Number(stock.quantity) || 0;
+
+  for (let attempt = 0; attempt < MAX_STOCK_MOVEMENT_ATTEMPTS; attempt++) {
+    // Movements claimed since the copy was last written
+    let next = await kv.get(stockMovementKey(stockId, sequence + 1));
+    while (next) {
+      sequence++;
+      balance = Number((typeof next === 'string' ? JSON.parse(next) : next).balance) || 0;
+      next = await kv.get(stockMovementKey(stockId, sequence + 1));
+    }
+
+    const quantity = getQuantity(balance);
+    if (!quantity) {
+      return null;
+    }
+
+    const movement = buildStockMovement({ ...stock, quantity: balance }, sequence + 1, type, quantity, details);
+    if (await kvInsert(stockMovementKey(stockId, movement.sequence), movement)) {
+      await syncStockCopy(stockId, movement);
+      return movement;
+    }
+  }
+
+  throw new Error(`Could not update stock for ${stock.name}, please try again`);
+}
+
+// Bring an item's quantity up to a claimed movement. The copy only ever moves
+// forward, past whatever a slower writer saw; at the same sequence it is
+// rewritten only if its quantity has drifted from the ledger.
+async function syncStockCopy(stockId: string, movement: any) {
+  const latestData = await kv.get(`stock:${stockId}`);
+  if (!latestData) {
+    return;
+  }
+  const latest = typeof latestData === 'string' ? JSON.parse(latestData) : latestData;
+  const latestSeq = Number(latest.ledgerSeq) || 0;
+  if (latestSeq < movement.sequence || (latestSeq === movement.sequence && Number(latest.quantity) !== movement.balance)) {
+    await kv.set(`stock:${stockId}`, { ...latest, quantity: movement.balance, ledgerSeq: movement.sequence });
+  }
+}
+
+// Ledger entry number `sequence` moving a stock item's quantity by the given amount
+function buildStockMovement(
+  stock: any,
+  sequence: number,
+  type: StockMovementType,
+  quantity: number,
+  details: { reference?: string; note?: string } = {}
+) {
+  return {
+    id: `seq-${String(sequence).padStart(8, '0')}`,
+    sequence,
+    stockId: stock.id,
+    itemName: stock.name,
+    type,
+    quantity,
+    balance: (Number(stock.quantity) || 0) + quantity,
+    ...details,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Total quantity per stock item on a bill
+function getBillStockQuantities(items: any[] = []): Record<string, number> {
+  return items.reduce((acc, item) => {
+    if (item.stockId) {
+      acc[item.stockId] = (acc[item.stockId] || 0) + (Number(item.quantity) || 0);
+    }
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+// Snapshot each stocked line's cost when it is billed, so later purchases that
+// move the average cost don't rewrite the margin of past sales. Lines carried
+// over from the previous version of a bill keep the cost they were sold at.
+async function stampItemCosts(items: any[] = [], previousItems: any[] = []) {
+  const previousCosts = new Map(
+    previousItems
+      .filter(item => item.costPrice !== undefined && item.costPrice !== null)
+      .map(item => [item.id, item.costPrice])
+  );
+  const stockCache = new Map<string, any>();
+
+  const stamped = [];
+  for (const { costPrice: _clientCost, ...item } of items) {
+    if (previousCosts.has(item.id)) {
+      stamped.push({ ...item, costPrice: previousCosts.get(item.id) });
+      continue;
+    }
+    if (!item.stockId) {
+      stamped.push(item);
+      continue;
+    }
+
+    if (!stockCache.has(item.stockId)) {
+      const stockData = await kv.get(`stock:${item.stockId}`);
+      stockCache.set(item.stockId, stockData && (typeof stockData === 'string' ? JSON.parse(stockData) : stockData));
+    }
+    const stock = stockCache.get(item.stockId);
+    const cost = stock ? (stock.averageCost ?? stock.purchaseRate) : undefined;
+    stamped.push(cost !== undefined && cost !== null ? { ...item, costPrice: Number(cost) } : item);
+  }
+  return stamped;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Revenue (after item and bill discounts, before GST) and cost of every bill line.
+// Lines billed before costs were stamped fall back to the linked stock item's current cost.
+function getBillLineMargins(bill: any, stockCosts: Map<string, number> = new Map()) {
+  const items = bill.items || [];
+  const subtotal = items.reduce((sum: number, item: any) => sum + (Number(item.total) || 0), 0);
+  const billDiscount = Number(bill.discountAmount) || 0;
+
+  return items.map((item: any) => {
+    const total = Number(item.total) || 0;
+    const revenue = item.taxableValue ?? (subtotal > 0 ? total - (total / subtotal) * billDiscount : 0);
+    const unitCost = item.costPrice ?? (item.stockId ? stockCosts.get(item.stockId) : undefined);
+    const hasCost = unitCost !== undefined && unitCost !== null;
+    const cost = hasCost ? (Number(item.quantity) || 0) * Number(unitCost) : 0;
+    return { item, revenue, cost, hasCost };
+  });
+}
+
+function addMargin(rows: Record<string, any>, key: string, label: string, quantity: number, revenue: number, cost: number) {
+  if (!rows[key]) {
+    rows[key] = { key, label, quantity: 0, revenue: 0, cost: 0 };
+  }
+  rows[key].quantity += quantity;
+  rows[key].revenue += revenue;
+  rows[key].cost += cost;
+}
+
+function toMarginRows(rows: Record<string, any>) {
+  return Object.values(rows)
+    .map((row: any) => {
+      const profit = row.revenue - row.cost;
+      return {
+        ...row,
+        revenue: round2(row.revenue),
+        cost: round2(row.cost),
+        profit: round2(profit),
+        margin: row.revenue > 0 ? round2((profit / row.revenue) * 100) : 0,
+      };
+    })
+    .sort((a, b) => b.profit - a.profit);
+}
+
+// Returns recorded against a bill, from its credit note index entries. Each
+// entry carries the returned item ids and quantities; one still being saved has
+// no creditNoteNumber yet but already counts.
+async function getCreditNotesForBill(billNumber: string) {
+  await ensureBillIndex();
+  return (await kv.getByPrefix(`idx:credit-note-bill:${billNumber}:`))
+    .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+    .sort((a, b) => a.sequence - b.sequence);
+}
+
+// Quantity of each bill line already returned through credit notes
+function getReturnedQuantities(creditNotes: any[]): Record<string, number> {
+  const returned: Record<string, number> = {};
+  for (const note of creditNotes) {
+    for (const item of note.items || []) {
+      returned[item.id] = (returned[item.id] || 0) + (Number(item.quantity) || 0);
+    }
+  }
+  return returned;
+}
+
+// Refund for part of a bill line, priced at what the customer actually paid for
+// it: the line's share of the grand total, so bill discounts and tax carry over.
+function getReturnLine(bill: any, line: { item: any; revenue: number }, quantity: number) {
+  const item = line.item;
+  const items = bill.items || [];
+  const subtotal = items.reduce((sum: number, billItem: any) => sum + (Number(billItem.total) || 0), 0);
+  const charged = subtotal > 0 ? (Number(item.total) / subtotal) * Number(bill.grandTotal || 0) : 0;
+  const fraction = quantity / Number(item.quantity);
+  const scale = (value?: number) => (value === undefined || value === null ? undefined : round2(Number(value) * fraction));
+
+  return {
+    id: item.id,
+    stockId: item.stockId,
+    name: item.name,
+    hsnCode: item.hsnCode,
+    gstRate: item.gstRate,
+    quantity,
+    rate: round2(charged / Number(item.quantity)),
+    total: round2(charged * fraction),
+    netValue: round2(line.revenue * fraction),
+    taxableValue: scale(item.taxableValue),
+    cgstAmount: scale(item.cgstAmount),
+    sgstAmount: scale(item.sgstAmount),
+    igstAmount: scale(item.igstAmount),
+    costPrice: item.costPrice,
+  };
+}
+
+const UNCATEGORISED = 'Uncategorised';
+
+// What a bill still owes is kept under this mode in the payment breakdown
+const CREDIT_MODE = 'Credit';
+
+const PAYMENT_MODES = ['Cash', 'UPI', 'Card'];
+
+// Payments taken at the counter, as opposed to later settlements of a credit bill
+function isSalePayment(payment: any) {
+  return !payment.receiptId && !payment.creditNoteNumber;
+}
+
+// Bills from before payments were recorded were always settled in full
+function getSalePayments(bill: any) {
+  if (!Array.isArray(bill.payments)) {
+    return [{ mode: bill.paymentMode || '', amount: Number(bill.grandTotal) || 0 }];
+  }
+  return bill.payments.filter(isSalePayment);
+}
+
+// Store the payments on a bill and work out what is paid and still owed.
+// Settlements received after the sale (receipts, returns adjusted against
+// the balance) are passed separately so an edit can't drop them.
+function applyBillPayments(bill: any, salePayments: any[], laterPayments: any[] = []) {
+  const atSale = salePayments
+    .map(payment => ({
+      mode: payment.mode || '',
+      amount: round2(Number(payment.amount) || 0),
+      reference: payment.reference || undefined,
+      // Cash handed over, kept so receipts can show the change given
+      tendered: payment.mode === 'Cash' && Number(payment.tendered) > Number(payment.amount)
+        ? round2(Number(payment.tendered))
+        : undefined,
+    }))
+    .filter(payment => payment.amount > 0);
+
+  bill.payments = [...atSale, ...laterPayments];
+  bill.amountPaid = round2(bill.payments.reduce((sum: number, payment: any) => sum + payment.amount, 0));
+  bill.balanceDue = round2(Math.max(0, (Number(bill.grandTotal) || 0) - bill.amountPaid));
+  // Single-mode field kept for older screens and printouts: the main tender
+  const main = atSale.reduce((best: any, payment: any) => (!best || payment.amount > best.amount ? payment : best), null);
+  bill.paymentMode = main?.mode || '';
+  return bill;
+}
+
+// Check the payments a seller entered for a new or edited bill
+function validateSalePayments(bill: any, salePayments: any[]) {
+  const paid = salePayments.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+  if (salePayments.some(payment => (Number(payment.amount) || 0) < 0)) {
+    return 'Payment amounts cannot be negative';
+  }
+  if (salePayments.some(payment => payment.mode && !PAYMENT_MODES.includes(payment.mode))) {
+    return 'Unknown payment mode';
+  }
+  if (paid > (Number(bill.grandTotal) || 0) + 0.005) {
+    return 'Payments add up to more than the bill total';
+  }
+  if (paid < (Number(bill.grandTotal) || 0) - 0.005 && !bill.customerId) {
+    return 'Choose a saved customer to sell on credit';
+  }
+  return null;
+}
+
+// Total of item-level and bill-level discounts on a bill
+function getBillDiscount(bill: any): number {
+  const itemDiscounts = (bill.items || []).reduce((sum: number, item: any) => sum + (Number(item.discountAmount) || 0), 0);
+  return itemDiscounts + (Number(bill.discountAmount) || 0);
+}
+
+// Voided bills keep their number but no longer count as sales
+function isVoided(bill: any): boolean {
+  return !!bill?.voided;
+}
+
+// How long after a sale its seller may still cancel it, unless the settings say otherwise
+const DEFAULT_CANCEL_WINDOW_HOURS = 24;
+
+async function getCancelWindowHours(): Promise<number> {
+  const settingsData = await kv.get('settings:business');
+  const settings = settingsData ? (typeof settingsData === 'string' ? JSON.parse(settingsData) : settingsData) : null;
+  const hours = Number(settings?.cancelWindowHours);
+  return settings?.cancelWindowHours !== undefined && Number.isFinite(hours) && hours >= 0
+    ? hours
+    : DEFAULT_CANCEL_WINDOW_HOURS;
+}
+
+// Bill audit trail: every change to a bill is stored as a numbered version
+// with who made it, what changed and a full snapshot that can be restored.
+const auditKey = (billNumber: string, version: number) => `audit:bill:${billNumber}:${String(version).padStart(6, '0')}`;
+
+// Bookkeeping fields that change on every write and would clutter the diff
+const AUDIT_IGNORED_FIELDS = ['version', 'updatedAt', 'updatedBy'];
+
+function diffBill(before: any, after: any) {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes = [];
+  for (const field of fields) {
+    if (AUDIT_IGNORED_FIELDS.includes(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+// Number the next version of a bill before it is stored. Bills from before
+// the audit trail count as version 1.
+function stampBillVersion(bill: any, previous: any, user: AppUser) {
+  bill.version = previous ? (Number(previous.version) || 1) + 1 : 1;
+  bill.updatedAt = new Date().toISOString();
+  bill.updatedBy = user.name;
+}
+
+// Claim the audit entry of a bill's new version. Call before storing the bill:
+// false means another write already took that version, so the bill changed
+// since it was read.
+async function recordBillEvent(action: string, bill: any, previous: any, user: AppUser, reason?: string) {
+  // Keep the original state of pre-audit bills so they can be restored too
+  if (previous && !previous.version) {
+    await kvInsert(auditKey(previous.billNumber, 1), {
+      billNumber: previous.billNumber,
+      version: 1,
+      action: 'create',
+      userId: previous.sellerId,
+      userName: previous.sellerName,
+      timestamp: previous.date,
+      changes: [],
+      snapshot: { ...previous, version: 1 },
+    });
+  }
+
+  return kvInsert(auditKey(bill.billNumber, bill.version), {
+    billNumber: bill.billNumber,
+    version: bill.version,
+    action,
+    userId: user.id,
+    userName: user.name,
+    timestamp: bill.updatedAt || new Date().toISOString(),
+    reason: reason || undefined,
+    changes: previous ? diffBill(previous, bill) : [],
+    snapshot: bill,
+  });
+}
+
+const BILL_CHANGE_ATTEMPTS = 5;
+
+// Apply a change made by the server itself (a return or a payment) to the
+// latest copy of a bill as its next version. If another write takes that
+// version first, the bill is read again and the change applied to it. A change
+// that returns false no longer applies and leaves the bill alone.
+async function saveBillChange(
+  billNumber: string,
+  user: AppUser,
+  action: string,
+  reason: string,
+  change: (bill: any) => boolean | void
+) {
+  for (let attempt = 0; attempt < BILL_CHANGE_ATTEMPTS; attempt++) {
+    const billData = await kv.get(`bill:${billNumber}`);
+    if (!billData) return null;
+    const previous = typeof billData === 'string' ? JSON.parse(billData) : billData;
+    const bill = { ...previous };
+    if (change(bill) === false) return null;
+
+    stampBillVersion(bill, previous, user);
+    if (!(await recordBillEvent(action, bill, previous, user, reason))) continue;
+    await kv.set(`bill:${billNumber}`, bill);
+    await indexBill(bill, previous);
+    await rollupBill(bill, previous);
+    return bill;
+  }
+  throw new Error(`Bill ${billNumber} kept changing while saving the ${action}`);
+}
+
+// Secondary indexes over bills, so lists and reports read only the months they
+// need instead of every bill. Each bill keeps a small summary under its UTC day,
+// its seller and its customer; a month of one index is a single prefix read.
+// Open balances and returns are also kept per customer.
+const BILL_INDEX_META = 'idx:bill:meta';
+// Bump when the index layout changes so existing indexes are rebuilt
+const BILL_INDEX_VERSION = 6;
+const BILL_INDEX_CHUNK = 200;
+
+const billIndexDay = (date: string) => new Date(date).toISOString().slice(0, 10);
+
+function billIndexKeys(bill: any): string[] {
+  const day = billIndexDay(bill.date);
+  const keys = [`idx:bill-date:${day}:${bill.billNumber}`];
+  if (bill.sellerId) keys.push(`idx:bill-seller:${bill.sellerId}:${day}:${bill.billNumber}`);
+  if (bill.customerId) keys.push(`idx:bill-customer:${bill.customerId}:${day}:${bill.billNumber}`);
+  return keys;
+}
+
+// Everything the list filters and outstanding totals need, without the items
+function billIndexEntry(bill: any) {
+  const salePayments = getSalePayments(bill);
+  const paidAtSale = salePayments.reduce((sum: number, payment: any) => sum + (Number(payment.amount) || 0), 0);
+  const paymentModes = [...new Set(salePayments.map((payment: any) => payment.mode).filter(Boolean))];
+  if (round2((Number(bill.grandTotal) || 0) - paidAtSale) > 0) {
+    paymentModes.push(CREDIT_MODE);
+  }
+
+  return {
+    billNumber: bill.billNumber,
+    date: bill.date,
+    sellerId: bill.sellerId,
+    customerId: bill.customerId,
+    paymentModes,
+    grandTotal: Number(bill.grandTotal) || 0,
+    balanceDue: Number(bill.balanceDue) || 0,
+    receipts: (bill.payments || [])
+      .filter((payment: any) => payment.receiptId)
+      .map((payment: any) => ({ date: payment.date, amount: Number(payment.amount) || 0 })),
+    voided: isVoided(bill),
+  };
+}
+
+// Full-text search index: every word of a bill's searchable fields points at the
+// bill, weighted by the field it came from, once for all bills and once under its
+// seller. Words are lowercase letters (with their combining marks, so Devanagari
+// vowel signs stay in the word) and digits of any script, so they are safe inside
+// a LIKE prefix.
+const SEARCH_FIELD_WEIGHTS = {
+  billNumber: 10,
+  customerPhone: 8,
+  customerName: 6,
+  items: 4,
+  sellerName: 3,
+  notes: 2,
+};
+const MAX_SEARCH_TERMS = 5;
+// Shorter words only match whole indexed words; a one-letter prefix would read most of the index
+const MIN_PREFIX_LENGTH = 3;
+
+function searchTerms(text: any): string[] {
+  return String(text || '').normalize('NFC').toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(term => term.length > 0);
+}
+
+const searchTermKey = (term: string, billNumber: string, sellerId?: string) =>
+  sellerId ? `idx:bill-seller-term:${sellerId}:${term}:${billNumber}` : `idx:bill-term:${term}:${billNumber}`;
+
+function billSearchEntries(bill: any) {
+  const weights = new Map<string, number>();
+  const add = (text: any, weight: number) => {
+    for (const term of searchTerms(text)) {
+      weights.set(term, Math.max(weights.get(term) || 0, weight));
+    }
+  };
+  add(bill.billNumber, SEARCH_FIELD_WEIGHTS.billNumber);
+  add(String(bill.customerPhone || '').replace(/\D/g, ''), SEARCH_FIELD_WEIGHTS.customerPhone);
+  add(bill.customerName, SEARCH_FIELD_WEIGHTS.customerName);
+  for (const item of bill.items || []) {
+    add(item.name, SEARCH_FIELD_WEIGHTS.items);
+  }
+  add(bill.sellerName, SEARCH_FIELD_WEIGHTS.sellerName);
+  add(bill.notes, SEARCH_FIELD_WEIGHTS.notes);
+
+  const entry = billIndexEntry(bill);
+  return Array.from(weights).flatMap(([term, weight]) => {
+    const value = {
+      term,
+      weight,
+      billNumber: entry.billNumber,
+      date: entry.date,
+      sellerId: entry.sellerId,
+      paymentModes: entry.paymentModes,
+      grandTotal: entry.grandTotal,
+      voided: entry.voided,
+    };
+    return entry.sellerId
+      ? [{ key: searchTermKey(term, entry.billNumber), value }, { key: searchTermKey(term, entry.billNumber, entry.sellerId), value }]
+      : [{ key: searchTermKey(term, entry.billNumber), value }];
+  });
+}
+
+// Open bills by customer, so receivables read only what is still owed
+function billDueEntry(bill: any) {
+  if (isVoided(bill) || (Number(bill.balanceDue) || 0) <= 0) {
+    return null;
+  }
+  return {
+    key: `idx:bill-due:${bill.customerId || 'unknown'}:${bill.billNumber}`,
+    value: {
+      billNumber: bill.billNumber,
+      date: bill.date,
+      sellerId: bill.sellerId,
+      customerId: bill.customerId,
+      customerName: bill.customerName,
+      customerPhone: bill.customerPhone,
+      grandTotal: Number(bill.grandTotal) || 0,
+      amountPaid: Number(bill.amountPaid) || 0,
+      balanceDue: Number(bill.balanceDue) || 0,
+    },
+  };
+}
+
+// Every index record of a bill: its list entries, balance due and search words
+function billIndexRecords(bill: any) {
+  const entry = billIndexEntry(bill);
+  const due = billDueEntry(bill);
+  return [
+    ...billIndexKeys(bill).map(key => ({ key, value: entry })),
+    ...(due ? [due] : []),
+    ...billSearchEntries(bill),
+  ];
+}
+
+// Credit notes by UTC day, and by customer for the customer's totals
+function creditNoteIndexKeys(note: any): string[] {
+  const keys = [`idx:credit-note-date:${billIndexDay(note.date)}:${note.creditNoteNumber}`];
+  if (note.customerId) keys.push(`idx:credit-note-customer:${note.customerId}:${note.creditNoteNumber}`);
+  return keys;
+}
+
+function creditNoteIndexRecords(note: any) {
+  const value = {
+    creditNoteNumber: note.creditNoteNumber,
+    billNumber: note.billNumber,
+    date: note.date,
+    sellerId: note.sellerId,
+    customerId: note.customerId,
+    total: Number(note.total) || 0,
+  };
+  return creditNoteIndexKeys(note).map(key => ({ key, value }));
+}
+
+// Write a bill's index records, dropping any left under an old date, seller,
+// customer, balance or search word
+async function indexBill(bill: any, previous: any = null) {
+  const records = billIndexRecords(bill);
+  const keys = records.map(record => record.key);
+  const stale = previous
+    ? billIndexRecords(previous).map(record => record.key).filter(key => !keys.includes(key))
+    : [];
+  if (stale.length > 0) {
+    await kv.mdel(stale);
+  }
+  await kv.mset(keys, records.map(record => record.value));
+
+  const metaData = await kv.get(BILL_INDEX_META);
+  const meta = metaData ? (typeof metaData === 'string' ? JSON.parse(metaData) : metaData) : null;
+  if (meta && billIndexDay(bill.date) < meta.firstDay) {
+    await kv.set(BILL_INDEX_META, { ...meta, firstDay: billIndexDay(bill.date) });
+  }
+}
+
+// A bill's returns are numbered, and each number is claimed with kvInsert before
+// the credit note is made, so two returns of one bill can't both pass the check
+// on what is left to return
+const creditNoteBillKey = (billNumber: string, sequence: number) =>
+  `idx:credit-note-bill:${billNumber}:${String(sequence).padStart(4, '0')}`;
+
+function creditNoteBillEntry(note: any, sequence: number) {
+  return {
+    billNumber: note.billNumber,
+    sequence,
+    creditNoteNumber: note.creditNoteNumber || null,
+    date: note.date,
+    sellerId: note.sellerId,
+    total: Number(note.total) || 0,
+    items: (note.items || []).map((item: any) => ({ id: item.id, quantity: Number(item.quantity) || 0 })),
+  };
+}
+
+// Stored credit notes by number, in the order given
+async function getCreditNotesByNumber(numbers: string[]) {
+  const creditNotes = new Map<string, any>();
+  for (let i = 0; i < numbers.length; i += BILL_INDEX_CHUNK) {
+    const keys = numbers.slice(i, i + BILL_INDEX_CHUNK).map(number => `credit-note:${number}`);
+    for (const item of await kv.mget(keys)) {
+      const note = typeof item === 'string' ? JSON.parse(item) : item;
+      creditNotes.set(note.creditNoteNumber, note);
+    }
+  }
+  return numbers.map(number => creditNotes.get(number)).filter(Boolean);
+}
+
+async function indexCreditNote(note: any) {
+  const records = creditNoteIndexRecords(note);
+  if (records.length > 0) {
+    await kv.mset(records.map(record => record.key), records.map(record => record.value));
+  }
+}
+
+// Index every stored bill and credit note from scratch, clearing out whatever was indexed before
+async function rebuildBillIndex() {
+  const parse = (item: any) => typeof item === 'string' ? JSON.parse(item) : item;
+  const oldEntries = (await kv.getByPrefix('idx:bill-date:')).map(parse);
+  const oldDue = (await kv.getByPrefix('idx:bill-due:')).map(parse);
+  const oldTerms = (await kv.getByPrefix('idx:bill-term:')).map(parse);
+  const oldReturns = [
+    ...(await kv.getByPrefix('idx:credit-note-date:')),
+    ...(await kv.getByPrefix('idx:credit-note-customer:')),
+  ].map(parse);
+  const oldBillReturns = (await kv.getByPrefix('idx:credit-note-bill:')).map(parse);
+  const oldKeys = [
+    ...oldEntries.flatMap(entry => billIndexKeys(entry)),
+    ...oldDue.map(due => `idx:bill-due:${due.customerId || 'unknown'}:${due.billNumber}`),
+    ...oldTerms.flatMap(search => [
+      searchTermKey(search.term, search.billNumber),
+      ...(search.sellerId ? [searchTermKey(search.term, search.billNumber, search.sellerId)] : []),
+    ]),
+    ...oldReturns.flatMap(note => creditNoteIndexKeys(note)),
+    ...oldBillReturns.map(entry => creditNoteBillKey(entry.billNumber, entry.sequence)),
+  ];
+  for (let i = 0; i < oldKeys.length; i += BILL_INDEX_CHUNK) {
+    await kv.mdel(oldKeys.slice(i, i + BILL_INDEX_CHUNK));
+  }
+
+  const bills = (await kv.getByPrefix('bill:')).map(parse);
+  const billCustomers = new Map(bills.map(bill => [bill.billNumber, bill.customerId]));
+  // Credit notes made before they carried the customer take it from their bill
+  const creditNotes = (await kv.getByPrefix('credit-note:'))
+    .map(parse)
+    .map(note => ({ ...note, customerId: note.customerId || billCustomers.get(note.billNumber) }));
+  const records = [...bills.flatMap(billIndexRecords), ...creditNotes.flatMap(creditNoteIndexRecords)];
+  const billReturnCounts = new Map<string, number>();
+  for (const note of [...creditNotes].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
+    const sequence = (billReturnCounts.get(note.billNumber) || 0) + 1;
+    billReturnCounts.set(note.billNumber, sequence);
+    records.push({ key: creditNoteBillKey(note.billNumber, sequence), value: creditNoteBillEntry(note, sequence) });
+  }
+  let firstDay = billIndexDay(new Date().toISOString());
+  for (const bill of bills) {
+    if (billIndexDay(bill.date) < firstDay) {
+      firstDay = billIndexDay(bill.date);
+    }
+  }
+  for (let i = 0; i < records.length; i += BILL_INDEX_CHUNK) {
+    const chunk = records.slice(i, i + BILL_INDEX_CHUNK);
+    await kv.mset(chunk.map(record => record.key), chunk.map(record => record.value));
+  }
+
+  const meta = { version: BILL_INDEX_VERSION, builtAt: new Date().toISOString(), firstDay, bills: bills.length };
+  await kv.set(BILL_INDEX_META, meta);
+  return meta;
+}
+
+// Bills stored before the index existed (or before its current layout) are indexed on first use
+async function ensureBillIndex() {
+  const metaData = await kv.get(BILL_INDEX_META);
+  const meta = metaData ? (typeof metaData === 'string' ? JSON.parse(metaData) : metaData) : null;
+  if (meta?.version === BILL_INDEX_VERSION) {
+    return meta;
+  }
+  return rebuildBillIndex();
+}
+
+// Months ('YYYY-MM') from the last back to the first, newest first
+function indexMonths(first: string, last: string): string[] {
+  const months = [];
+  let year = Number(last.slice(0, 4));
+  let month = Number(last.slice(5, 7));
+  while (`${year}-${String(month).padStart(2, '0')}` >= first.slice(0, 7)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month -= 1;
+    if (month === 0) {
+      month = 12;
+      year -= 1;
+    }
+  }
+  return months;
+}
+
+interface BillIndexFilters {
+  from?: string;
+  to?: string;
+  sellerId?: string;
+  customerId?: string;
+  paymentMode?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  // 'active' (default) leaves out cancelled bills, 'cancelled' lists only them
+  status?: 'active' | 'cancelled' | 'all';
+}
+
+// Newest-first index entries matching the filters. The cursor is the
+// "date|billNumber" of the last entry of the previous page.
+async function queryBillIndex(filters: BillIndexFilters, cursor?: string, limit = Infinity) {
+  const meta = await ensureBillIndex();
+  const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+  const to = filters.to ? new Date(filters.to).getTime() : Infinity;
+  const [cursorDate, cursorNumber] = cursor ? cursor.split('|') : [];
+  const after = cursorDate ? new Date(cursorDate).getTime() : Infinity;
+  const status = filters.status || 'active';
+
+  // The narrowest index for the filters; the rest are applied to its entries
+  const base = filters.customerId
+    ? `idx:bill-customer:${filters.customerId}:`
+    : filters.sellerId
+      ? `idx:bill-seller:${filters.sellerId}:`
+      : 'idx:bill-date:';
+
+  const lastDay = billIndexDay(new Date(Math.min(to, after, Date.now() + 24 * 60 * 60 * 1000)).toISOString());
+  const firstDay = Number.isFinite(from) && billIndexDay(new Date(from).toISOString()) > meta.firstDay
+    ? billIndexDay(new Date(from).toISOString())
+    : meta.firstDay;
+
+  const entries: any[] = [];
+  for (const month of indexMonths(firstDay, lastDay)) {
+    const monthEntries = (await kv.getByPrefix(`${base}${month}`))
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .filter(entry => {
+        const time = new Date(entry.date).getTime();
+        if (time < from || time > to) return false;
+        if (time > after || (time === after && entry.billNumber >= cursorNumber)) return false;
+        if (filters.sellerId && entry.sellerId !== filters.sellerId) return false;
+        if (filters.paymentMode && !entry.paymentModes?.includes(filters.paymentMode)) return false;
+        if (filters.minAmount !== undefined && entry.grandTotal < filters.minAmount) return false;
+        if (filters.maxAmount !== undefined && entry.grandTotal > filters.maxAmount) return false;
+        if (status === 'active' && entry.voided) return false;
+        if (status === 'cancelled' && !entry.voided) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.billNumber.localeCompare(a.billNumber));
+
+    entries.push(...monthEntries);
+    if (entries.length > limit) break;
+  }
+
+  const page = entries.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    entries: page,
+    nextCursor: entries.length > limit && last ? `${last.date}|${last.billNumber}` : null,
+  };
+}
+
+// Full bills for index entries, in the entries' order
+async function getBillsForEntries(entries: any[]) {
+  const bills = new Map<string, any>();
+  for (let i = 0; i < entries.length; i += BILL_INDEX_CHUNK) {
+    const keys = entries.slice(i, i + BILL_INDEX_CHUNK).map(entry => `bill:${entry.billNumber}`);
+    for (const item of await kv.mget(keys)) {
+      const bill = typeof item === 'string' ? JSON.parse(item) : item;
+      bills.set(bill.billNumber, bill);
+    }
+  }
+  return entries.map(entry => bills.get(entry.billNumber)).filter(Boolean);
+}
+
+// The newest credit notes of a period, at most `limit`, read a month of the date index at a time
+async function queryCreditNotes(from: Date, to: Date, sellerId: string | undefined, limit: number) {
+  const meta = await ensureBillIndex();
+  const lastDay = billIndexDay(new Date(Math.min(to.getTime(), Date.now() + 24 * 60 * 60 * 1000)).toISOString());
+  const firstDay = billIndexDay(from.toISOString()) > meta.firstDay ? billIndexDay(from.toISOString()) : meta.firstDay;
+
+  const entries: any[] = [];
+  for (const month of indexMonths(firstDay, lastDay)) {
+    entries.push(...(await kv.getByPrefix(`idx:credit-note-date:${month}`))
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .filter(entry => {
+        const noteDate = new Date(entry.date);
+        return noteDate >= from && noteDate <= to && (!sellerId || entry.sellerId === sellerId);
+      })
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    if (entries.length >= limit) break;
+  }
+
+  return getCreditNotesByNumber(entries.slice(0, limit).map(entry => entry.creditNoteNumber));
+}
+
+// Balance-due entries of bills still owed on, for one customer or every customer
+async function getDueEntries(customerId?: string, sellerId?: string) {
+  await ensureBillIndex();
+  return (await kv.getByPrefix(customerId ? `idx:bill-due:${customerId}:` : 'idx:bill-due:'))
+    .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+    .filter(due => !sellerId || due.sellerId === sellerId);
+}
+
+// Best hit first: higher score, then the newer bill
+const compareSearchHits = (a: any, b: any) =>
+  b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime();
+
+// The first `count` hits in ranked order, without sorting every hit
+function topSearchHits(hits: any[], count: number) {
+  const top: any[] = [];
+  for (const hit of hits) {
+    if (top.length === count && compareSearchHits(hit, top[count - 1]) >= 0) continue;
+    let low = 0;
+    let high = top.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (compareSearchHits(hit, top[middle]) < 0) high = middle;
+      else low = middle + 1;
+    }
+    top.splice(low, 0, hit);
+    if (top.length > count) top.pop();
+  }
+  return top;
+}
+
+// One page of bills matching every word of the query. A word of three or more
+// letters matches the start of an indexed word, a shorter one only the whole
+// word; whole-word matches and weightier fields rank higher, then newer bills
+// first. The cursor is an offset into the ranking. Without words, bills in the
+// amount range come back newest first and page like the bill list.
+async function searchBillIndex(text: string, filters: BillIndexFilters, cursor: string | undefined, limit: number) {
+  await ensureBillIndex();
+  // Longest words first: they match the fewest index rows, and later words only keep bills already hit
+  const words = [...new Set(searchTerms(text))].slice(0, MAX_SEARCH_TERMS).sort((a, b) => b.length - a.length);
+
+  if (words.length === 0) {
+    const { entries, nextCursor } = await queryBillIndex(filters, cursor, limit);
+    return { entries, total: null, nextCursor };
+  }
+
+  const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+  const to = filters.to ? new Date(filters.to).getTime() : Infinity;
+  const status = filters.status || 'active';
+  const matchesFilters = (entry: any) => {
+    const time = new Date(entry.date).getTime();
+    if (time < from || time > to) return false;
+    if (filters.paymentMode && !entry.paymentModes?.includes(filters.paymentMode)) return false;
+    if (filters.minAmount !== undefined && entry.grandTotal < filters.minAmount) return false;
+    if (filters.maxAmount !== undefined && entry.grandTotal > filters.maxAmount) return false;
+    if (status === 'active' && entry.voided) return false;
+    if (status === 'cancelled' && !entry.voided) return false;
+    return true;
+  };
+
+  // A seller's search reads only the words indexed under that seller
+  const base = filters.sellerId ? `idx:bill-seller-term:${filters.sellerId}:` : 'idx:bill-term:';
+  let hits: Map<string, any> | null = null;
+  for (const word of words) {
+    const wordHits = new Map<string, any>();
+    const prefix = word.length >= MIN_PREFIX_LENGTH ? word : `${word}:`;
+    for (const item of await kv.getByPrefix(`${base}${prefix}`)) {
+      const search = typeof item === 'string' ? JSON.parse(item) : item;
+      if (hits ? !hits.has(search.billNumber) : !matchesFilters(search)) continue;
+      const score = search.term === word ? search.weight * 2 : search.weight;
+      const best = wordHits.get(search.billNumber);
+      if (!best || score > best.score) {
+        wordHits.set(search.billNumber, { ...search, score });
+      }
+    }
+    for (const [billNumber, hit] of wordHits) {
+      hit.score += hits?.get(billNumber)?.score || 0;
+    }
+    hits = wordHits;
+    if (hits.size === 0) break;
+  }
+
+  const offset = Math.max(Number(cursor) || 0, 0);
+  const total = hits?.size || 0;
+  const entries = topSearchHits(Array.from(hits?.values() || []), offset + limit).slice(offset);
+  return { entries, total, nextCursor: offset + limit < total ? String(offset + limit) : null };
+}
+
+// Calendar day of a bill in the client's timezone (offset in minutes, as from Date.getTimezoneOffset)
+function getBillDay(date: string, timezoneOffset = 0): string {
+  return new Date(new Date(date).getTime() - timezoneOffset * 60000).toISOString().split('T')[0];
+}
+
+// Daily sales rollups: one record per shop day and seller, kept up to date as
+// bills and credit notes change, so reports total a period without reading its bills.
+// Days follow the shop's timezone, India Standard Time (as Date.getTimezoneOffset gives it).
+const SHOP_TIMEZONE_OFFSET = -330;
+const ROLLUP_META = 'meta:rollups';
+// Bump when the rollup fields change so existing rollups are recomputed
+const ROLLUP_VERSION = 2;
+
+const rollupKey = (day: string, sellerId?: string) => `rollup:${day}:${sellerId || 'unknown'}`;
+const getRollupDay = (date: string) => getBillDay(date, SHOP_TIMEZONE_OFFSET);
+// The instant a shop day ('YYYY-MM-DD') begins
+const getShopDayStart = (day: string) => new Date(new Date(`${day}T00:00:00Z`).getTime() + SHOP_TIMEZONE_OFFSET * 60000);
+
+function emptyRollup(day: string, sellerId?: string, sellerName?: string) {
+  return {
+    day,
+    sellerId: sellerId || 'unknown',
+    sellerName: sellerName || 'Unknown',
+    sales: 0,
+    bills: 0,
+    discount: 0,
+    paymentModes: {} as Record<string, number>,
+    returns: 0,
+    returnCount: 0,
+    refundModes: {} as Record<string, number>,
+    // Margin figures cover only lines whose cost is known
+    revenue: 0,
+    cost: 0,
+    costedQuantity: 0,
+    uncostedSales: 0,
+    items: {} as Record<string, any>,
+    // Payments received on credit bills that day, and bills cancelled from that day's sales
+    collections: 0,
+    cancelled: 0,
+    cancelledCount: 0,
+  };
+}
+
+function addAmount(amounts: Record<string, number>, key: string, amount: number) {
+  const total = round2((amounts[key] || 0) + amount);
+  if (total) {
+    amounts[key] = total;
+  } else {
+    delete amounts[key];
+  }
+}
+
+function addRollupLine(
+  rollup: any,
+  item: any,
+  line: { quantity: number; revenue: number; cost: number; hasCost: boolean },
+  sign: number
+) {
+  const key = item.stockId || item.name;
+  if (!rollup.items[key]) {
+    rollup.items[key] = { key, name: item.name, stockId: item.stockId, quantity: 0, revenue: 0, costedQuantity: 0, costedRevenue: 0, cost: 0 };
+  }
+  const row = rollup.items[key];
+  row.quantity = round2(row.quantity + sign * line.quantity);
+  row.revenue = round2(row.revenue + sign * line.revenue);
+  if (line.hasCost) {
+    row.costedQuantity = round2(row.costedQuantity + sign * line.quantity);
+    row.costedRevenue = round2(row.costedRevenue + sign * line.revenue);
+    row.cost = round2(row.cost + sign * line.cost);
+    rollup.costedQuantity = round2(rollup.costedQuantity + sign * line.quantity);
+    rollup.revenue = round2(rollup.revenue + sign * line.revenue);
+    rollup.cost = round2(rollup.cost + sign * line.cost);
+  } else {
+    rollup.uncostedSales = round2(rollup.uncostedSales + sign * line.revenue);
+  }
+  if (!row.quantity && !row.revenue && !row.cost) {
+    delete rollup.items[key];
+  }
+}
+
+// Add (sign 1) or take back (sign -1) a bill's figures
+function applyBillToRollup(rollup: any, bill: any, sign: number, stockCosts: Map<string, number> = new Map()) {
+  const grandTotal = Number(bill.grandTotal) || 0;
+  rollup.sellerName = bill.sellerName || rollup.sellerName;
+  rollup.sales = round2(rollup.sales + sign * grandTotal);
+  rollup.bills += sign;
+  rollup.discount = round2(rollup.discount + sign * getBillDiscount(bill));
+
+  // How the sale was paid at the counter, with anything left unpaid under Credit
+  let paid = 0;
+  for (const payment of getSalePayments(bill)) {
+    addAmount(rollup.paymentModes, payment.mode || 'Not Specified', sign * payment.amount);
+    paid += payment.amount;
+  }
+  const onCredit = round2(grandTotal - paid);
+  if (onCredit > 0) {
+    addAmount(rollup.paymentModes, CREDIT_MODE, sign * onCredit);
+  }
+
+  for (const line of getBillLineMargins(bill, stockCosts)) {
+    addRollupLine(rollup, line.item, { ...line, quantity: Number(line.item.quantity) || 0 }, sign);
+  }
+}
+
+// Returns count on the day of the credit note, against the seller who made the sale
+function applyCreditNoteToRollup(rollup: any, note: any, sign: number, stockCosts: Map<string, number> = new Map()) {
+  const total = Number(note.total) || 0;
+  rollup.returns = round2(rollup.returns + sign * total);
+  rollup.returnCount += sign;
+  addAmount(rollup.refundModes, note.refundMode || 'Not Specified', sign * total);
+
+  for (const item of note.items || []) {
+    const quantity = Number(item.quantity) || 0;
+    const unitCost = item.costPrice ?? (item.stockId ? stockCosts.get(item.stockId) : undefined);
+    const hasCost = unitCost !== undefined && unitCost !== null;
+    addRollupLine(rollup, item, {
+      quantity: -quantity,
+      revenue: -(Number(item.netValue) || 0),
+      cost: hasCost ? -quantity * Number(unitCost) : 0,
+      hasCost,
+    }, sign);
+  }
+}
+
+// A payment received on a bill after the sale counts on the day it came in
+function applyReceiptToRollup(rollup: any, receipt: any, sign: number) {
+  rollup.collections = round2((rollup.collections || 0) + sign * receipt.amount);
+}
+
+// A cancelled bill's total, on the day of the bill
+function applyCancelledBillToRollup(rollup: any, bill: any, sign: number) {
+  rollup.cancelled = round2((rollup.cancelled || 0) + sign * (Number(bill.grandTotal) || 0));
+  rollup.cancelledCount = (rollup.cancelledCount || 0) + sign;
+}
+
+// Payments received on a bill after the sale, dated when they came in
+function getBillReceipts(bill: any) {
+  return (bill.payments || [])
+    .filter((payment: any) => payment.receiptId)
+    .map((payment: any) => ({
+      date: payment.date || bill.date,
+      sellerId: bill.sellerId,
+      sellerName: bill.sellerName,
+      amount: Number(payment.amount) || 0,
+    }));
+}
+
+async function applyRollupChanges(
+  changes: Array<{ record: any; sign: number }>,
+  apply: (rollup: any, record: any, sign: number) => void
+) {
+  const rollups = new Map<string, any>();
+  for (const { record, sign } of changes) {
+    const day = getRollupDay(record.date);
+    const key = rollupKey(day, record.sellerId);
+    if (!rollups.has(key)) {
+      const data = await kv.get(key);
+      rollups.set(key, data ? (typeof data === 'string' ? JSON.parse(data) : data) : emptyRollup(day, record.sellerId, record.sellerName));
+    }
+    apply(rollups.get(key), record, sign);
+  }
+  for (const [key, rollup] of rollups) {
+    await kv.set(key, rollup);
+  }
+}
+
+// Move a bill's figures from how it was to how it is now; cancelled bills count
+// only towards the cancelled total
+async function rollupBill(bill: any, previous: any = null) {
+  const changes = [];
+  const receipts = [];
+  const cancellations = [];
+  const add = (record: any, sign: number) => {
+    if (isVoided(record)) {
+      cancellations.push({ record, sign });
+    } else {
+      changes.push({ record, sign });
+      receipts.push(...getBillReceipts(record).map((receipt: any) => ({ record: receipt, sign })));
+    }
+  };
+  if (previous) {
+    add(previous, -1);
+  }
+  add(bill, 1);
+  await applyRollupChanges(changes, applyBillToRollup);
+  await applyRollupChanges(receipts, applyReceiptToRollup);
+  await applyRollupChanges(cancellations, applyCancelledBillToRollup);
+}
+
+async function rollupCreditNote(note: any) {
+  await applyRollupChanges([{ record: note, sign: 1 }], applyCreditNoteToRollup);
+}
+
+// Recompute every rollup from the stored bills and credit notes
+async function rebuildRollups() {
+  const oldRollups = (await kv.getByPrefix('rollup:')).map(item => typeof item === 'string' ? JSON.parse(item) : item);
+  const oldKeys = oldRollups.map(rollup => rollupKey(rollup.day, rollup.sellerId));
+  for (let i = 0; i < oldKeys.length; i += BILL_INDEX_CHUNK) {
+    await kv.mdel(oldKeys.slice(i, i + BILL_INDEX_CHUNK));
+  }
+
+  // Lines billed before costs were stamped fall back to the stock item's current cost
+  const stockCosts = new Map<string, number>();
+  for (const item of (await kv.getByPrefix('stock:')).map(data => typeof data === 'string' ? JSON.parse(data) : data)) {
+    const cost = item.averageCost ?? item.purchaseRate;
+    if (cost !== undefined && cost !== null) {
+      stockCosts.set(item.id, Number(cost));
+    }
+  }
+
+  const rollups = new Map<string, any>();
+  const rollupFor = (record: any) => {
+    const day = getRollupDay(record.date);
+    const key = rollupKey(day, record.sellerId);
+    if (!rollups.has(key)) {
+      rollups.set(key, emptyRollup(day, record.sellerId, record.sellerName));
+    }
+    return rollups.get(key);
+  };
+
+  const bills = (await kv.getByPrefix('bill:')).map(item => typeof item === 'string' ? JSON.parse(item) : item);
+  for (const bill of bills) {
+    if (isVoided(bill)) {
+      applyCancelledBillToRollup(rollupFor(bill), bill, 1);
+      continue;
+    }
+    applyBillToRollup(rollupFor(bill), bill, 1, stockCosts);
+    for (const receipt of getBillReceipts(bill)) {
+      applyReceiptToRollup(rollupFor(receipt), receipt, 1);
+    }
+  }
+  const creditNotes = (await kv.getByPrefix('credit-note:')).map(item => typeof item === 'string' ? JSON.parse(item) : item);
+  for (const note of creditNotes) {
+    applyCreditNoteToRollup(rollupFor(note), note, 1, stockCosts);
+  }
+
+  const keys = Array.from(rollups.keys());
+  for (let i = 0; i < keys.length; i += BILL_INDEX_CHUNK) {
+    const chunk = keys.slice(i, i + BILL_INDEX_CHUNK);
+    await kv.mset(chunk, chunk.map(key => rollups.get(key)));
+  }
+
+  const meta = { version: ROLLUP_VERSION, builtAt: new Date().toISOString(), rollups: keys.length };
+  await kv.set(ROLLUP_META, meta);
+  return meta;
+}
+
+// Rollups for the shop days firstDay..lastDay ('YYYY-MM-DD'), optionally for one seller.
+// Sales from before rollups existed (or before their current fields) are rolled up on first use.
+async function getRollups(firstDay: string, lastDay: string, sellerId?: string) {
+  const metaData = await kv.get(ROLLUP_META);
+  const meta = metaData ? (typeof metaData === 'string' ? JSON.parse(metaData) : metaData) : null;
+  if (meta?.version !== ROLLUP_VERSION) {
+    await rebuildRollups();
+  }
+
+  const rollups = [];
+  for (const month of indexMonths(firstDay, lastDay)) {
+    for (const item of await kv.getByPrefix(`rollup:${month}`)) {
+      const rollup = typeof item === 'string' ? JSON.parse(item) : item;
+      if (rollup.day >= firstDay && rollup.day <= lastDay && (!sellerId || rollup.sellerId === sellerId)) {
+        rollups.push(rollup);
+      }
+    }
+  }
+  return rollups;
+}
+
+// Signup route
+app.post('/make-server-f305f05f/signup', async (c) => {
+  try {
+    const { username, password, name, role } = await c.req.json();
+    
+    if (!username || !password || !name) {
+      return c.json({ error: 'Missing required fields', success: false }, 400);
+    }
+
+    // Anyone may sign up as a seller, only an admin can create another admin
+    if (role === 'admin') {
+      const authUser = await verifyAuth(c.req.raw);
+      const callerData = authUser ? await kv.get(`user:${authUser.id}`) : null;
+      const caller = typeof callerData === 'string' ? JSON.parse(callerData) : callerData;
+      if (caller?.role !== 'admin') {
+        return c.json({ error: 'Admin access required', success: false }, 403);
+      }
+    }
+
+    // Create user with Supabase Auth
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: `${username}@sales-billing.local`,
+      password: password,
+      user_metadata: { name, username, role: role === 'admin' ? 'admin' : 'seller' },
+      // Automatically confirm the user's email since an email server hasn't been configured.
+      email_confirm: true
+    });
+
+    if (error) {
+      console.log('Signup error:', error);
+      return c.json({ error: error.message, success: false }, 400);
+    }
+
+    // Store user info in KV
+    const userInfo = {
+      id: data.user.id,
+      username,
+      name,
+      role: role === 'admin' ? 'admin' : 'seller',
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`user:${data.user.id}`, userInfo);
+
+    return c.json({ success: true, user: userInfo });
+  } catch (error) {
+    console.log('Error in signup:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get current user info
+app.get('/make-server-f305f05f/get-user', async (c) => {
+  try {
+    return c.json({ success: true, user: c.get('user') });
+  } catch (error) {
+    console.log('Error getting user:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Set once an admin account is known to exist; cleared whenever a user is deleted
+const ADMIN_EXISTS_KEY = 'meta:admin-exists';
+
+// Get all sellers (admin only)
+app.get('/make-server-f305f05f/get-sellers', requireAdmin, async (c) => {
+  try {
+    const sellers = await kv.getByPrefix('user:');
+    const sellerList = sellers
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return c.json({ success: true, sellers: sellerList });
+  } catch (error) {
+    console.log('Error getting sellers:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Delete seller (admin only)
+app.delete('/make-server-f305f05f/delete-seller/:userId', requireAdmin, async (c) => {
+  try {
+    const userId = c.req.param('userId');
+
+    // Delete from KV store
+    await kv.del(`user:${userId}`);
+    await kv.del(ADMIN_EXISTS_KEY);
+
+    // Delete from Supabase Auth
+    await supabase.auth.admin.deleteUser(userId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting seller:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Preview the next bill number in a series (does not reserve it)
+app.post('/make-server-f305f05f/get-next-bill-number', async (c) => {
+  try {
+    const { seriesId } = await c.req.json().catch(() => ({}));
+    const series = await getBillSeries(seriesId, c.get('user'));
+    const period = getSeriesPeriod(series.reset, new Date());
+    const counterKey = seriesCounterKey('bill', series.id, period);
+    const nextNumber = (await getSeriesCounter(series, counterKey)) + 1;
+
+    const billNumber = formatBillNumber(series, period, nextNumber);
+
+    return c.json({ billNumber, seriesId: series.id, success: true });
+  } catch (error) {
+    console.log('Error getting next bill number:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Create a new bill
+// How long an offline bill's sync claim may stay without a bill before a retry can take it over
+const CLIENT_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+app.post('/make-server-f305f05f/create-bill', async (c) => {
+  try {
+    const user = c.get('user');
+    // The seller is always the caller, never what the client claims
+    const billData = { ...(await c.req.json()), sellerId: user.id, sellerName: user.name };
+    billData.items = await stampItemCosts(billData.items);
+    delete billData.pendingSync;
+
+    const salePayments = Array.isArray(billData.payments) ? billData.payments : getSalePayments(billData);
+    const paymentError = validateSalePayments(billData, salePayments);
+    if (paymentError) {
+      return c.json({ error: paymentError, success: false }, 400);
+    }
+    applyBillPayments(billData, salePayments);
+    stampBillVersion(billData, null, user);
+
+    // Bills queued offline carry a client id. Claiming it first means a sync
+    // that is retried after a lost response returns the stored bill instead
+    // of creating a second one.
+    const clientKey = billData.clientId ? `bill-client:${billData.clientId}` : null;
+    if (clientKey && !(await kvInsert(clientKey, { billNumber: null, claimedAt: new Date().toISOString() }))) {
+      const claimData = await kv.get(clientKey);
+      const claim = typeof claimData === 'string' ? JSON.parse(claimData) : claimData;
+      const existingData = claim?.billNumber ? await kv.get(`bill:${claim.billNumber}`) : null;
+      if (existingData) {
+        const existing = typeof existingData === 'string' ? JSON.parse(existingData) : existingData;
+        return c.json({ success: true, bill: existing, duplicate: true, stockWarnings: [] });
+      }
+      // A claim still without a bill long after it was made belongs to a sync that
+      // died part way. One retry takes it over; the takeover key makes sure only one does.
+      const claimedAt = claim?.claimedAt ? new Date(claim.claimedAt).getTime() : 0;
+      const stale = !claim?.billNumber && Date.now() - claimedAt > CLIENT_CLAIM_TIMEOUT_MS;
+      if (!stale || !(await kvInsert(`${clientKey}:takeover:${claim?.claimedAt || 'unset'}`, { at: new Date().toISOString() }))) {
+        return c.json({ error: 'This bill is already being synced', success: false }, 409);
+      }
+      await kv.set(clientKey, { billNumber: null, claimedAt: new Date().toISOString() });
+    }
+
+    let bill;
+    try {
+      if (billData.billNumber) {
+        // Manually entered number: claim it or reject the duplicate
+        bill = billData;
+        const claimed = await kvInsert(`bill:${bill.billNumber}`, bill);
+        if (!claimed) {
+          if (clientKey) await kv.del(clientKey);
+          return c.json({ error: `Bill number ${bill.billNumber} already exists`, code: 'duplicate-number', success: false }, 409);
+        }
+        // A number typed in the series' own format moves its counter past it,
+        // so the next automatic number doesn't land on it
+        const series = await getBillSeries(billData.seriesId, user);
+        const period = getSeriesPeriod(series.reset, new Date(bill.date || Date.now()));
+        const sequence = parseSeriesSequence(series, period, bill.billNumber);
+        if (sequence) {
+          await advanceSeriesCounter(series, seriesCounterKey('bill', series.id, period), sequence);
+        }
+      } else {
+        const series = await getBillSeries(billData.seriesId, user);
+        if (series.sellerId && series.sellerId !== user.id && user.role !== 'admin') {
+          if (clientKey) await kv.del(clientKey);
+          return c.json({ error: 'This bill series belongs to another seller', success: false }, 403);
+        }
+        bill = await createInSeries(series, billData, 'bill', 'billNumber');
+      }
+    } catch (error) {
+      if (clientKey) await kv.del(clientKey);
+      throw error;
+    }
+
+    if (clientKey) {
+      await kv.set(clientKey, { billNumber: bill.billNumber });
+    }
+    await recordBillEvent('create', bill, null, user);
+    await indexBill(bill, null);
+    await rollupBill(bill, null);
+
+    // Take sold items out of stock through the ledger. The sale is always
+    // recorded, but items that went below zero (e.g. sold on two offline
+    // counters at once) are reported back so they can be recounted.
+    const stockWarnings = [];
+    const soldQuantities = getBillStockQuantities(bill.items);
+    for (const [stockId, quantity] of Object.entries(soldQuantities)) {
+      const movement = await recordStockMovement(stockId, 'sale', -quantity, { reference: bill.billNumber });
+      if (movement && movement.balance < 0) {
+        stockWarnings.push({ stockId, itemName: movement.itemName, balance: movement.balance });
+      }
+    }
+    
+    return c.json({ success: true, bill, stockWarnings });
+  } catch (error) {
+    console.log('Error creating bill:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// One page of bills, newest first. Filters: from, to (ISO dates), sellerId,
+// customerId, paymentMode and status; pass back nextCursor for the next page.
+app.get('/make-server-f305f05f/bills', async (c) => {
+  try {
+    const user = c.get('user');
+    const query = c.req.query();
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+
+    const { entries, nextCursor } = await queryBillIndex({
+      from: query.from,
+      to: query.to,
+      // Sellers only ever see their own bills
+      sellerId: user.role === 'admin' ? query.sellerId : user.id,
+      customerId: query.customerId,
+      paymentMode: query.paymentMode,
+      status: query.status as BillIndexFilters['status'],
+    }, query.cursor, limit);
+
+    return c.json({ success: true, bills: await getBillsForEntries(entries), nextCursor });
+  } catch (error) {
+    console.log('Error listing bills:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Search bills by number, customer name or phone, item names, notes and seller,
+// optionally within an amount range. Hits are ranked; total counts them all
+// (null when only filters are given, as those page like the bill list).
+app.get('/make-server-f305f05f/search-bills', async (c) => {
+  try {
+    const user = c.get('user');
+    const query = c.req.query();
+    const limit = Math.min(Math.max(Number(query.limit) || 30, 1), 100);
+    const amount = (value?: string) => value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+    const { entries, total, nextCursor } = await searchBillIndex(query.q || '', {
+      from: query.from,
+      to: query.to,
+      // Sellers only ever see their own bills
+      sellerId: user.role === 'admin' ? query.sellerId : user.id,
+      paymentMode: query.paymentMode,
+      status: query.status as BillIndexFilters['status'],
+      minAmount: amount(query.minAmount),
+      maxAmount: amount(query.maxAmount),
+    }, query.cursor, limit);
+
+    return c.json({
+      success: true,
+      bills: await getBillsForEntries(entries),
+      total,
+      nextCursor,
+    });
+  } catch (error) {
+    console.log('Error searching bills:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Rebuild the bill indexes from the stored bills (admin)
+app.post('/make-server-f305f05f/rebuild-bill-index', requireAdmin, async (c) => {
+  try {
+    const meta = await rebuildBillIndex();
+    return c.json({ success: true, ...meta });
+  } catch (error) {
+    console.log('Error rebuilding bill index:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get bill by number
+app.get('/make-server-f305f05f/get-bill/:billNumber', async (c) => {
+  try {
+    const billNumber = c.req.param('billNumber');
+    const billData = await kv.get(`bill:${billNumber}`);
+    
+    if (!billData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+    
+    const bill = typeof billData === 'string' ? JSON.parse(billData) : billData;
+
+    const user = c.get('user');
+    if (user.role !== 'admin' && bill.sellerId !== user.id) {
+      return c.json({ error: 'Access denied', success: false }, 403);
+    }
+
+    return c.json({ bill, success: true });
+  } catch (error) {
+    console.log('Error getting bill:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get sales report. Totals and breakdowns come from the daily rollups, so a
+// month or a financial year costs no more than a single day; only the latest
+// bills, cancelled bills and credit notes of the period are listed in full.
+const REPORT_BILL_LIMIT = 100;
+
+app.post('/make-server-f305f05f/get-report', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { startDate, endDate } = body;
+    const user = c.get('user');
+    // Sellers only ever see their own sales
+    const sellerId = user.role === 'admin' ? body.sellerId : user.id;
+    const reportSellerId = sellerId && sellerId !== 'all' ? sellerId : undefined;
+
+    // The period runs over whole shop days, for the lists as well as the rollups
+    const startDay = getRollupDay(startDate);
+    const endDay = getRollupDay(endDate);
+    const start = getShopDayStart(startDay);
+    const end = new Date(getShopDayStart(endDay).getTime() + 24 * 60 * 60 * 1000 - 1);
+
+    const rollups = await getRollups(startDay, endDay, reportSellerId);
+
+    const stock = (await kv.getByPrefix('stock:')).map(data => typeof data === 'string' ? JSON.parse(data) : data);
+    const stockById = new Map(stock.map(item => [item.id, item]));
+
+    let grossSales = 0;
+    let totalReturns = 0;
+    let returnCount = 0;
+    let totalBills = 0;
+    let totalDiscount = 0;
+    let totalRevenue = 0;
+    let totalCost = 0;
+    let uncostedSales = 0;
+    let collections = 0;
+    let cancelledTotal = 0;
+    let cancelledCount = 0;
+    // Sales by how they were paid at the counter, with anything left unpaid
+    // under Credit. Refunds come off the mode they were paid out in.
+    const paymentModes: Record<string, number> = {};
+    // Gross margin only counts lines whose cost is known
+    const itemMargins: Record<string, any> = {};
+    const sellerMargins: Record<string, any> = {};
+    const dailyMargins: Record<string, any> = {};
+    const itemSales: Record<string, any> = {};
+    const categorySales: Record<string, any> = {};
+
+    for (const rollup of rollups) {
+      grossSales += rollup.sales;
+      totalReturns += rollup.returns;
+      returnCount += rollup.returnCount;
+      totalBills += rollup.bills;
+      totalDiscount += rollup.discount;
+      totalRevenue += rollup.revenue;
+      totalCost += rollup.cost;
+      uncostedSales += rollup.uncostedSales;
+      collections += rollup.collections;
+      cancelledTotal += rollup.cancelled;
+      cancelledCount += rollup.cancelledCount;
+      for (const [mode, amount] of Object.entries(rollup.paymentModes) as [string, number][]) {
+        paymentModes[mode] = (paymentModes[mode] || 0) + amount;
+      }
+      for (const [mode, amount] of Object.entries(rollup.refundModes) as [string, number][]) {
+        paymentModes[mode] = (paymentModes[mode] || 0) - amount;
+      }
+      if (rollup.costedQuantity || rollup.revenue || rollup.cost) {
+        addMargin(sellerMargins, rollup.sellerId, rollup.sellerName, rollup.costedQuantity, rollup.revenue, rollup.cost);
+        addMargin(dailyMargins, rollup.day, rollup.day, rollup.costedQuantity, rollup.revenue, rollup.cost);
+      }
+
+      // Sales analytics cover every line, costed or not
+      for (const item of Object.values(rollup.items) as any[]) {
+        const stockItem = item.stockId ? stockById.get(item.stockId) : undefined;
+        const category = stockItem?.category || UNCATEGORISED;
+        if (!itemSales[item.key]) {
+          itemSales[item.key] = { key: item.key, name: stockItem?.name || item.name, category, quantity: 0, revenue: 0 };
+        }
+        if (!categorySales[category]) {
+          categorySales[category] = { category, quantity: 0, revenue: 0, items: new Set() };
+        }
+        itemSales[item.key].quantity += item.quantity;
+        itemSales[item.key].revenue += item.revenue;
+        categorySales[category].quantity += item.quantity;
+        categorySales[category].revenue += item.revenue;
+        categorySales[category].items.add(item.key);
+        if (item.costedQuantity || item.costedRevenue || item.cost) {
+          addMargin(itemMargins, item.key, item.name, item.costedQuantity, item.costedRevenue, item.cost);
+        }
+      }
+    }
+
+    grossSales = round2(grossSales);
+    totalReturns = round2(totalReturns);
+    totalDiscount = round2(totalDiscount);
+    totalRevenue = round2(totalRevenue);
+    totalCost = round2(totalCost);
+    const totalSales = round2(grossSales - totalReturns);
+    const grossProfit = totalRevenue - totalCost;
+
+    // Outstanding is what is owed today across all bills, not just this period's,
+    // read from the open bills' balance-due entries
+    const totalOutstanding = round2((await getDueEntries(undefined, reportSellerId)).reduce((sum, due) => sum + due.balanceDue, 0));
+
+    // The latest bills of the period, with their margins, and the latest cancelled ones
+    const period = { from: start.toISOString(), to: end.toISOString(), sellerId: reportSellerId };
+    const { entries: billEntries } = await queryBillIndex(period, undefined, REPORT_BILL_LIMIT);
+    const bills = await getBillsForEntries(billEntries);
+    const { entries: cancelledEntries } = await queryBillIndex({ ...period, status: 'cancelled' }, undefined, REPORT_BILL_LIMIT);
+    const cancelledBills = await getBillsForEntries(cancelledEntries);
+
+    const billMargins: Record<string, any> = {};
+    for (const bill of bills) {
+      for (const line of getBillLineMargins(bill)) {
+        if (line.hasCost) {
+          addMargin(billMargins, bill.billNumber, bill.customerName || 'Walk-in Customer', Number(line.item.quantity) || 0, line.revenue, line.cost);
+        }
+      }
+    }
+
+    const creditNotes = await queryCreditNotes(start, end, reportSellerId, REPORT_BILL_LIMIT);
+
+    const itemSalesRows = Object.values(itemSales).map((row: any) => ({
+      ...row,
+      quantity: round2(row.quantity),
+      revenue: round2(row.revenue),
+      stockOnHand: stockById.get(row.key)?.quantity,
+    }));
+
+    // Items still on the shelf that sold least in the period, including ones that didn't sell at all
+    const slowMovers = stock
+      .filter(item => (Number(item.quantity) || 0) > 0)
+      .map(item => ({
+        key: item.id,
+        name: item.name,
+        category: item.category || UNCATEGORISED,
+        quantity: round2(itemSales[item.id]?.quantity || 0),
+        revenue: round2(itemSales[item.id]?.revenue || 0),
+        stockOnHand: Number(item.quantity) || 0,
+      }))
+      .sort((a, b) => a.quantity - b.quantity || b.stockOnHand - a.stockOnHand)
+      .slice(0, 10);
+
+    return c.json({
+      success: true,
+      report: {
+        totalSales,
+        grossSales,
+        totalReturns,
+        returnCount,
+        totalBills,
+        paymentModes,
+        creditSales: round2(paymentModes[CREDIT_MODE] || 0),
+        totalOutstanding,
+        collections: round2(collections),
+        totalDiscount,
+        averageDiscount: totalBills > 0 ? totalDiscount / totalBills : 0,
+        totalRevenue,
+        totalCost,
+        grossProfit,
+        grossMargin: totalRevenue > 0 ? (grossProfit / totalRevenue) * 100 : 0,
+        uncostedSales: round2(uncostedSales),
+        billMargins: toMarginRows(billMargins),
+        itemMargins: toMarginRows(itemMargins),
+        sellerMargins: toMarginRows(sellerMargins),
+        dailyMargins: toMarginRows(dailyMargins).sort((a, b) => a.key.localeCompare(b.key)),
+        itemSales: itemSalesRows.sort((a, b) => b.revenue - a.revenue),
+        categorySales: Object.values(categorySales)
+          .map((row: any) => ({ ...row, quantity: round2(row.quantity), revenue: round2(row.revenue), items: row.items.size }))
+          .sort((a, b) => b.revenue - a.revenue),
+        slowMovers,
+        creditNotes,
+        cancelledBills,
+        cancelledCount,
+        cancelledTotal: round2(cancelledTotal),
+        bills,
+      }
+    });
+  } catch (error) {
+    console.log('Error generating report:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Per-day totals from the rollups for the shop days from..to ('YYYY-MM-DD');
+// sellers get their own figures, admins the whole shop's
+app.get('/make-server-f305f05f/get-daily-summary', async (c) => {
+  try {
+    const user = c.get('user');
+    const today = getRollupDay(new Date().toISOString());
+    const from = c.req.query('from') || today;
+    const to = c.req.query('to') || from;
+    const sellerId = user.role === 'admin' ? c.req.query('sellerId') : user.id;
+
+    const days: Record<string, any> = {};
+    for (const rollup of await getRollups(from, to, sellerId)) {
+      if (!days[rollup.day]) {
+        days[rollup.day] = { day: rollup.day, sales: 0, bills: 0, discount: 0, returns: 0, paymentModes: {}, refundModes: {} };
+      }
+      const day = days[rollup.day];
+      day.sales = round2(day.sales + rollup.sales);
+      day.bills += rollup.bills;
+      day.discount = round2(day.discount + rollup.discount);
+      day.returns = round2(day.returns + rollup.returns);
+      for (const [mode, amount] of Object.entries(rollup.paymentModes) as [string, number][]) {
+        addAmount(day.paymentModes, mode, amount);
+      }
+      for (const [mode, amount] of Object.entries(rollup.refundModes) as [string, number][]) {
+        addAmount(day.refundModes, mode, amount);
+      }
+    }
+
+    const summary = Object.values(days).sort((a: any, b: any) => a.day.localeCompare(b.day));
+    return c.json({ success: true, days: summary });
+  } catch (error) {
+    console.log('Error getting daily summary:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Recompute the daily rollups from the stored bills and credit notes (admin)
+app.post('/make-server-f305f05f/rebuild-rollups', requireAdmin, async (c) => {
+  try {
+    const meta = await rebuildRollups();
+    return c.json({ success: true, ...meta });
+  } catch (error) {
+    console.log('Error rebuilding rollups:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+const STALE_BILL_ERROR = 'This bill was changed by someone else. Reload it and try again.';
+
+// Update bill. The client sends the version it edited; bills from before
+// versions count as version 1.
+app.put('/make-server-f305f05f/update-bill', requireAdmin, async (c) => {
+  try {
+    const user = c.get('user');
+    const bill = await c.req.json();
+    const expectedVersion = Number(bill.version) || 1;
+
+    if (!bill.billNumber) {
+      return c.json({ error: 'Bill number is required', success: false }, 400);
+    }
+
+    // Check if bill exists
+    const existingBillData = await kv.get(`bill:${bill.billNumber}`);
+    if (!existingBillData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+    const existingBill = typeof existingBillData === 'string' ? JSON.parse(existingBillData) : existingBillData;
+
+    if (isVoided(existingBill)) {
+      return c.json({ error: 'This bill has been cancelled. Restore it from its history to edit it.', success: false }, 409);
+    }
+
+    // Returns are priced from the bill as it was, so it can't change underneath them
+    if ((await getCreditNotesForBill(bill.billNumber)).length > 0) {
+      return c.json({ error: 'This bill has credit notes and can no longer be edited', success: false }, 409);
+    }
+
+    // Editing never changes who made the sale
+    bill.sellerId = existingBill.sellerId;
+    bill.sellerName = existingBill.sellerName;
+    bill.items = await stampItemCosts(bill.items, existingBill.items);
+
+    const salePayments = Array.isArray(bill.payments) ? bill.payments.filter(isSalePayment) : getSalePayments(bill);
+    const paymentError = validateSalePayments(bill, salePayments);
+    if (paymentError) {
+      return c.json({ error: paymentError, success: false }, 400);
+    }
+    const laterPayments = (existingBill.payments || []).filter((payment: any) => !isSalePayment(payment));
+    applyBillPayments(bill, salePayments, laterPayments);
+
+    // Store updated bill, unless someone else saved it since the editor loaded it
+    stampBillVersion(bill, existingBill, user);
+    if (expectedVersion !== (Number(existingBill.version) || 1) || !(await recordBillEvent('update', bill, existingBill, user))) {
+      return c.json({ error: STALE_BILL_ERROR, success: false }, 409);
+    }
+    await kv.set(`bill:${bill.billNumber}`, bill);
+    await indexBill(bill, existingBill);
+    await rollupBill(bill, existingBill);
+
+    // Move stock by the difference between the old and new quantities
+    await applyBillStockChange(bill.billNumber, existingBill.items, bill.items, 'Bill edited');
+
+    return c.json({ success: true, bill });
+  } catch (error) {
+    console.log('Error updating bill:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Move stock by the difference between two versions of a bill's items
+async function applyBillStockChange(billNumber: string, fromItems: any[], toItems: any[], note: string) {
+  const oldQuantities = getBillStockQuantities(fromItems);
+  const newQuantities = getBillStockQuantities(toItems);
+  const stockIds = new Set([...Object.keys(oldQuantities), ...Object.keys(newQuantities)]);
+  for (const stockId of stockIds) {
+    const delta = (oldQuantities[stockId] || 0) - (newQuantities[stockId] || 0);
+    await recordStockMovement(stockId, 'bill-edit', delta, { reference: billNumber, note });
+  }
+}
+
+// Cancel (void) a bill. It stays stored under its number, marked void, so the
+// number is never reused and the bill's history can still be restored.
+// Sellers may cancel their own bills within the cancel window; after that only an admin can.
+app.post('/make-server-f305f05f/void-bill', async (c) => {
+  try {
+    const user = c.get('user');
+    const { billNumber, reason } = await c.req.json();
+
+    if (!reason?.trim()) {
+      return c.json({ error: 'A reason is required to cancel a bill', success: false }, 400);
+    }
+
+    const billData = billNumber ? await kv.get(`bill:${billNumber}`) : null;
+    if (!billData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+
+    const existingBill = typeof billData === 'string' ? JSON.parse(billData) : billData;
+    if (user.role !== 'admin') {
+      if (existingBill.sellerId !== user.id) {
+        return c.json({ error: 'Access denied', success: false }, 403);
+      }
+      const windowHours = await getCancelWindowHours();
+      if (Date.now() - new Date(existingBill.date).getTime() > windowHours * 60 * 60 * 1000) {
+        return c.json({ error: `Only an admin can cancel bills older than ${windowHours} hours`, success: false }, 403);
+      }
+    }
+    if (isVoided(existingBill)) {
+      return c.json({ error: 'This bill is already cancelled', success: false }, 409);
+    }
+
+    // Voiding would restock items that were already returned
+    if ((await getCreditNotesForBill(billNumber)).length > 0) {
+      return c.json({ error: 'This bill has credit notes and can no longer be cancelled', success: false }, 409);
+    }
+    if ((existingBill.payments || []).some((payment: any) => payment.receiptId)) {
+      return c.json({ error: 'Payments have been received against this bill, so it can no longer be cancelled', success: false }, 409);
+    }
+
+    const bill = {
+      ...existingBill,
+      voided: true,
+      voidedAt: new Date().toISOString(),
+      voidedBy: user.name,
+      voidReason: reason.trim(),
+    };
+    stampBillVersion(bill, existingBill, user);
+    if (!(await recordBillEvent('void', bill, existingBill, user, bill.voidReason))) {
+      return c.json({ error: STALE_BILL_ERROR, success: false }, 409);
+    }
+    await kv.set(`bill:${billNumber}`, bill);
+    await indexBill(bill, existingBill);
+    await rollupBill(bill, existingBill);
+
+    // Put the bill's items back into stock
+    await applyBillStockChange(billNumber, existingBill.items, [], `Bill cancelled: ${bill.voidReason}`);
+
+    return c.json({ success: true, bill });
+  } catch (error) {
+    console.log('Error voiding bill:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Versions of a bill, newest first
+app.get('/make-server-f305f05f/get-bill-history/:billNumber', async (c) => {
+  try {
+    const user = c.get('user');
+    const billNumber = c.req.param('billNumber');
+
+    const billData = await kv.get(`bill:${billNumber}`);
+    if (!billData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+    const bill = typeof billData === 'string' ? JSON.parse(billData) : billData;
+    if (user.role !== 'admin' && bill.sellerId !== user.id) {
+      return c.json({ error: 'Access denied', success: false }, 403);
+    }
+
+    const events = (await kv.getByPrefix(`audit:bill:${billNumber}:`))
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .filter(event => event.billNumber === billNumber)
+      .sort((a, b) => b.version - a.version);
+
+    return c.json({ success: true, events });
+  } catch (error) {
+    console.log('Error getting bill history:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Bring a bill back to an earlier version. The restore is itself a new
+// version, so nothing in the history is lost.
+app.post('/make-server-f305f05f/restore-bill-version', requireAdmin, async (c) => {
+  try {
+    const user = c.get('user');
+    const { billNumber, version } = await c.req.json();
+
+    const billData = billNumber ? await kv.get(`bill:${billNumber}`) : null;
+    if (!billData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+    const existingBill = typeof billData === 'string' ? JSON.parse(billData) : billData;
+
+    const eventData = await kv.get(auditKey(billNumber, Number(version)));
+    if (!eventData) {
+      return c.json({ error: `Version ${version} of ${billNumber} not found`, success: false }, 404);
+    }
+    const event = typeof eventData === 'string' ? JSON.parse(eventData) : eventData;
+    if (isVoided(event.snapshot)) {
+      return c.json({ error: 'That version is cancelled. Cancel the bill instead.', success: false }, 400);
+    }
+    if ((await getCreditNotesForBill(billNumber)).length > 0) {
+      return c.json({ error: 'This bill has credit notes and can no longer be changed', success: false }, 409);
+    }
+
+    const { voided, voidedAt, voidedBy, voidReason, ...snapshot } = event.snapshot;
+    const bill = { ...snapshot, sellerId: existingBill.sellerId, sellerName: existingBill.sellerName };
+
+    // Payments received since that version stay on the bill
+    const laterPayments = (existingBill.payments || []).filter((payment: any) => !isSalePayment(payment));
+    applyBillPayments(bill, getSalePayments(bill), laterPayments);
+
+    stampBillVersion(bill, existingBill, user);
+    if (!(await recordBillEvent('restore', bill, existingBill, user, `Restored version ${event.version}`))) {
+      return c.json({ error: STALE_BILL_ERROR, success: false }, 409);
+    }
+    await kv.set(`bill:${billNumber}`, bill);
+    await indexBill(bill, existingBill);
+    await rollupBill(bill, existingBill);
+
+    // A void bill has nothing out of stock; otherwise move by the difference
+    await applyBillStockChange(
+      billNumber,
+      isVoided(existingBill) ? [] : existingBill.items,
+      bill.items,
+      `Bill restored to version ${event.version}`
+    );
+
+    return c.json({ success: true, bill });
+  } catch (error) {
+    console.log('Error restoring bill version:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Create a credit note for items returned from a bill
+app.post('/make-server-f305f05f/create-credit-note', async (c) => {
+  try {
+    const user = c.get('user');
+    const { billNumber, items: returnItems, refundMode, reason } = await c.req.json();
+
+    const billData = billNumber ? await kv.get(`bill:${billNumber}`) : null;
+    if (!billData) {
+      return c.json({ error: 'Bill not found', success: false }, 404);
+    }
+    const bill = typeof billData === 'string' ? JSON.parse(billData) : billData;
+
+    if (user.role !== 'admin' && bill.sellerId !== user.id) {
+      return c.json({ error: 'Access denied', success: false }, 403);
+    }
+    if (isVoided(bill)) {
+      return c.json({ error: 'Items can\'t be returned from a cancelled bill', success: false }, 409);
+    }
+
+    const billReturns = await getCreditNotesForBill(billNumber);
+    const returned = getReturnedQuantities(billReturns);
+    const lines = getBillLineMargins(bill);
+    const items = [];
+
+    for (const returnItem of returnItems || []) {
+      const quantity = Number(returnItem.quantity) || 0;
+      if (quantity <= 0) {
+        continue;
+      }
+
+      const line = lines.find((l: any) => l.item.id === returnItem.id);
+      if (!line) {
+        return c.json({ error: 'Item is not on this bill', success: false }, 400);
+      }
+
+      const remaining = Number(line.item.quantity) - (returned[line.item.id] || 0);
+      if (quantity > remaining) {
+        return c.json({ error: `Only ${remaining} of ${line.item.name} can still be returned`, success: false }, 400);
+      }
+
+      items.push(getReturnLine(bill, line, quantity));
+    }
+
+    if (items.length === 0) {
+      return c.json({ error: 'Select at least one item to return', success: false }, 400);
+    }
+
+    const sum = (field: string) => round2(items.reduce((total, item: any) => total + (Number(item[field]) || 0), 0));
+
+    // A return on a credit bill can be taken off what the customer owes instead of refunded
+    if (refundMode === CREDIT_MODE && sum('total') > (Number(bill.balanceDue) || 0) + 0.005) {
+      return c.json({ error: 'The return is more than the balance due on this bill', success: false }, 400);
+    }
+
+    // Claim this bill's next return before numbering the credit note. A return
+    // saved in between has taken the number, and this one has to be checked again.
+    const date = new Date().toISOString();
+    const sequence = billReturns.reduce((last, entry) => Math.max(last, entry.sequence), 0) + 1;
+    const returnKey = creditNoteBillKey(billNumber, sequence);
+    if (!(await kvInsert(returnKey, creditNoteBillEntry({ billNumber, date, sellerId: bill.sellerId, total: sum('total'), items }, sequence)))) {
+      return c.json({ error: 'Another return on this bill was just saved. Check what is left to return and try again.', success: false }, 409);
+    }
+
+    const series = await getCreditNoteSeries();
+    let creditNote;
+    try {
+      creditNote = await createInSeries(series, {
+        billNumber,
+        date,
+        customerId: bill.customerId,
+        customerName: bill.customerName,
+        customerGstin: bill.customerGstin,
+        customerState: bill.customerState,
+        isInterState: bill.isInterState,
+        items,
+        taxableAmount: bill.taxTotal !== undefined ? sum('taxableValue') : undefined,
+        cgstTotal: bill.taxTotal !== undefined ? sum('cgstAmount') : undefined,
+        sgstTotal: bill.taxTotal !== undefined ? sum('sgstAmount') : undefined,
+        igstTotal: bill.taxTotal !== undefined ? sum('igstAmount') : undefined,
+        total: sum('total'),
+        refundMode: refundMode || undefined,
+        reason: reason || undefined,
+        // Returns count against the seller who made the sale
+        sellerId: bill.sellerId,
+        sellerName: bill.sellerName,
+        createdBy: user.name,
+      }, 'credit-note', 'creditNoteNumber');
+    } catch (error) {
+      await kv.del(returnKey);
+      throw error;
+    }
+    await kv.set(returnKey, creditNoteBillEntry(creditNote, sequence));
+    await indexCreditNote(creditNote);
+    await rollupCreditNote(creditNote);
+
+    // Returned goods go back on the shelf
+    const returnedQuantities = getBillStockQuantities(items);
+    for (const [stockId, quantity] of Object.entries(returnedQuantities)) {
+      await recordStockMovement(stockId, 'return', quantity, {
+        reference: creditNote.creditNoteNumber,
+        note: `Return against ${billNumber}`,
+      });
+    }
+
+    if (refundMode === CREDIT_MODE) {
+      await saveBillChange(billNumber, user, 'return', `Credit note ${creditNote.creditNoteNumber}`, latest => {
+        applyBillPayments(latest, getSalePayments(latest), [
+          ...(latest.payments || []).filter((payment: any) => !isSalePayment(payment)),
+          {
+            mode: 'Credit Note',
+            amount: creditNote.total,
+            reference: creditNote.creditNoteNumber,
+            creditNoteNumber: creditNote.creditNoteNumber,
+            date: creditNote.date,
+          },
+        ]);
+      });
+    }
+
+    return c.json({ success: true, creditNote });
+  } catch (error) {
+    console.log('Error creating credit note:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Credit notes of the given bills (billNumber, or billNumbers separated by
+// commas), or else the latest ones, newest first
+const MAX_CREDIT_NOTE_BILLS = 200;
+
+app.get('/make-server-f305f05f/get-credit-notes', async (c) => {
+  try {
+    const user = c.get('user');
+    const sellerId = user.role === 'admin' ? undefined : user.id;
+    const billNumbers = [...new Set((c.req.query('billNumbers') || c.req.query('billNumber') || '').split(',').filter(Boolean))]
+      .slice(0, MAX_CREDIT_NOTE_BILLS);
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 50, 1), 200);
+
+    let creditNotes;
+    if (billNumbers.length > 0) {
+      const entries = (await Promise.all(billNumbers.map(getCreditNotesForBill))).flat();
+      creditNotes = (await getCreditNotesByNumber(entries.map(entry => entry.creditNoteNumber).filter(Boolean)))
+        .filter(note => !sellerId || note.sellerId === sellerId)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    } else {
+      creditNotes = await queryCreditNotes(new Date(0), new Date(), sellerId, limit);
+    }
+
+    return c.json({ success: true, creditNotes });
+  } catch (error) {
+    console.log('Error getting credit notes:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Trim barcodes/SKUs and drop blanks and repeats
+function normalizeBarcodes(codes: any): string[] {
+  const seen = new Set<string>();
+  return (Array.isArray(codes) ? codes : [])
+    .map(code => String(code).trim())
+    .filter(code => {
+      if (!code || seen.has(code.toUpperCase())) return false;
+      seen.add(code.toUpperCase());
+      return true;
+    });
+}
+
+// First of the given codes already carried by another stock item
+async function findBarcodeConflict(codes: string[], exceptId?: string) {
+  if (codes.length === 0) return null;
+  const wanted = new Set(codes.map(code => code.toUpperCase()));
+  const stockItems = await kv.getByPrefix('stock:');
+  for (const data of stockItems) {
+    const stock = typeof data === 'string' ? JSON.parse(data) : data;
+    if (stock.id === exceptId) continue;
+    const code = (stock.barcodes || []).find((barcode: string) => wanted.has(barcode.toUpperCase()));
+    if (code) return { code, stock };
+  }
+  return null;
+}
+
+// Add stock item
+app.post('/make-server-f305f05f/add-stock', requireAdmin, async (c) => {
+  try {
+    const stockItem = await c.req.json();
+    const stockId = `stock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const barcodes = normalizeBarcodes(stockItem.barcodes);
+    const conflict = await findBarcodeConflict(barcodes);
+    if (conflict) {
+      return c.json({ error: `Code ${conflict.code} is already used by ${conflict.stock.name}`, success: false }, 409);
+    }
+    
+    const item = {
+      ...stockItem,
+      barcodes: barcodes.length > 0 ? barcodes : undefined,
+      id: stockId,
+      quantity: 0,
+      createdAt: new Date().toISOString()
+    };
+    
+    await kv.set(`stock:${stockId}`, item);
+
+    // Opening quantity enters through the ledger like any other change
+    const openingQuantity = Number(stockItem.quantity) || 0;
+    await recordStockMovement(stockId, 'adjustment', openingQuantity, { note: 'Opening stock' });
+    
+    return c.json({ success: true, item: { ...item, quantity: openingQuantity } });
+  } catch (error) {
+    console.log('Error adding stock item:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get all stock items
+app.get('/make-server-f305f05f/get-stock', async (c) => {
+  try {
+    const stockItems = await kv.getByPrefix('stock:');
+    const items = stockItems
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    
+    return c.json({ stock: items, success: true });
+  } catch (error) {
+    console.log('Error getting stock:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Update stock item
+app.post('/make-server-f305f05f/update-stock', requireAdmin, async (c) => {
+  try {
+    const { id, updates, note } = await c.req.json();
+    
+    const stockData = await kv.get(`stock:${id}`);
+    if (!stockData) {
+      return c.json({ error: 'Stock item not found', success: false }, 404);
+    }
+    
+    const stock = typeof stockData === 'string' ? JSON.parse(stockData) : stockData;
+    const { quantity, ...otherUpdates } = updates;
+
+    if ('barcodes' in otherUpdates) {
+      const barcodes = normalizeBarcodes(otherUpdates.barcodes);
+      const conflict = await findBarcodeConflict(barcodes, id);
+      if (conflict) {
+        return c.json({ error: `Code ${conflict.code} is already used by ${conflict.stock.name}`, success: false }, 409);
+      }
+      otherUpdates.barcodes = barcodes.length > 0 ? barcodes : undefined;
+    }
+
+    const updatedStock = { ...stock, ...otherUpdates };
+    
+    await kv.set(`stock:${id}`, updatedStock);
+
+    // Quantity changes are recorded as manual adjustments
+    if (quantity !== undefined) {
+      await setStockQuantity(id, Number(quantity), { note: note || 'Manual adjustment' });
+      updatedStock.quantity = Number(quantity);
+    }
+    
+    return c.json({ success: true, item: updatedStock });
+  } catch (error) {
+    console.log('Error updating stock:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Fields an import may set on a stock item; numbers left out keep their current value
+const STOCK_IMPORT_NUMBER_FIELDS = ['purchaseRate', 'sellingPrice', 'wholesalePrice', 'mrp', 'gstRate'];
+const STOCK_IMPORT_TEXT_FIELDS = ['category', 'hsnCode'];
+const STOCK_IMPORT_LIMIT = 5000;
+const STOCK_IMPORT_CHUNK = 200;
+
+// Create or update stock items in bulk (admin). Each row is matched to an existing
+// item by any of its barcodes, then by name; unmatched rows become new items.
+// Quantities are set through the ledger as adjustments, like a manual edit.
+app.post('/make-server-f305f05f/import-stock', requireAdmin, async (c) => {
+  try {
+    const { items } = await c.req.json();
+    if (!Array.isArray(items) || items.length === 0) {
+      return c.json({ error: 'No items to import', success: false }, 400);
+    }
+    if (items.length > STOCK_IMPORT_LIMIT) {
+      return c.json({ error: `Import at most ${STOCK_IMPORT_LIMIT} items at a time`, success: false }, 400);
+    }
+
+    const existing = (await kv.getByPrefix('stock:')).map(data => typeof data === 'string' ? JSON.parse(data) : data);
+    const byCode = new Map<string, any>();
+    const byName = new Map<string, any>();
+    for (const stock of existing) {
+      for (const code of stock.barcodes || []) {
+        byCode.set(code.toUpperCase(), stock);
+      }
+      byName.set(String(stock.name).trim().toLowerCase(), stock);
+    }
+
+    const errors: Array<{ row: number; error: string }> = [];
+    const changed = new Map<string, any>();
+    const movements: any[] = [];
+    const quantityUpdates: Array<{ stockId: string; quantity: number }> = [];
+    let created = 0;
+    let updated = 0;
+
+    items.forEach((row: any, index: number) => {
+      const rowNumber = Number(row.row) || index + 1;
+      const name = String(row.name || '').trim();
+      if (!name) {
+        errors.push({ row: rowNumber, error: 'Name is required' });
+        return;
+      }
+
+      const updates: Record<string, any> = { name };
+      for (const field of STOCK_IMPORT_NUMBER_FIELDS) {
+        if (row[field] === undefined || row[field] === null || row[field] === '') continue;
+        const value = Number(row[field]);
+        if (!Number.isFinite(value) || value < 0) {
+          errors.push({ row: rowNumber, error: `${field} must be a number of 0 or more` });
+          return;
+        }
+        updates[field] = value;
+      }
+      for (const field of STOCK_IMPORT_TEXT_FIELDS) {
+        const value = String(row[field] ?? '').trim();
+        if (value) updates[field] = value;
+      }
+
+      let quantity: number | undefined;
+      if (row.quantity !== undefined && row.quantity !== null && row.quantity !== '') {
+        quantity = Number(row.quantity);
+        if (!Number.isFinite(quantity)) {
+          errors.push({ row: rowNumber, error: 'quantity must be a number' });
+          return;
+        }
+      }
+
+      const barcodes = normalizeBarcodes(row.barcodes);
+      const match = barcodes.map(code => byCode.get(code.toUpperCase())).find(Boolean) || byName.get(name.toLowerCase());
+      const conflict = barcodes.find(code => {
+        const owner = byCode.get(code.toUpperCase());
+        return owner && owner.id !== match?.id;
+      });
+      if (conflict) {
+        errors.push({ row: rowNumber, error: `Code ${conflict} is already used by ${byCode.get(conflict.toUpperCase()).name}` });
+        return;
+      }
+      if (match && changed.has(match.id)) {
+        errors.push({ row: rowNumber, error: `Same item as an earlier row (${match.name})` });
+        return;
+      }
+
+      let stock;
+      if (match) {
+        const mergedCodes = normalizeBarcodes([...(match.barcodes || []), ...barcodes]);
+        stock = { ...match, ...updates, barcodes: mergedCodes.length > 0 ? mergedCodes : undefined };
+        updated++;
+      } else {
+        const id = `stock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        stock = { ...updates, barcodes: barcodes.length > 0 ? barcodes : undefined, id, quantity: 0, createdAt: new Date().toISOString() };
+        created++;
+      }
+
+      // The imported quantity replaces the current one, recorded in the ledger. New
+      // items can't have been sold yet, so their opening entry is written with the batch.
+      if (quantity !== undefined && match) {
+        quantityUpdates.push({ stockId: stock.id, quantity });
+      } else if (quantity) {
+        const movement = buildStockMovement(stock, 1, 'adjustment', quantity, { note: 'Opening stock' });
+        movements.push(movement);
+        stock.quantity = movement.balance;
+        stock.ledgerSeq = movement.sequence;
+      }
+
+      changed.set(stock.id, stock);
+      byName.set(name.toLowerCase(), stock);
+      for (const code of stock.barcodes || []) {
+        byCode.set(code.toUpperCase(), stock);
+      }
+    });
+
+    const stockItems = Array.from(changed.values());
+    for (let i = 0; i < stockItems.length; i += STOCK_IMPORT_CHUNK) {
+      const chunk = stockItems.slice(i, i + STOCK_IMPORT_CHUNK);
+      await kv.mset(chunk.map(stock => `stock:${stock.id}`), chunk);
+    }
+    for (let i = 0; i < movements.length; i += STOCK_IMPORT_CHUNK) {
+      const chunk = movements.slice(i, i + STOCK_IMPORT_CHUNK);
+      await kv.mset(chunk.map(movement => stockMovementKey(movement.stockId, movement.sequence)), chunk);
+    }
+    for (const { stockId, quantity } of quantityUpdates) {
+      await setStockQuantity(stockId, quantity, { note: 'Stock import' });
+    }
+
+    return c.json({ success: true, created, updated, errors });
+  } catch (error) {
+    console.log('Error importing stock:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Delete stock item
+app.delete('/make-server-f305f05f/delete-stock/:id', requireAdmin, async (c) => {
+  try {
+    const id = c.req.param('id');
+    await kv.del(`stock:${id}`);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting stock item:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get the movement history of a stock item
+app.get('/make-server-f305f05f/get-stock-movements/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const movements = await kv.getByPrefix(`stock-movement:${id}:`);
+    const movementList = movements
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return c.json({ success: true, movements: movementList });
+  } catch (error) {
+    console.log('Error getting stock movements:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Reconcile stock quantities against the ledger. The ledger's latest balance is
+// the truth: an item whose quantity lags its numbered movements is brought up to
+// them, and one with only older, unnumbered movements gets an adjustment to the
+// last of their balances. Items with stock from before the ledger existed start
+// from the quantity they hold, so movements are never simply added up.
+app.post('/make-server-f305f05f/reconcile-stock', requireAdmin, async (c) => {
+  try {
+    const stockItems = await kv.getByPrefix('stock:');
+    const items = stockItems.map(item => typeof item === 'string' ? JSON.parse(item) : item);
+    const corrections = [];
+
+    for (const item of items) {
+      const movements = (await kv.getByPrefix(`stock-movement:${item.id}:`))
+        .map(m => typeof m === 'string' ? JSON.parse(m) : m);
+      const quantity = Number(item.quantity) || 0;
+
+      if (movements.length === 0) {
+        // Items created before the ledger existed get an opening balance. A
+        // movement claimed first by a sale already carries the balance on.
+        if (quantity !== 0) {
+          const movement = buildStockMovement({ ...item, quantity: 0 }, 1, 'adjustment', quantity, { note: 'Opening balance' });
+          if (await kvInsert(stockMovementKey(item.id, movement.sequence), movement)) {
+            await syncStockCopy(item.id, movement);
+          }
+        }
+        continue;
+      }
+
+      const numbered = movements.filter(m => m.sequence);
+      const last = numbered.length > 0
+        ? numbered.reduce((a, b) => (b.sequence > a.sequence ? b : a))
+        : movements.reduce((a, b) => (new Date(b.createdAt).getTime() > new Date(a.createdAt).getTime() ? b : a));
+      const ledgerQuantity = Number(last.balance) || 0;
+      if (ledgerQuantity === quantity && (!last.sequence || Number(item.ledgerSeq) === last.sequence)) {
+        continue;
+      }
+
+      if (last.sequence) {
+        await syncStockCopy(item.id, last);
+      } else {
+        await setStockQuantity(item.id, ledgerQuantity, { note: 'Reconciled with the ledger' });
+      }
+      if (ledgerQuantity !== quantity) {
+        corrections.push({ stockId: item.id, name: item.name, from: quantity, to: ledgerQuantity });
+      }
+    }
+
+    return c.json({ success: true, corrections });
+  } catch (error) {
+    console.log('Error reconciling stock:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Customers who owe money, with their unpaid bills oldest first
+app.get('/make-server-f305f05f/get-receivables', async (c) => {
+  try {
+    const user = c.get('user');
+    const dueEntries = await getDueEntries(undefined, user.role === 'admin' ? undefined : user.id);
+    const receivables: Record<string, any> = {};
+
+    dueEntries
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .forEach(due => {
+        const key = due.customerId || 'unknown';
+        if (!receivables[key]) {
+          receivables[key] = {
+            customerId: due.customerId,
+            customerName: due.customerName || 'Unknown Customer',
+            customerPhone: due.customerPhone,
+            balance: 0,
+            oldestDueDate: due.date,
+            bills: [],
+          };
+        }
+        receivables[key].balance = round2(receivables[key].balance + due.balanceDue);
+        receivables[key].bills.push({
+          billNumber: due.billNumber,
+          date: due.date,
+          grandTotal: due.grandTotal,
+          amountPaid: due.amountPaid,
+          balanceDue: due.balanceDue,
+        });
+      });
+
+    const receivableList = Object.values(receivables).sort((a: any, b: any) => b.balance - a.balance);
+    return c.json({ success: true, receivables: receivableList });
+  } catch (error) {
+    console.log('Error getting receivables:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// A customer's totals: bills, amount billed and returned, and what they owe now
+app.get('/make-server-f305f05f/get-customer-summary/:customerId', async (c) => {
+  try {
+    const user = c.get('user');
+    const customerId = c.req.param('customerId');
+    const sellerId = user.role === 'admin' ? undefined : user.id;
+    await ensureBillIndex();
+
+    const parse = (item: any) => typeof item === 'string' ? JSON.parse(item) : item;
+    const bills = (await kv.getByPrefix(`idx:bill-customer:${customerId}:`))
+      .map(parse)
+      .filter(entry => !entry.voided && (!sellerId || entry.sellerId === sellerId));
+    const returns = (await kv.getByPrefix(`idx:credit-note-customer:${customerId}:`))
+      .map(parse)
+      .filter(note => !sellerId || note.sellerId === sellerId);
+    const dueEntries = await getDueEntries(customerId, sellerId);
+
+    const summary = {
+      bills: bills.length,
+      billed: round2(bills.reduce((sum, entry) => sum + entry.grandTotal, 0)),
+      returned: round2(returns.reduce((sum, note) => sum + note.total, 0)),
+      balance: round2(dueEntries.reduce((sum, due) => sum + due.balanceDue, 0)),
+      lastBillDate: bills.reduce((last: string | null, entry) => !last || entry.date > last ? entry.date : last, null),
+    };
+    return c.json({ success: true, summary });
+  } catch (error) {
+    console.log('Error getting customer summary:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
 
-// Signup route
-app.post('/make-server-f305f05f/signup', async (c) => {
+// Running account of a customer, newest first: bills charged, payments and
+// returns credited. Each page covers a batch of bills with what was paid on
+// them; the cursor carries the balance before the page so the next one runs on.
+app.get('/make-server-f305f05f/get-customer-ledger/:customerId', async (c) => {
   try {
-    const { username, password, name, role } = await c.req.json();
-    
-    if (!username || !password || !name) {
-      return c.json({ error: 'Missing required fields', success: false }, 400);
-    }
+    const user = c.get('user');
+    const customerId = c.req.param('customerId');
+    const sellerId = user.role === 'admin' ? undefined : user.id;
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 50, 1), 200);
+    const [cursorDate, cursorNumber, cursorBalance] = (c.req.query('cursor') || '').split('|');
+    const cursor = cursorDate ? `${cursorDate}|${cursorNumber}` : undefined;
 
-    // Create user with Supabase Auth
-    const { data, error } = await supabase.auth.admin.createUser({
-      email: `${username}@sales-billing.local`,
-      password: password,
-      user_metadata: { name, username, role: role || 'seller' },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true
-    });
+    const { entries: indexEntries, nextCursor } = await queryBillIndex({ customerId, sellerId }, cursor, limit);
+    const bills = await getBillsForEntries(indexEntries);
 
-    if (error) {
-      console.log('Signup error:', error);
-      return c.json({ error: error.message, success: false }, 400);
+    const entries = [];
+    for (const bill of bills) {
+      entries.push({ date: bill.date, type: 'bill', reference: bill.billNumber, debit: bill.grandTotal, credit: 0 });
+      for (const payment of bill.payments || getSalePayments(bill)) {
+        entries.push({
+          date: payment.date || bill.date,
+          type: payment.creditNoteNumber ? 'return' : 'payment',
+          reference: payment.receiptId || payment.creditNoteNumber || bill.billNumber,
+          mode: payment.mode || undefined,
+          note: payment.reference,
+          debit: 0,
+          credit: payment.amount,
+        });
+      }
     }
 
-    // Store user info in KV
-    const userInfo = {
-      id: data.user.id,
-      username,
-      name,
-      role: role || 'seller',
-      createdAt: new Date().toISOString()
-    };
-
-    await kv.set(`user:${data.user.id}`, userInfo);
+    // Payments sort before the bill they were made on at the same moment
+    entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || a.debit - b.debit);
+    // The first page runs back from what the customer owes now
+    const closing = cursor
+      ? Number(cursorBalance) || 0
+      : round2((await getDueEntries(customerId, sellerId)).reduce((sum, due) => sum + due.balanceDue, 0));
+    let balance = closing;
+    const ledger = entries.map(entry => {
+      const row = { ...entry, balance };
+      balance = round2(balance - entry.debit + entry.credit);
+      return row;
+    });
 
-    return c.json({ success: true, user: userInfo });
+    return c.json({
+      success: true,
+      ledger,
+      balance: closing,
+      nextCursor: nextCursor ? `${nextCursor}|${balance}` : null,
+    });
   } catch (error) {
-    console.log('Error in signup:', error);
+    console.log('Error getting customer ledger:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get current user info
-app.get('/make-server-f305f05f/get-user', async (c) => {
+// Receive a payment from a customer and settle their bills with it. The
+// chosen bills are settled in order; without a choice the oldest go first.
+app.post('/make-server-f305f05f/receive-payment', async (c) => {
   try {
-    const user = await verifyAuth(c.req.raw);
-    
-    if (!user) {
-      return c.json({ error: 'Unauthorized', success: false }, 401);
+    const user = c.get('user');
+    const { customerId, amount, mode, reference, billNumbers } = await c.req.json();
+    const paymentAmount = round2(Number(amount) || 0);
+
+    if (!customerId || paymentAmount <= 0) {
+      return c.json({ error: 'Customer and a payment amount are required', success: false }, 400);
     }
 
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData) {
-      return c.json({ error: 'User not found', success: false }, 404);
+    const dueEntries = await getDueEntries(customerId, user.role === 'admin' ? undefined : user.id);
+    const openBills = (await getBillsForEntries(dueEntries))
+      .filter(bill => (Number(bill.balanceDue) || 0) > 0)
+      .filter(bill => !Array.isArray(billNumbers) || billNumbers.length === 0 || billNumbers.includes(bill.billNumber))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const outstanding = round2(openBills.reduce((sum, bill) => sum + bill.balanceDue, 0));
+    if (paymentAmount > outstanding + 0.005) {
+      return c.json({ error: `Only ${outstanding.toFixed(2)} is due on the selected bills`, success: false }, 400);
     }
 
-    const userInfo = typeof userData === 'string' ? JSON.parse(userData) : userData;
-    return c.json({ success: true, user: userInfo });
+    const receiptId = `RCPT-${Date.now().toString(36).toUpperCase()}`;
+    const date = new Date().toISOString();
+    const allocations = [];
+    let remaining = paymentAmount;
+
+    for (const openBill of openBills) {
+      if (remaining <= 0) break;
+      // Allocate against the balance the bill has when it is saved
+      let allocated = 0;
+      await saveBillChange(openBill.billNumber, user, 'payment', `Receipt ${receiptId}`, bill => {
+        allocated = round2(Math.min(remaining, Number(bill.balanceDue) || 0));
+        if (allocated <= 0) return false;
+        applyBillPayments(bill, getSalePayments(bill), [
+          ...(bill.payments || []).filter((payment: any) => !isSalePayment(payment)),
+          { mode: mode || '', amount: allocated, reference: reference || undefined, receiptId, date },
+        ]);
+      });
+      if (allocated <= 0) continue;
+      remaining = round2(remaining - allocated);
+      allocations.push({ billNumber: openBill.billNumber, amount: allocated });
+    }
+
+    const receipt = {
+      id: receiptId,
+      customerId,
+      customerName: openBills[0]?.customerName,
+      date,
+      amount: round2(paymentAmount - remaining),
+      mode: mode || '',
+      reference: reference || undefined,
+      allocations,
+      receivedById: user.id,
+      receivedBy: user.name,
+    };
+    await kv.set(`receipt:${receiptId}`, receipt);
+
+    return c.json({ success: true, receipt });
   } catch (error) {
-    console.log('Error getting user:', error);
+    console.log('Error receiving payment:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get all sellers (admin only)
-app.get('/make-server-f305f05f/get-sellers', async (c) => {
+// Phone numbers are compared on their last 10 digits so +91/0 prefixes don't matter
+function normalizePhone(phone?: string) {
+  return String(phone || '').replace(/\D/g, '').slice(-10);
+}
+
+async function findCustomerByPhone(phone: string, exceptId?: string) {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return null;
+  const customers = await kv.getByPrefix('customer:');
+  return customers
+    .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+    .find(customer => customer.id !== exceptId && normalizePhone(customer.phone) === normalized) || null;
+}
+
+// Add customer (sellers create them while billing)
+app.post('/make-server-f305f05f/add-customer', async (c) => {
   try {
-    const user = await verifyAuth(c.req.raw);
-    
-    if (!user) {
-      return c.json({ error: 'Unauthorized', success: false }, 401);
-    }
+    const customerData = await c.req.json();
 
-    const currentUserData = await kv.get(`user:${user.id}`);
-    const currentUser = typeof currentUserData === 'string' ? JSON.parse(currentUserData) : currentUserData;
+    if (!customerData.name?.trim()) {
+      return c.json({ error: 'Customer name is required', success: false }, 400);
+    }
 
-    if (currentUser?.role !== 'admin') {
-      return c.json({ error: 'Admin access required', success: false }, 403);
+    const existing = customerData.phone ? await findCustomerByPhone(customerData.phone) : null;
+    if (existing) {
+      return c.json({ error: `${customerData.phone} already belongs to ${existing.name}`, success: false }, 409);
     }
 
-    const sellers = await kv.getByPrefix('user:');
-    const sellerList = sellers
+    const customerId = `customer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const customer = {
+      ...customerData,
+      name: customerData.name.trim(),
+      id: customerId,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`customer:${customerId}`, customer);
+
+    return c.json({ success: true, customer });
+  } catch (error) {
+    console.log('Error adding customer:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Get all customers
+app.get('/make-server-f305f05f/get-customers', async (c) => {
+  try {
+    const customers = await kv.getByPrefix('customer:');
+    const customerList = customers
       .map(item => typeof item === 'string' ? JSON.parse(item) : item)
       .sort((a, b) => a.name.localeCompare(b.name));
 
-    return c.json({ success: true, sellers: sellerList });
+    return c.json({ success: true, customers: customerList });
   } catch (error) {
-    console.log('Error getting sellers:', error);
+    console.log('Error getting customers:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Delete seller (admin only)
-app.delete('/make-server-f305f05f/delete-seller/:userId', async (c) => {
+// Update customer
+app.post('/make-server-f305f05f/update-customer', async (c) => {
   try {
-    const user = await verifyAuth(c.req.raw);
-    
-    if (!user) {
-      return c.json({ error: 'Unauthorized', success: false }, 401);
-    }
-
-    const currentUserData = await kv.get(`user:${user.id}`);
-    const currentUser = typeof currentUserData === 'string' ? JSON.parse(currentUserData) : currentUserData;
+    const { id, updates } = await c.req.json();
 
-    if (currentUser?.role !== 'admin') {
-      return c.json({ error: 'Admin access required', success: false }, 403);
+    const customerData = await kv.get(`customer:${id}`);
+    if (!customerData) {
+      return c.json({ error: 'Customer not found', success: false }, 404);
     }
 
-    const userId = c.req.param('userId');
+    const existing = updates.phone ? await findCustomerByPhone(updates.phone, id) : null;
+    if (existing) {
+      return c.json({ error: `${updates.phone} already belongs to ${existing.name}`, success: false }, 409);
+    }
 
-    // Delete from KV store
-    await kv.del(`user:${userId}`);
+    const customer = typeof customerData === 'string' ? JSON.parse(customerData) : customerData;
+    const updatedCustomer = { ...customer, ...updates, id };
 
-    // Delete from Supabase Auth
-    await supabase.auth.admin.deleteUser(userId);
+    await kv.set(`customer:${id}`, updatedCustomer);
 
-    return c.json({ success: true });
+    return c.json({ success: true, customer: updatedCustomer });
   } catch (error) {
-    console.log('Error deleting seller:', error);
+    console.log('Error updating customer:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get next bill number
-app.post('/make-server-f305f05f/get-next-bill-number', async (c) => {
+// Delete customer (their bills keep the name they were billed under)
+app.delete('/make-server-f305f05f/delete-customer/:id', requireAdmin, async (c) => {
   try {
-    const counterKey = 'counter:bill';
-    const counter = await kv.get(counterKey);
-    const nextNumber = counter ? Number(counter) + 1 : 1;
-    await kv.set(counterKey, nextNumber);
-    
-    // Format: BILL-YYYY-XXXX
-    const year = new Date().getFullYear();
-    const billNumber = `BILL-${year}-${String(nextNumber).padStart(4, '0')}`;
-    
-    return c.json({ billNumber, success: true });
+    const id = c.req.param('id');
+    await kv.del(`customer:${id}`);
+
+    return c.json({ success: true });
   } catch (error) {
-    console.log('Error getting next bill number:', error);
+    console.log('Error deleting customer:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Create a new bill
-app.post('/make-server-f305f05f/create-bill', async (c) => {
+// Add supplier
+app.post('/make-server-f305f05f/add-supplier', requireAdmin, async (c) => {
   try {
-    const bill = await c.req.json();
-    
-    // Store bill
-    await kv.set(`bill:${bill.billNumber}`, bill);
-    
-    // Update stock quantities if items have stockIds
-    if (bill.items && Array.isArray(bill.items)) {
-      for (const item of bill.items) {
-        if (item.stockId) {
-          const stockItem = await kv.get(`stock:${item.stockId}`);
-          if (stockItem) {
-            const stock = typeof stockItem === 'string' ? JSON.parse(stockItem) : stockItem;
-            stock.quantity = Math.max(0, stock.quantity - item.quantity);
-            await kv.set(`stock:${item.stockId}`, stock);
-          }
-        }
-      }
+    const supplierData = await c.req.json();
+
+    if (!supplierData.name) {
+      return c.json({ error: 'Supplier name is required', success: false }, 400);
     }
-    
-    return c.json({ success: true, bill });
+
+    const supplierId = `supplier-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const supplier = {
+      ...supplierData,
+      id: supplierId,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`supplier:${supplierId}`, supplier);
+
+    return c.json({ success: true, supplier });
   } catch (error) {
-    console.log('Error creating bill:', error);
+    console.log('Error adding supplier:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get all bills
-app.get('/make-server-f305f05f/get-bills', async (c) => {
+// Get all suppliers
+app.get('/make-server-f305f05f/get-suppliers', requireAdmin, async (c) => {
   try {
-    const bills = await kv.getByPrefix('bill:');
-    const billObjects = bills
+    const suppliers = await kv.getByPrefix('supplier:');
+    const supplierList = suppliers
       .map(item => typeof item === 'string' ? JSON.parse(item) : item)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    
-    return c.json({ bills: billObjects, success: true });
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return c.json({ success: true, suppliers: supplierList });
   } catch (error) {
-    console.log('Error getting bills:', error);
+    console.log('Error getting suppliers:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get bill by number
-app.get('/make-server-f305f05f/get-bill/:billNumber', async (c) => {
+// Update supplier
+app.post('/make-server-f305f05f/update-supplier', requireAdmin, async (c) => {
   try {
-    const billNumber = c.req.param('billNumber');
-    const billData = await kv.get(`bill:${billNumber}`);
-    
-    if (!billData) {
-      return c.json({ error: 'Bill not found', success: false }, 404);
+    const { id, updates } = await c.req.json();
+
+    const supplierData = await kv.get(`supplier:${id}`);
+    if (!supplierData) {
+      return c.json({ error: 'Supplier not found', success: false }, 404);
     }
-    
-    const bill = typeof billData === 'string' ? JSON.parse(billData) : billData;
-    return c.json({ bill, success: true });
+
+    const supplier = typeof supplierData === 'string' ? JSON.parse(supplierData) : supplierData;
+    const updatedSupplier = { ...supplier, ...updates, id };
+
+    await kv.set(`supplier:${id}`, updatedSupplier);
+
+    return c.json({ success: true, supplier: updatedSupplier });
   } catch (error) {
-    console.log('Error getting bill:', error);
+    console.log('Error updating supplier:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get sales report
-app.post('/make-server-f305f05f/get-report', async (c) => {
+// Delete supplier (purchase history is kept)
+app.delete('/make-server-f305f05f/delete-supplier/:id', requireAdmin, async (c) => {
   try {
-    const { startDate, endDate, sellerId } = await c.req.json();
+    const id = c.req.param('id');
+    await kv.del(`supplier:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting supplier:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
 
-    const bills = await kv.getByPrefix('bill:');
-    const billObjects = bills.map(item => typeof item === 'string' ? JSON.parse(item) : item);
+// Record a purchase bill: adds stock and updates weighted-average cost
+app.post('/make-server-f305f05f/create-purchase', requireAdmin, async (c) => {
+  try {
+    const purchaseData = await c.req.json();
+    const invoiceNumber = String(purchaseData.invoiceNumber || '').trim();
 
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
+    if (!purchaseData.supplierId || !invoiceNumber) {
+      return c.json({ error: 'Supplier and invoice number are required', success: false }, 400);
+    }
 
-    let filteredBills = billObjects.filter(bill => {
-      const billDate = new Date(bill.date);
-      return billDate >= start && billDate <= end;
-    });
+    if (!Array.isArray(purchaseData.items) || purchaseData.items.length === 0) {
+      return c.json({ error: 'Add at least one item', success: false }, 400);
+    }
 
-    // Filter by seller if specified
-    if (sellerId && sellerId !== 'all') {
-      filteredBills = filteredBills.filter(bill => bill.sellerId === sellerId);
+    const supplierData = await kv.get(`supplier:${purchaseData.supplierId}`);
+    if (!supplierData) {
+      return c.json({ error: 'Supplier not found', success: false }, 404);
     }
+    const supplier = typeof supplierData === 'string' ? JSON.parse(supplierData) : supplierData;
 
-    const totalSales = filteredBills.reduce((sum, bill) => sum + bill.grandTotal, 0);
-    const totalBills = filteredBills.length;
+    const purchaseId = `purchase-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Group by payment mode
-    const paymentModes = filteredBills.reduce((acc, bill) => {
-      const mode = bill.paymentMode || 'Not Specified';
-      acc[mode] = (acc[mode] || 0) + bill.grandTotal;
-      return acc;
-    }, {} as Record<string, number>);
+    // A supplier's invoice can only be entered once
+    const claimed = await kvInsert(`purchase-invoice:${supplier.id}:${invoiceNumber.toUpperCase()}`, purchaseId);
+    if (!claimed) {
+      return c.json({ error: `Invoice ${invoiceNumber} from ${supplier.name} is already recorded`, success: false }, 409);
+    }
 
-    return c.json({
-      success: true,
-      report: {
-        totalSales,
-        totalBills,
-        paymentModes,
-        bills: filteredBills.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    const items = [];
+    for (const item of purchaseData.items) {
+      const quantity = Number(item.quantity) || 0;
+      const cost = Number(item.cost) || 0;
+      let stockId = item.stockId;
+
+      // Items not yet in stock are created on the fly
+      if (!stockId) {
+        stockId = `stock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        await kv.set(`stock:${stockId}`, {
+          id: stockId,
+          name: item.name,
+          quantity: 0,
+          gstRate: item.gstRate,
+          createdAt: new Date().toISOString()
+        });
       }
-    });
-  } catch (error) {
-    console.log('Error generating report:', error);
-    return c.json({ error: String(error), success: false }, 500);
-  }
-});
 
-// Update bill
-app.put('/make-server-f305f05f/update-bill', async (c) => {
-  try {
-    const bill = await c.req.json();
+      const stockData = await kv.get(`stock:${stockId}`);
+      if (!stockData) {
+        continue;
+      }
+      const stock = typeof stockData === 'string' ? JSON.parse(stockData) : stockData;
 
-    if (!bill.billNumber) {
-      return c.json({ error: 'Bill number is required', success: false }, 400);
-    }
+      // Weighted average over the stock on hand and the new purchase
+      const onHand = Math.max(0, Number(stock.quantity) || 0);
+      const currentCost = Number(stock.averageCost ?? stock.purchaseRate) || 0;
+      const averageCost = onHand + quantity > 0
+        ? Math.round(((onHand * currentCost + quantity * cost) / (onHand + quantity)) * 100) / 100
+        : cost;
 
-    // Check if bill exists
-    const existingBillData = await kv.get(`bill:${bill.billNumber}`);
-    if (!existingBillData) {
-      return c.json({ error: 'Bill not found', success: false }, 404);
+      await kv.set(`stock:${stockId}`, { ...stock, averageCost, purchaseRate: cost });
+      await recordStockMovement(stockId, 'purchase', quantity, {
+        reference: invoiceNumber,
+        note: supplier.name,
+      });
+
+      items.push({ ...item, stockId, name: item.name || stock.name, quantity, cost });
     }
 
-    // Store updated bill
-    await kv.set(`bill:${bill.billNumber}`, bill);
+    const purchase = {
+      ...purchaseData,
+      id: purchaseId,
+      supplierName: supplier.name,
+      invoiceNumber,
+      items,
+      amountPaid: Number(purchaseData.amountPaid) || 0,
+      createdAt: new Date().toISOString()
+    };
 
-    return c.json({ success: true, bill });
+    await kv.set(`purchase:${purchaseId}`, purchase);
+
+    return c.json({ success: true, purchase });
   } catch (error) {
-    console.log('Error updating bill:', error);
+    console.log('Error creating purchase:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Delete bill
-app.delete('/make-server-f305f05f/delete-bill/:billNumber', async (c) => {
+// Get purchases, optionally for one supplier
+app.get('/make-server-f305f05f/get-purchases', requireAdmin, async (c) => {
   try {
-    const billNumber = c.req.param('billNumber');
-    await kv.del(`bill:${billNumber}`);
+    const supplierId = c.req.query('supplierId');
+    const purchases = await kv.getByPrefix('purchase:');
+    const purchaseList = purchases
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .filter(purchase => !supplierId || purchase.supplierId === supplierId)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-    return c.json({ success: true });
+    return c.json({ success: true, purchases: purchaseList });
   } catch (error) {
-    console.log('Error deleting bill:', error);
+    console.log('Error getting purchases:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Add stock item
-app.post('/make-server-f305f05f/add-stock', async (c) => {
+// Record a payment made to a supplier
+app.post('/make-server-f305f05f/add-supplier-payment', requireAdmin, async (c) => {
   try {
-    const stockItem = await c.req.json();
-    const stockId = `stock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    const item = {
-      ...stockItem,
-      id: stockId,
-      createdAt: new Date().toISOString()
+    const paymentData = await c.req.json();
+
+    if (!paymentData.supplierId || !(Number(paymentData.amount) > 0)) {
+      return c.json({ error: 'Supplier and a positive amount are required', success: false }, 400);
+    }
+
+    const paymentId = `payment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const payment = {
+      ...paymentData,
+      id: paymentId,
+      amount: Number(paymentData.amount),
+      date: paymentData.date || new Date().toISOString()
     };
-    
-    await kv.set(`stock:${stockId}`, item);
-    
-    return c.json({ success: true, item });
+
+    await kv.set(`supplier-payment:${paymentId}`, payment);
+
+    return c.json({ success: true, payment });
   } catch (error) {
-    console.log('Error adding stock item:', error);
+    console.log('Error adding supplier payment:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Get all stock items
-app.get('/make-server-f305f05f/get-stock', async (c) => {
+// Supplier-wise payables: purchases less everything paid so far
+app.get('/make-server-f305f05f/get-payables', requireAdmin, async (c) => {
   try {
-    const stockItems = await kv.getByPrefix('stock:');
-    const items = stockItems
-      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
-      .sort((a, b) => a.name.localeCompare(b.name));
-    
-    return c.json({ stock: items, success: true });
+    const [suppliers, purchases, payments] = await Promise.all([
+      kv.getByPrefix('supplier:'),
+      kv.getByPrefix('purchase:'),
+      kv.getByPrefix('supplier-payment:'),
+    ]);
+
+    const payables: Record<string, any> = {};
+    for (const item of suppliers) {
+      const supplier = typeof item === 'string' ? JSON.parse(item) : item;
+      payables[supplier.id] = {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        purchaseCount: 0,
+        totalPurchases: 0,
+        totalPaid: 0,
+        balance: 0,
+      };
+    }
+
+    for (const item of purchases) {
+      const purchase = typeof item === 'string' ? JSON.parse(item) : item;
+      const payable = payables[purchase.supplierId];
+      if (!payable) continue;
+      payable.purchaseCount += 1;
+      payable.totalPurchases += Number(purchase.grandTotal) || 0;
+      payable.totalPaid += Number(purchase.amountPaid) || 0;
+      if (!payable.lastPurchaseDate || purchase.date > payable.lastPurchaseDate) {
+        payable.lastPurchaseDate = purchase.date;
+      }
+    }
+
+    for (const item of payments) {
+      const payment = typeof item === 'string' ? JSON.parse(item) : item;
+      const payable = payables[payment.supplierId];
+      if (payable) {
+        payable.totalPaid += Number(payment.amount) || 0;
+      }
+    }
+
+    const payableList = Object.values(payables)
+      .map((p: any) => ({ ...p, balance: Math.round((p.totalPurchases - p.totalPaid) * 100) / 100 }))
+      .sort((a: any, b: any) => b.balance - a.balance);
+
+    return c.json({ success: true, payables: payableList });
   } catch (error) {
-    console.log('Error getting stock:', error);
+    console.log('Error getting payables:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Update stock item
-app.post('/make-server-f305f05f/update-stock', async (c) => {
+// Parked bills are private to the seller who parked them
+const draftKey = (sellerId: string, id: string) => `draft:${sellerId}:${id}`;
+
+// Park (or re-park) a bill in progress
+app.post('/make-server-f305f05f/save-draft', async (c) => {
   try {
-    const { id, updates } = await c.req.json();
-    
-    const stockData = await kv.get(`stock:${id}`);
-    if (!stockData) {
-      return c.json({ error: 'Stock item not found', success: false }, 404);
+    const user = c.get('user');
+    const draftData = await c.req.json();
+
+    if (!draftData.id) {
+      return c.json({ error: 'Draft id is required', success: false }, 400);
     }
-    
-    const stock = typeof stockData === 'string' ? JSON.parse(stockData) : stockData;
-    const updatedStock = { ...stock, ...updates };
-    
-    await kv.set(`stock:${id}`, updatedStock);
-    
-    return c.json({ success: true, item: updatedStock });
+
+    const { synced, ...rest } = draftData;
+    const draft = {
+      ...rest,
+      sellerId: user.id,
+      parkedAt: draftData.parkedAt || new Date().toISOString()
+    };
+
+    await kv.set(draftKey(user.id, draft.id), draft);
+
+    return c.json({ success: true, draft });
   } catch (error) {
-    console.log('Error updating stock:', error);
+    console.log('Error saving draft:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
-// Delete stock item
-app.delete('/make-server-f305f05f/delete-stock/:id', async (c) => {
+// Get the caller's parked bills, newest first
+app.get('/make-server-f305f05f/get-drafts', async (c) => {
   try {
-    const id = c.req.param('id');
-    await kv.del(`stock:${id}`);
-    
+    const user = c.get('user');
+    const drafts = await kv.getByPrefix(`draft:${user.id}:`);
+    const draftList = drafts
+      .map(item => typeof item === 'string' ? JSON.parse(item) : item)
+      .sort((a, b) => new Date(b.parkedAt).getTime() - new Date(a.parkedAt).getTime());
+
+    return c.json({ success: true, drafts: draftList });
+  } catch (error) {
+    console.log('Error getting drafts:', error);
+    return c.json({ error: String(error), success: false }, 500);
+  }
+});
+
+// Discard a parked bill (also called when one is resumed)
+app.delete('/make-server-f305f05f/delete-draft/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    await kv.del(draftKey(user.id, c.req.param('id')));
+
     return c.json({ success: true });
   } catch (error) {
-    console.log('Error deleting stock item:', error);
+    console.log('Error deleting draft:', error);
     return c.json({ error: String(error), success: false }, 500);
   }
 });
 
 // Save business settings
-app.post('/make-server-f305f05f/save-settings', async (c) => {
+app.post('/make-server-f305f05f/save-settings', requireAdmin, async (c) => {
   try {
     const settings = await c.req.json();
     await kv.set('settings:business', settings);
@@ -466,10 +3278,18 @@ app.post('/make-server-f305f05f/init-admin', async (c) => {
 // Check if admin exists (public endpoint for initial setup)
 app.get('/make-server-f305f05f/check-admin-exists', async (c) => {
   try {
+    // Once an admin has been seen there is always one, so later checks are a single read
+    if (await kv.get(ADMIN_EXISTS_KEY)) {
+      return c.json({ success: true, adminExists: true, hasUsers: true });
+    }
+
     const users = await kv.getByPrefix('user:');
     const admins = users
       .map(item => typeof item === 'string' ? JSON.parse(item) : item)
       .filter(user => user.role === 'admin');
+    if (admins.length > 0) {
+      await kv.set(ADMIN_EXISTS_KEY, true);
+    }
     
     return c.json({ 
       success: true, 
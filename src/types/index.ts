@@ -7,52 +7,468 @@ export interface BillItem {
   rate: number;
   total: number;
   stockId?: string;
+  costPrice?: number;
+  mrp?: number;
   discountType?: 'fixed' | 'percentage';
   discountValue?: number;
   discountAmount?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
 export interface Bill {
   billNumber: string;
   date: string;
+  customerId?: string;
   customerName?: string;
+  customerPhone?: string;
+  customerGstin?: string;
+  customerState?: string;
+  isInterState?: boolean;
   items: BillItem[];
   subtotal?: number;
   discountType?: 'fixed' | 'percentage';
   discountValue?: number;
   discountAmount?: number;
+  taxableAmount?: number;
+  cgstTotal?: number;
+  sgstTotal?: number;
+  igstTotal?: number;
+  taxTotal?: number;
   grandTotal: number;
-  paymentMode?: 'Cash' | 'UPI' | 'Card' | '';
+  paymentMode?: PaymentMode | '';
+  payments?: BillPayment[];
+  amountPaid?: number;
+  balanceDue?: number;
   notes?: string;
   businessName?: string;
   sellerId?: string;
   sellerName?: string;
+  seriesId?: string;
+  priceTier?: PriceTier;
+  clientId?: string;
+  pendingSync?: boolean;
+  // Audit trail: every stored change bumps the version
+  version?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+  // Voided bills keep their number but no longer count as sales
+  voided?: boolean;
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// Filters for listing bills; dates are ISO strings
+export interface BillQuery {
+  from?: string;
+  to?: string;
+  sellerId?: string;
+  customerId?: string;
+  paymentMode?: string;
+  // 'active' (default) leaves out cancelled bills, 'cancelled' lists only them
+  status?: 'active' | 'cancelled' | 'all';
+}
+
+// A page of bills, newest first; nextCursor is null on the last page
+export interface BillPage {
+  bills: Bill[];
+  nextCursor: string | null;
+}
+
+// Bill search: words are matched against the bill number, customer name and
+// phone, item names, notes and seller
+export interface BillSearchQuery extends BillQuery {
+  q?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+// Ranked search hits, best first; total counts every hit, not just this page,
+// and is null when the search had no words and only filtered the bill list
+export interface BillSearchPage extends BillPage {
+  total: number | null;
+}
+
+// One stored version of a bill: who changed it, what changed and the bill as it then stood
+export interface BillAuditEvent {
+  billNumber: string;
+  version: number;
+  action: 'create' | 'update' | 'void' | 'restore' | 'payment' | 'return';
+  userId?: string;
+  userName?: string;
+  timestamp: string;
+  reason?: string;
+  changes: Array<{ field: string; before: Bill[keyof Bill]; after: Bill[keyof Bill] }>;
+  snapshot: Bill;
+}
+
+export type PriceTier = 'retail' | 'wholesale';
+
+export type PaymentMode = 'Cash' | 'UPI' | 'Card';
+
+// One payment towards a bill. Entries with a receiptId or creditNoteNumber
+// settled a credit bill after the sale; the rest were taken at the counter.
+export interface BillPayment {
+  mode: PaymentMode | 'Credit Note' | '';
+  amount: number;
+  reference?: string;
+  // Cash handed over when change was given
+  tendered?: number;
+  date?: string;
+  receiptId?: string;
+  creditNoteNumber?: string;
+}
+
+// Money received from a customer against one or more credit bills
+export interface PaymentReceipt {
+  id: string;
+  customerId: string;
+  customerName?: string;
+  date: string;
+  amount: number;
+  mode: PaymentMode | '';
+  reference?: string;
+  allocations: Array<{ billNumber: string; amount: number }>;
+  receivedById?: string;
+  receivedBy?: string;
+}
+
+export interface CustomerReceivable {
+  customerId?: string;
+  customerName: string;
+  customerPhone?: string;
+  balance: number;
+  oldestDueDate: string;
+  bills: Array<{ billNumber: string; date: string; grandTotal: number; amountPaid: number; balanceDue: number }>;
+}
+
+export interface LedgerEntry {
+  date: string;
+  type: 'bill' | 'payment' | 'return';
+  reference: string;
+  mode?: string;
+  note?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+// A page of a customer's account, newest first; balance is owed after its first entry
+export interface LedgerPage {
+  ledger: LedgerEntry[];
+  balance: number;
+  nextCursor: string | null;
+}
+
+// A customer's totals over every bill, not just the ones listed
+export interface CustomerSummary {
+  bills: number;
+  billed: number;
+  returned: number;
+  balance: number;
+  lastBillDate: string | null;
+}
+
+// A returned line, valued at its share of what the customer actually paid
+export interface CreditNoteItem {
+  id: string;
+  stockId?: string;
+  name: string;
+  quantity: number;
+  rate: number;
+  total: number;
+  netValue: number;
+  costPrice?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+export interface CreditNote {
+  creditNoteNumber: string;
+  billNumber: string;
+  date: string;
+  customerName?: string;
+  customerGstin?: string;
+  customerState?: string;
+  isInterState?: boolean;
+  items: CreditNoteItem[];
+  taxableAmount?: number;
+  cgstTotal?: number;
+  sgstTotal?: number;
+  igstTotal?: number;
+  taxTotal?: number;
+  total: number;
+  // Credit: taken off the bill's balance due instead of refunded
+  refundMode?: PaymentMode | 'Credit' | '';
+  reason?: string;
+  sellerId?: string;
+  sellerName?: string;
+  createdBy?: string;
+  seriesId?: string;
+}
+
+// A bill saved on this device while offline, waiting to be sent to the server
+export interface PendingBill {
+  localId: string;
+  bill: Bill;
+  requestedNumber?: string;
+  sellerId?: string;
+  createdAt: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+}
+
+// A bill parked at the counter to be finished later. Kept in local storage and,
+// per seller, on the server under draft: so it can be resumed on another device.
+export interface ParkedBill {
+  id: string;
+  sellerId?: string;
+  parkedAt: string;
+  seriesId?: string;
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerGstin?: string;
+  customerState?: string;
+  priceTier?: PriceTier;
+  items: BillItem[];
+  discountType?: 'fixed' | 'percentage';
+  discountValue?: number;
+  tenderLines?: Array<{ mode: PaymentMode; amount: string; reference: string }>; // as typed, amounts unparsed
+  payOnCredit?: boolean;
+  notes?: string;
+  synced?: boolean; // local copy has reached the server
+}
+
+export interface StockWarning {
+  stockId: string;
+  itemName: string;
+  balance: number;
+}
+
+export interface BillSyncResult {
+  bill: Bill;
+  duplicate?: boolean;
+  stockWarnings: StockWarning[];
+}
+
+export interface BillSeries {
+  id: string;
+  name: string;
+  prefix: string;
+  padding: number;
+  reset: 'never' | 'yearly' | 'financial-year';
+  sellerId?: string;
 }
 
 export interface StockItem {
   id: string;
   name: string;
   quantity: number;
+  purchaseRate?: number; // cost price from the latest purchase
+  averageCost?: number;
+  sellingPrice?: number;
+  wholesalePrice?: number;
+  mrp?: number;
+  category?: string;
+  hsnCode?: string;
+  gstRate?: number;
+  barcodes?: string[]; // EAN/UPC barcodes and shop SKUs that identify the item at the counter
+  createdAt: string;
+}
+
+// One spreadsheet row for the bulk stock import; row is its line in the file
+export interface StockImportItem {
+  row: number;
+  name: string;
+  quantity?: number;
   purchaseRate?: number;
+  sellingPrice?: number;
+  wholesalePrice?: number;
+  mrp?: number;
+  category?: string;
+  hsnCode?: string;
+  gstRate?: number;
+  barcodes?: string[];
+}
+
+export interface StockImportResult {
+  created: number;
+  updated: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+export interface StockMovement {
+  id: string;
+  stockId: string;
+  itemName: string;
+  type: 'sale' | 'return' | 'purchase' | 'adjustment' | 'bill-edit';
+  quantity: number;
+  balance: number;
+  reference?: string;
+  note?: string;
   createdAt: string;
 }
 
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  gstin?: string;
+  state?: string;
+  createdAt: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  gstin?: string;
+  createdAt: string;
+}
+
+export interface PurchaseItem {
+  id: string;
+  stockId?: string;
+  name: string;
+  quantity: number;
+  cost: number;
+  gstRate?: number;
+  taxAmount?: number;
+  total: number;
+}
+
+export interface Purchase {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  invoiceNumber: string;
+  date: string;
+  items: PurchaseItem[];
+  subtotal: number;
+  taxTotal: number;
+  grandTotal: number;
+  amountPaid: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface SupplierPayment {
+  id: string;
+  supplierId: string;
+  amount: number;
+  date: string;
+  note?: string;
+}
+
+export interface SupplierPayable {
+  supplierId: string;
+  supplierName: string;
+  purchaseCount: number;
+  totalPurchases: number;
+  totalPaid: number;
+  balance: number;
+  lastPurchaseDate?: string;
+}
+
 export interface BusinessSettings {
   businessName: string;
   address?: string;
   phone?: string;
   email?: string;
   gst?: string;
+  state?: string;
+  pricesIncludeTax?: boolean;
   termsAndConditions?: string;
+  upiVpa?: string;
+  upiPayeeName?: string;
+  billSeries?: BillSeries[];
+  creditNoteSeries?: BillSeries;
+  // Hours after a sale that its seller can still cancel it; admins can cancel any time
+  cancelWindowHours?: number;
 }
 
 export interface SalesReport {
   totalSales: number;
+  grossSales?: number;
+  totalReturns?: number;
+  returnCount?: number;
   totalBills: number;
   paymentModes: Record<string, number>;
+  creditSales?: number;
+  totalOutstanding?: number;
+  collections?: number;
   bills: Bill[];
   totalDiscount?: number;
   averageDiscount?: number;
+  totalRevenue?: number;
+  totalCost?: number;
+  grossProfit?: number;
+  grossMargin?: number;
+  uncostedSales?: number;
+  billMargins?: MarginRow[];
+  itemMargins?: MarginRow[];
+  sellerMargins?: MarginRow[];
+  dailyMargins?: MarginRow[];
+  itemSales?: ItemSalesRow[];
+  categorySales?: CategorySalesRow[];
+  slowMovers?: ItemSalesRow[];
+  // The latest of the period; the counts and totals cover all of it
+  creditNotes?: CreditNote[];
+  cancelledBills?: Bill[];
+  cancelledCount?: number;
+  cancelledTotal?: number;
+}
+
+// One shop day's totals, kept up to date on the server as bills change.
+// Payment modes are what was paid at the counter, with anything unpaid under Credit.
+export interface DailySummary {
+  day: string;
+  sales: number;
+  bills: number;
+  discount: number;
+  paymentModes: Record<string, number>;
+  returns: number;
+  refundModes: Record<string, number>;
+}
+
+export interface ItemSalesRow {
+  key: string;
+  name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+  stockOnHand?: number;
+}
+
+export interface CategorySalesRow {
+  category: string;
+  quantity: number;
+  revenue: number;
+  items: number;
+}
+
+// Revenue is after discounts and before GST; cost only covers lines with a known cost price
+export interface MarginRow {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number;
 }
 
 export interface User {
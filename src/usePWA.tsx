@@ -1,4 +1,6 @@
 import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { getPendingBills, onPendingBillsChange, retryFailedBills, syncPendingBills, type SyncSummary } from './utils/offlineSync';
 
 interface PWABannerProps {
   onClose?: () => void;
@@ -83,6 +85,12 @@ export function PWAUpdateBanner() {
   const [updateSW, setUpdateSW] = useState<(() => void) | null>(null);
 
   useEffect(() => {
+    // API responses used to be cached by URL alone, which could hand one login's
+    // data to another; offline reads now go through IndexedDB only
+    if ('caches' in window) {
+      caches.delete('api-cache').catch(() => {});
+    }
+
     const registerSW = async () => {
       try {
         const { registerSW } = await import('virtual:pwa-register');
@@ -159,27 +167,101 @@ export function PWAUpdateBanner() {
 
 export function OfflineIndicator() {
   const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedCount, setFailedCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  const refreshCounts = async () => {
+    try {
+      const pending = await getPendingBills();
+      setPendingCount(pending.filter(p => p.status === 'pending').length);
+      setFailedCount(pending.filter(p => p.status === 'failed').length);
+    } catch (error) {
+      console.log('Offline queue not available:', error);
+    }
+  };
+
+  const reportSync = (summary: SyncSummary) => {
+    if (summary.synced.length > 0) {
+      toast.success(`Synced ${summary.synced.length} offline bill${summary.synced.length !== 1 ? 's' : ''}`);
+    }
+    summary.synced
+      .filter(({ localNumber, billNumber }) => localNumber !== billNumber)
+      .forEach(({ localNumber, billNumber }) => toast.info(`Offline bill ${localNumber} is now ${billNumber}`));
+    summary.stockWarnings.forEach(warning =>
+      toast.warning(`${warning.itemName} is now at ${warning.balance} in stock. Please recount it.`)
+    );
+    if (summary.failed > 0) {
+      toast.error(`${summary.failed} offline bill${summary.failed !== 1 ? 's' : ''} could not be synced`);
+    }
+  };
+
+  const sync = async (retryFailed = false) => {
+    setSyncing(true);
+    try {
+      reportSync(retryFailed ? await retryFailedBills() : await syncPendingBills());
+    } catch (error) {
+      console.log('Offline sync failed:', error);
+    } finally {
+      setSyncing(false);
+    }
+  };
 
   useEffect(() => {
     setIsOnline(navigator.onLine);
+    refreshCounts();
+    if (navigator.onLine) {
+      sync();
+    }
 
-    const handleOnline = () => setIsOnline(true);
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
     const handleOffline = () => setIsOnline(false);
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    const unsubscribe = onPendingBillsChange(refreshCounts);
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      unsubscribe();
     };
   }, []);
 
-  if (isOnline) return null;
+  if (!isOnline) {
+    return (
+      <div className="fixed top-0 left-0 right-0 bg-yellow-500 text-white text-center py-2 text-sm z-50">
+        ⚠️ You're offline - Bills are saved on this device
+        {pendingCount > 0 && ` (${pendingCount} waiting to sync)`}
+      </div>
+    );
+  }
 
-  return (
-    <div className="fixed top-0 left-0 right-0 bg-yellow-500 text-white text-center py-2 text-sm z-50">
-      ⚠️ You're offline - Some features may be limited
-    </div>
-  );
-}
\ No newline at end of file
+  if (syncing && pendingCount > 0) {
+    return (
+      <div className="fixed top-0 left-0 right-0 bg-blue-600 text-white text-center py-2 text-sm z-50">
+        🔄 Syncing {pendingCount} offline bill{pendingCount !== 1 ? 's' : ''}...
+      </div>
+    );
+  }
+
+  if (failedCount > 0) {
+    return (
+      <div className="fixed top-0 left-0 right-0 bg-red-600 text-white text-center py-2 text-sm z-50">
+        ❌ {failedCount} offline bill{failedCount !== 1 ? 's' : ''} failed to sync
+        <button
+          onClick={() => sync(true)}
+          disabled={syncing}
+          className="ml-3 px-2 py-0.5 text-xs font-medium rounded-md border border-white hover:bg-red-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -1,13 +1,94 @@
-import { projectId, publicAnonKey } from './supabase/info';
-import type { Bill, StockItem, BusinessSettings, SalesReport } from '../types';
+import { projectId } from './supabase/info';
+import { supabase } from './supabase/client';
+import { offlineStore } from './offlineStore';
+import type {
+  Bill,
+  BillAuditEvent,
+  BillPage,
+  BillQuery,
+  BillSearchPage,
+  BillSearchQuery,
+  BillSyncResult,
+  CreditNote,
+  Customer,
+  CustomerReceivable,
+  CustomerSummary,
+  LedgerPage,
+  ParkedBill,
+  PaymentReceipt,
+  StockItem,
+  StockImportItem,
+  StockImportResult,
+  StockMovement,
+  BusinessSettings,
+  SalesReport,
+  DailySummary,
+  Supplier,
+  Purchase,
+  SupplierPayment,
+  SupplierPayable,
+} from '../types';
 
 const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-f305f05f`;
 
+// Error carrying the HTTP status so callers can react to e.g. 409 conflicts
+export class ApiError extends Error {
+  status: number;
+  // Set by the server on errors the UI reacts to, e.g. 'duplicate-number'
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// The server resolves the caller from the signed-in user's access token
+async function getAccessToken(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new ApiError('Not signed in', 401);
+  }
+  return session.access_token;
+}
+
+// True when a request failed because the server couldn't be reached at all,
+// as opposed to the server answering with an error
+export function isNetworkError(error: unknown): boolean {
+  return !(error instanceof ApiError) && (!navigator.onLine || error instanceof TypeError);
+}
+
+// The /bills filters applied to cached and pending bills while offline
+function matchesBillQuery(bill: Bill, query: BillQuery): boolean {
+  const time = new Date(bill.date).getTime();
+  if (query.from && time < new Date(query.from).getTime()) return false;
+  if (query.to && time > new Date(query.to).getTime()) return false;
+  if (query.sellerId && bill.sellerId !== query.sellerId) return false;
+  if (query.customerId && bill.customerId !== query.customerId) return false;
+  if (query.paymentMode) {
+    const modes: Array<string | undefined> = [bill.paymentMode, ...(bill.payments || []).map(payment => payment.mode)];
+    const onCredit = query.paymentMode === 'Credit' && !!bill.balanceDue;
+    if (!modes.includes(query.paymentMode) && !onCredit) return false;
+  }
+  const status = query.status || 'active';
+  if (status === 'active' && bill.voided) return false;
+  if (status === 'cancelled' && !bill.voided) return false;
+  return true;
+}
+
+// Keep the offline mirror fresh without letting an IndexedDB failure break the request
+function mirror(save: () => Promise<void>) {
+  save().catch(error => console.error('Error updating offline cache:', error));
+}
+
 async function apiCall(endpoint: string, options: RequestInit = {}) {
+  const accessToken = await getAccessToken();
   const response = await fetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers: {
-      'Authorization': `Bearer ${publicAnonKey}`,
+      'Authorization': `Bearer ${accessToken}`,
       'Content-Type': 'application/json',
       ...options.headers,
     },
@@ -16,22 +97,24 @@ async function apiCall(endpoint: string, options: RequestInit = {}) {
   const data = await response.json();
   
   if (!data.success) {
-    throw new Error(data.error || 'API call failed');
+    throw new ApiError(data.error || 'API call failed', response.status, data.code);
   }
   
   return data;
 }
 
 export const billAPI = {
-  // Get suggested next bill number (for suggestion only, not mandatory)
-  getNextBillNumber: async (): Promise<string> => {
+  // Preview the next number in a series (not reserved until the bill is saved)
+  getNextBillNumber: async (seriesId?: string): Promise<string> => {
     const data = await apiCall('/get-next-bill-number', {
       method: 'POST',
+      body: JSON.stringify({ seriesId }),
     });
     return data.billNumber;
   },
   
-  // Create a new bill with manual bill number
+  // Create a new bill. Leave billNumber empty to have the server assign the
+  // next number from bill.seriesId; a duplicate manual number fails with 409.
   createBill: async (bill: Bill): Promise<Bill> => {
     const data = await apiCall('/create-bill', {
       method: 'POST',
@@ -39,13 +122,82 @@ export const billAPI = {
     });
     return data.bill;
   },
+
+  // Send a bill that was saved offline. bill.clientId makes this safe to retry:
+  // if the server already stored it, the stored bill comes back as a duplicate.
+  syncBill: async (bill: Bill): Promise<BillSyncResult> => {
+    const data = await apiCall('/create-bill', {
+      method: 'POST',
+      body: JSON.stringify(bill),
+    });
+    return { bill: data.bill, duplicate: data.duplicate, stockWarnings: data.stockWarnings || [] };
+  },
   
-  // Get all bills
-  getAllBills: async (): Promise<Bill[]> => {
-    const data = await apiCall('/get-bills');
-    return data.bills;
+  // Get a page of bills, newest first; pass the returned nextCursor for the next page.
+  // When the server can't be reached the cached bills matching the query come back
+  // as one page. Bills still waiting to sync are listed first on the first page.
+  getBills: async (query: BillQuery = {}, cursor?: string | null, limit = 50): Promise<BillPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    if (cursor) params.set('cursor', cursor);
+
+    let page: BillPage;
+    try {
+      const data = await apiCall(`/bills?${params}`);
+      page = { bills: data.bills, nextCursor: data.nextCursor };
+      mirror(() => offlineStore.cacheBills(page.bills));
+    } catch (error) {
+      if (!isNetworkError(error) || cursor) throw error;
+      const cached = await offlineStore.getCachedBills();
+      page = { bills: cached.filter(bill => matchesBillQuery(bill, query)), nextCursor: null };
+    }
+
+    if (cursor || query.status === 'cancelled') {
+      return page;
+    }
+    const { data: { session } } = await supabase.auth.getSession();
+    const pending = (await offlineStore.getPendingBills())
+      .filter(p => p.sellerId === session?.user.id)
+      .map(p => ({ ...p.bill, pendingSync: true }))
+      .filter(bill => matchesBillQuery(bill, query));
+    return { ...page, bills: [...pending.reverse(), ...page.bills] };
   },
   
+  // Search bills, best matches first; pass the returned nextCursor for the next page.
+  // Offline, the cached bills containing every word come back as one page.
+  searchBills: async (query: BillSearchQuery, cursor?: string | null, limit = 30): Promise<BillSearchPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const data = await apiCall(`/search-bills?${params}`);
+      return { bills: data.bills, total: data.total, nextCursor: data.nextCursor };
+    } catch (error) {
+      if (!isNetworkError(error) || cursor) throw error;
+      const words = (query.q || '').toLowerCase().split(/\s+/).filter(Boolean);
+      const bills = (await offlineStore.getCachedBills()).filter(bill => {
+        const text = [
+          bill.billNumber,
+          bill.customerName,
+          bill.customerPhone,
+          bill.sellerName,
+          bill.notes,
+          ...bill.items.map(item => item.name),
+        ].join(' ').toLowerCase();
+        return matchesBillQuery(bill, query) &&
+          words.every(word => text.includes(word)) &&
+          (query.minAmount === undefined || bill.grandTotal >= query.minAmount) &&
+          (query.maxAmount === undefined || bill.grandTotal <= query.maxAmount);
+      });
+      return { bills, total: bills.length, nextCursor: null };
+    }
+  },
+
   // Get bill by number (for checking uniqueness)
   getBillByNumber: async (billNumber: string): Promise<Bill | null> => {
     try {
@@ -78,6 +230,18 @@ export const billAPI = {
     return data.report;
   },
 
+  // Per-day sales totals for the shop days from..to (YYYY-MM-DD)
+  getDailySummary: async (from: string, to: string = from): Promise<DailySummary[]> => {
+    const params = new URLSearchParams({ from, to });
+    const data = await apiCall(`/get-daily-summary?${params}`);
+    return data.days;
+  },
+
+  // Recompute the daily sales rollups from the stored bills (admin)
+  rebuildRollups: async (): Promise<void> => {
+    await apiCall('/rebuild-rollups', { method: 'POST' });
+  },
+
   // Update bill
   updateBill: async (bill: Bill): Promise<Bill> => {
     const data = await apiCall('/update-bill', {
@@ -87,11 +251,29 @@ export const billAPI = {
     return data.bill;
   },
 
-  // Delete bill
-  deleteBill: async (billNumber: string): Promise<void> => {
-    await apiCall(`/delete-bill/${encodeURIComponent(billNumber)}`, {
-      method: 'DELETE',
+  // Cancel (void) a bill. The number stays taken and the items go back into stock.
+  // Sellers can cancel their own bills within the cancel window; admins any bill.
+  voidBill: async (billNumber: string, reason: string): Promise<Bill> => {
+    const data = await apiCall('/void-bill', {
+      method: 'POST',
+      body: JSON.stringify({ billNumber, reason }),
+    });
+    return data.bill;
+  },
+
+  // Get every stored version of a bill, newest first
+  getBillHistory: async (billNumber: string): Promise<BillAuditEvent[]> => {
+    const data = await apiCall(`/get-bill-history/${encodeURIComponent(billNumber)}`);
+    return data.events;
+  },
+
+  // Restore a bill to an earlier version (admin); the restore becomes a new version
+  restoreBillVersion: async (billNumber: string, version: number): Promise<Bill> => {
+    const data = await apiCall('/restore-bill-version', {
+      method: 'POST',
+      body: JSON.stringify({ billNumber, version }),
     });
+    return data.bill;
   },
 };
 
@@ -107,18 +289,47 @@ export const stockAPI = {
   
   // Get all stock items
   getAllStock: async (): Promise<StockItem[]> => {
-    const data = await apiCall('/get-stock');
-    return data.stock;
+    try {
+      const data = await apiCall('/get-stock');
+      mirror(() => offlineStore.cacheStock(data.stock));
+      return data.stock;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      return offlineStore.getCachedStock();
+    }
   },
   
-  // Update stock item
-  updateStock: async (id: string, updates: Partial<StockItem>): Promise<StockItem> => {
+  // Update stock item (quantity changes are logged as adjustments with the note)
+  updateStock: async (id: string, updates: Partial<StockItem>, note?: string): Promise<StockItem> => {
     const data = await apiCall('/update-stock', {
       method: 'POST',
-      body: JSON.stringify({ id, updates }),
+      body: JSON.stringify({ id, updates, note }),
     });
     return data.item;
   },
+
+  // Get ledger movements for a stock item, newest first
+  getMovements: async (id: string): Promise<StockMovement[]> => {
+    const data = await apiCall(`/get-stock-movements/${id}`);
+    return data.movements;
+  },
+
+  // Create or update many stock items at once, matched by barcode then name (admin)
+  importStock: async (items: StockImportItem[]): Promise<StockImportResult> => {
+    const data = await apiCall('/import-stock', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+    return { created: data.created, updated: data.updated, errors: data.errors };
+  },
+
+  // Reconcile stock quantities against the ledger
+  reconcileStock: async (): Promise<Array<{ stockId: string; name: string; from: number; to: number }>> => {
+    const data = await apiCall('/reconcile-stock', {
+      method: 'POST',
+    });
+    return data.corrections;
+  },
   
   // Delete stock item
   deleteStock: async (id: string): Promise<void> => {
@@ -128,6 +339,198 @@ export const stockAPI = {
   },
 };
 
+export const customerAPI = {
+  // Add a customer
+  addCustomer: async (customer: Omit<Customer, 'id' | 'createdAt'>): Promise<Customer> => {
+    const data = await apiCall('/add-customer', {
+      method: 'POST',
+      body: JSON.stringify(customer),
+    });
+    return data.customer;
+  },
+
+  // Get all customers
+  getAllCustomers: async (): Promise<Customer[]> => {
+    const data = await apiCall('/get-customers');
+    return data.customers;
+  },
+
+  // Update a customer
+  updateCustomer: async (id: string, updates: Partial<Customer>): Promise<Customer> => {
+    const data = await apiCall('/update-customer', {
+      method: 'POST',
+      body: JSON.stringify({ id, updates }),
+    });
+    return data.customer;
+  },
+
+  // Delete a customer
+  deleteCustomer: async (id: string): Promise<void> => {
+    await apiCall(`/delete-customer/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Customers with unpaid bills
+  getReceivables: async (): Promise<CustomerReceivable[]> => {
+    const data = await apiCall('/get-receivables');
+    return data.receivables;
+  },
+
+  // Bills, payments and returns on a customer's account with the running balance,
+  // a page at a time, newest first; pass the returned nextCursor for the next page
+  getLedger: async (customerId: string, cursor?: string | null, limit = 50): Promise<LedgerPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    const data = await apiCall(`/get-customer-ledger/${customerId}?${params}`);
+    return { ledger: data.ledger, balance: data.balance, nextCursor: data.nextCursor };
+  },
+
+  // Bill count, totals billed and returned, and balance owed
+  getSummary: async (customerId: string): Promise<CustomerSummary> => {
+    const data = await apiCall(`/get-customer-summary/${customerId}`);
+    return data.summary;
+  },
+
+  // Receive a payment and settle the given bills (oldest first when none are given)
+  receivePayment: async (payment: {
+    customerId: string;
+    amount: number;
+    mode: PaymentReceipt['mode'];
+    reference?: string;
+    billNumbers?: string[];
+  }): Promise<PaymentReceipt> => {
+    const data = await apiCall('/receive-payment', {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    });
+    return data.receipt;
+  },
+};
+
+export const supplierAPI = {
+  // Add new supplier
+  addSupplier: async (supplier: Omit<Supplier, 'id' | 'createdAt'>): Promise<Supplier> => {
+    const data = await apiCall('/add-supplier', {
+      method: 'POST',
+      body: JSON.stringify(supplier),
+    });
+    return data.supplier;
+  },
+
+  // Get all suppliers
+  getAllSuppliers: async (): Promise<Supplier[]> => {
+    const data = await apiCall('/get-suppliers');
+    return data.suppliers;
+  },
+
+  // Update supplier
+  updateSupplier: async (id: string, updates: Partial<Supplier>): Promise<Supplier> => {
+    const data = await apiCall('/update-supplier', {
+      method: 'POST',
+      body: JSON.stringify({ id, updates }),
+    });
+    return data.supplier;
+  },
+
+  // Delete supplier
+  deleteSupplier: async (id: string): Promise<void> => {
+    await apiCall(`/delete-supplier/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Record a payment to a supplier
+  addPayment: async (payment: Omit<SupplierPayment, 'id'>): Promise<SupplierPayment> => {
+    const data = await apiCall('/add-supplier-payment', {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    });
+    return data.payment;
+  },
+
+  // Get supplier-wise payables summary
+  getPayables: async (): Promise<SupplierPayable[]> => {
+    const data = await apiCall('/get-payables');
+    return data.payables;
+  },
+};
+
+export const purchaseAPI = {
+  // Record a purchase bill (adds stock and updates average cost)
+  createPurchase: async (purchase: Omit<Purchase, 'id' | 'createdAt' | 'supplierName'>): Promise<Purchase> => {
+    const data = await apiCall('/create-purchase', {
+      method: 'POST',
+      body: JSON.stringify(purchase),
+    });
+    return data.purchase;
+  },
+
+  // Get purchases, optionally for one supplier
+  getPurchases: async (supplierId?: string): Promise<Purchase[]> => {
+    const query = supplierId ? `?supplierId=${encodeURIComponent(supplierId)}` : '';
+    const data = await apiCall(`/get-purchases${query}`);
+    return data.purchases;
+  },
+};
+
+export const creditNoteAPI = {
+  // Return items from a bill (puts them back in stock)
+  createCreditNote: async (creditNote: {
+    billNumber: string;
+    items: Array<{ id: string; quantity: number }>;
+    refundMode?: CreditNote['refundMode'];
+    reason?: string;
+  }): Promise<CreditNote> => {
+    const data = await apiCall('/create-credit-note', {
+      method: 'POST',
+      body: JSON.stringify(creditNote),
+    });
+    return data.creditNote;
+  },
+
+  // Get the credit notes of the given bills, or the latest `limit` credit notes
+  getCreditNotes: async (billNumbers?: string[], limit?: number): Promise<CreditNote[]> => {
+    const params = new URLSearchParams();
+    if (billNumbers) params.set('billNumbers', billNumbers.join(','));
+    if (limit) params.set('limit', String(limit));
+    const query = params.toString();
+    const data = await apiCall(`/get-credit-notes${query ? `?${query}` : ''}`);
+    return data.creditNotes;
+  },
+};
+
+export const draftAPI = {
+  // Park a bill in progress for the signed-in seller
+  saveDraft: async (draft: ParkedBill): Promise<ParkedBill> => {
+    const data = await apiCall('/save-draft', {
+      method: 'POST',
+      body: JSON.stringify(draft),
+    });
+    return data.draft;
+  },
+
+  // Get the signed-in seller's parked bills, newest first
+  getDrafts: async (): Promise<ParkedBill[]> => {
+    const data = await apiCall('/get-drafts');
+    return data.drafts;
+  },
+
+  // Discard a parked bill
+  deleteDraft: async (id: string): Promise<void> => {
+    await apiCall(`/delete-draft/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Older settings stored the GSTIN under `gstin`
+function withLegacySettings(settings: (BusinessSettings & { gstin?: string }) | null): BusinessSettings | null {
+  if (!settings) return null;
+  const { gstin, ...rest } = settings;
+  return { ...rest, gst: rest.gst ?? gstin ?? '' };
+}
+
 export const settingsAPI = {
   // Save business settings
   saveSettings: async (settings: BusinessSettings): Promise<BusinessSettings> => {
@@ -140,7 +543,13 @@ export const settingsAPI = {
   
   // Get business settings
   getSettings: async (): Promise<BusinessSettings | null> => {
-    const data = await apiCall('/get-settings');
-    return data.settings;
+    try {
+      const data = await apiCall('/get-settings');
+      mirror(() => offlineStore.cacheSettings(data.settings));
+      return withLegacySettings(data.settings);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      return withLegacySettings(await offlineStore.getCachedSettings());
+    }
   },
 };
\ No newline at end of file
@@ -0,0 +1,104 @@
+// Barcode / SKU lookup and keyboard-wedge scanner support
+// A wedge scanner "types" the code followed by Enter, much faster than a person can.
+
+import { useEffect, useRef } from 'react';
+import type { StockItem } from '../types';
+
+// Codes shorter than this are treated as ordinary typing
+const MIN_SCAN_LENGTH = 4;
+// Longest gap between keystrokes from a scanner
+const MAX_KEY_INTERVAL_MS = 50;
+
+// Trim, drop blanks and duplicates. Accepts a list or comma/newline separated text.
+export function normalizeBarcodes(codes: string[] | string | undefined): string[] {
+  const list = typeof codes === 'string' ? codes.split(/[,\n]/) : codes || [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const code of list) {
+    const trimmed = String(code).trim();
+    if (!trimmed || seen.has(trimmed.toUpperCase())) continue;
+    seen.add(trimmed.toUpperCase());
+    result.push(trimmed);
+  }
+  return result;
+}
+
+// Stock item carrying this barcode or SKU (case-insensitive)
+export function findStockByCode(stockItems: StockItem[], code: string): StockItem | undefined {
+  const wanted = code.trim().toUpperCase();
+  if (!wanted) return undefined;
+  return stockItems.find(stock => stock.barcodes?.some(barcode => barcode.toUpperCase() === wanted));
+}
+
+// EAN-13 check digit for the first 12 digits: odd positions weigh 1, even positions 3
+export function ean13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+}
+
+// Numeric EAN-13 codes print as EAN-13; anything else (shop SKUs) as Code128
+export function getBarcodeFormat(code: string): 'EAN13' | 'CODE128' {
+  return isValidEan13(code) ? 'EAN13' : 'CODE128';
+}
+
+// Prefix 20-29 is reserved for in-store numbering, so generated codes never
+// clash with a manufacturer's barcode
+const IN_STORE_PREFIX = '20';
+
+// Next unused in-store EAN-13 after the highest one already assigned
+export function generateEan13(existingCodes: string[]): string {
+  const highest = existingCodes
+    .filter(code => isValidEan13(code) && code.startsWith(IN_STORE_PREFIX))
+    .reduce((max, code) => Math.max(max, Number(code.slice(IN_STORE_PREFIX.length, 12))), 0);
+  const body = IN_STORE_PREFIX + String(highest + 1).padStart(12 - IN_STORE_PREFIX.length, '0');
+  return body + ean13CheckDigit(body);
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Listen for scans while nothing editable has focus. Fields meant to take scans
+// (like the item code box on the bill) handle Enter themselves.
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handler = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditableTarget(e.target)) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+        buffer = '';
+      }
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_SCAN_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [enabled]);
+}
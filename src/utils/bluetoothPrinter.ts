@@ -1,6 +1,9 @@
 // Bluetooth Thermal Printer Utility for 58mm (2-inch) printers
 // Uses ESC/POS commands for thermal printing
 
+import type { TaxSummaryRow } from './gst';
+import type { ShelfLabel } from './labels';
+
 export interface PrinterDevice {
   device: BluetoothDevice;
   characteristic: BluetoothRemoteGATTCharacteristic | null;
@@ -177,6 +180,35 @@ class BluetoothPrinterService {
     return this.buildCommand(GS, 0x56, 0x00);
   }
 
+  // QR code via GS ( k: select model 2, set module size and error
+  // correction, store the data, then print the stored symbol
+  private qrCode(data: string, moduleSize: number = 6): Uint8Array {
+    const bytes = this.textToBytes(data);
+    const length = bytes.length + 3;
+    return this.combineArrays(
+      this.buildCommand(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00),
+      this.buildCommand(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize),
+      this.buildCommand(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31),
+      this.buildCommand(GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30),
+      bytes,
+      this.buildCommand(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30)
+    );
+  }
+
+  // 1D barcode via GS k (function B): set height, module width and the
+  // human-readable text below, then print. EAN-13 takes the 12 data digits
+  // and the printer adds the check digit; Code128 data starts with code set B.
+  private barcode(data: string, format: ShelfLabel['format']): Uint8Array {
+    const bytes = format === 'EAN13' ? this.textToBytes(data.slice(0, 12)) : this.textToBytes(`{B${data}`);
+    return this.combineArrays(
+      this.buildCommand(GS, 0x68, 60), // GS h - height in dots
+      this.buildCommand(GS, 0x77, 2), // GS w - module width
+      this.buildCommand(GS, 0x48, 2), // GS H - text below the bars
+      this.buildCommand(GS, 0x6b, format === 'EAN13' ? 67 : 73, bytes.length),
+      bytes
+    );
+  }
+
   // Line feed
   private lineFeed(): Uint8Array {
     return this.textToBytes('\n');
@@ -213,9 +245,12 @@ class BluetoothPrinterService {
     phone?: string;
     email?: string;
     gst?: string;
+    isTaxInvoice?: boolean;
     billNumber: string;
     date: string;
     customerName?: string;
+    customerGstin?: string;
+    placeOfSupply?: string;
     sellerName?: string;
     paymentMode?: string;
     items: Array<{
@@ -226,14 +261,29 @@ class BluetoothPrinterService {
       discountType?: 'fixed' | 'percentage';
       discountValue?: number;
       discountAmount?: number;
+      hsnCode?: string;
+      gstRate?: number;
     }>;
     subtotal?: number;
     discountType?: 'fixed' | 'percentage';
     discountValue?: number;
     discountAmount?: number;
+    isInterState?: boolean;
+    taxableAmount?: number;
+    cgstTotal?: number;
+    sgstTotal?: number;
+    igstTotal?: number;
+    taxSummary?: TaxSummaryRow[];
     grandTotal: number;
+    payments?: Array<{ mode: string; amount: number; reference?: string; tendered?: number }>;
+    change?: number;
+    amountPaid?: number;
+    balanceDue?: number;
     notes?: string;
     termsAndConditions?: string;
+    upiPayUrl?: string;
+    cancelled?: boolean;
+    cancelReason?: string;
   }): Promise<void> {
     if (!this.isConnected()) {
       throw new Error('Printer not connected');
@@ -248,6 +298,10 @@ class BluetoothPrinterService {
       // Print business header (centered, bold, larger)
       commands.push(this.setAlignment(1)); // Center
       commands.push(this.setBold(true));
+      if (billData.isTaxInvoice) {
+        commands.push(this.textToBytes('TAX INVOICE'));
+        commands.push(this.lineFeed());
+      }
       commands.push(this.setTextSize(2, 2));
       commands.push(this.textToBytes(billData.businessName.toUpperCase()));
       commands.push(this.lineFeed());
@@ -268,10 +322,25 @@ class BluetoothPrinterService {
         commands.push(this.lineFeed());
       }
       if (billData.gst) {
-        commands.push(this.textToBytes(`GST: ${billData.gst}`));
+        commands.push(this.textToBytes(`GSTIN: ${billData.gst}`));
         commands.push(this.lineFeed());
       }
 
+      // A reprint of a cancelled bill must not pass for a valid one
+      if (billData.cancelled) {
+        commands.push(this.separator('='));
+        commands.push(this.setBold(true));
+        commands.push(this.setTextSize(2, 2));
+        commands.push(this.textToBytes('CANCELLED'));
+        commands.push(this.lineFeed());
+        commands.push(this.setTextSize(1, 1));
+        commands.push(this.setBold(false));
+        if (billData.cancelReason) {
+          commands.push(this.textToBytes(billData.cancelReason));
+          commands.push(this.lineFeed());
+        }
+      }
+
       // Separator
       commands.push(this.separator('='));
 
@@ -287,6 +356,16 @@ class BluetoothPrinterService {
         commands.push(this.lineFeed());
       }
 
+      if (billData.customerGstin) {
+        commands.push(this.textToBytes(this.formatLine('GSTIN:', billData.customerGstin)));
+        commands.push(this.lineFeed());
+      }
+
+      if (billData.isTaxInvoice && billData.placeOfSupply) {
+        commands.push(this.textToBytes(`Place of Supply: ${billData.placeOfSupply}`));
+        commands.push(this.lineFeed());
+      }
+
       if (billData.sellerName) {
         commands.push(this.textToBytes(this.formatLine('Seller:', billData.sellerName)));
         commands.push(this.lineFeed());
@@ -320,6 +399,12 @@ class BluetoothPrinterService {
         commands.push(this.textToBytes(itemLine));
         commands.push(this.lineFeed());
 
+        if (billData.isTaxInvoice) {
+          const hsn = item.hsnCode ? `HSN:${item.hsnCode} ` : '';
+          commands.push(this.textToBytes(`  ${hsn}GST:${item.gstRate || 0}%`));
+          commands.push(this.lineFeed());
+        }
+
         // Print item discount if applicable
         if (hasDiscount) {
           const discountLabel = item.discountType === 'percentage'
@@ -355,6 +440,21 @@ class BluetoothPrinterService {
         commands.push(this.lineFeed());
       }
 
+      // Tax breakup
+      if (billData.isTaxInvoice) {
+        commands.push(this.textToBytes(this.formatLine('Taxable Value:', `Rs.${(billData.taxableAmount || 0).toFixed(2)}`)));
+        commands.push(this.lineFeed());
+        if (billData.isInterState) {
+          commands.push(this.textToBytes(this.formatLine('IGST:', `Rs.${(billData.igstTotal || 0).toFixed(2)}`)));
+          commands.push(this.lineFeed());
+        } else {
+          commands.push(this.textToBytes(this.formatLine('CGST:', `Rs.${(billData.cgstTotal || 0).toFixed(2)}`)));
+          commands.push(this.lineFeed());
+          commands.push(this.textToBytes(this.formatLine('SGST:', `Rs.${(billData.sgstTotal || 0).toFixed(2)}`)));
+          commands.push(this.lineFeed());
+        }
+      }
+
       // Total separator
       commands.push(this.separator('='));
 
@@ -368,6 +468,56 @@ class BluetoothPrinterService {
       commands.push(this.setBold(false));
       commands.push(this.setAlignment(0)); // Left align
 
+      // Split tender, one line per payment, then any change handed back
+      for (const payment of billData.payments || []) {
+        const label = payment.reference ? `${payment.mode || 'Paid'} ${payment.reference}` : payment.mode || 'Paid';
+        commands.push(this.textToBytes(this.formatLine(`${label}:`, `Rs.${(payment.tendered || payment.amount).toFixed(2)}`)));
+        commands.push(this.lineFeed());
+      }
+      if (billData.change && billData.change > 0) {
+        commands.push(this.textToBytes(this.formatLine('Change:', `Rs.${billData.change.toFixed(2)}`)));
+        commands.push(this.lineFeed());
+      }
+
+      // Part-paid or credit bill: what was paid and what is still owed
+      if (billData.balanceDue) {
+        commands.push(this.textToBytes(this.formatLine('Paid:', `Rs.${(billData.amountPaid || 0).toFixed(2)}`)));
+        commands.push(this.lineFeed());
+        commands.push(this.setBold(true));
+        commands.push(this.textToBytes(this.formatLine('Balance Due:', `Rs.${billData.balanceDue.toFixed(2)}`)));
+        commands.push(this.lineFeed());
+        commands.push(this.setBold(false));
+      }
+
+      // HSN-wise tax summary
+      if (billData.isTaxInvoice && billData.taxSummary && billData.taxSummary.length > 0) {
+        commands.push(this.separator('-'));
+        commands.push(this.setBold(true));
+        commands.push(this.textToBytes('TAX SUMMARY'));
+        commands.push(this.lineFeed());
+        commands.push(this.setBold(false));
+        for (const row of billData.taxSummary) {
+          commands.push(this.textToBytes(this.formatLine(`HSN ${row.hsnCode} @${row.gstRate}%`, row.taxableValue.toFixed(2))));
+          commands.push(this.lineFeed());
+          const taxLine = billData.isInterState
+            ? `  IGST ${row.igstAmount.toFixed(2)}`
+            : `  CGST ${row.cgstAmount.toFixed(2)} SGST ${row.sgstAmount.toFixed(2)}`;
+          commands.push(this.textToBytes(taxLine));
+          commands.push(this.lineFeed());
+        }
+      }
+
+      // UPI QR so the customer can pay the exact amount
+      if (billData.upiPayUrl) {
+        commands.push(this.separator('-'));
+        commands.push(this.setAlignment(1)); // Center
+        commands.push(this.textToBytes('Scan to pay with UPI'));
+        commands.push(this.lineFeed());
+        commands.push(this.qrCode(billData.upiPayUrl));
+        commands.push(this.lineFeed());
+        commands.push(this.setAlignment(0)); // Left align
+      }
+
       // Notes
       if (billData.notes) {
         commands.push(this.separator('-'));
@@ -389,6 +539,16 @@ class BluetoothPrinterService {
         }
       }
 
+      // Signature
+      if (billData.isTaxInvoice) {
+        commands.push(this.setAlignment(2)); // Right align
+        commands.push(this.lineFeed());
+        commands.push(this.textToBytes(`For ${billData.businessName}`));
+        commands.push(this.feedLines(2));
+        commands.push(this.textToBytes('Authorised Signatory'));
+        commands.push(this.lineFeed());
+      }
+
       // Footer
       commands.push(this.separator('='));
       commands.push(this.setAlignment(1)); // Center
@@ -413,6 +573,44 @@ class BluetoothPrinterService {
     }
   }
 
+  // Shelf labels / price tags, one after another on the roll
+  async printLabels(labels: ShelfLabel[]): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Printer not connected');
+    }
+
+    try {
+      const commands: Uint8Array[] = [this.initPrinter(), this.setAlignment(1)];
+
+      for (const label of labels) {
+        const name = label.name.length > 32 ? label.name.substring(0, 31) + '…' : label.name;
+        commands.push(this.setBold(true));
+        commands.push(this.textToBytes(name));
+        commands.push(this.lineFeed());
+        commands.push(this.setTextSize(2, 2));
+        commands.push(this.textToBytes(`Rs.${label.price.toFixed(2)}`));
+        commands.push(this.lineFeed());
+        commands.push(this.setTextSize(1, 1));
+        commands.push(this.setBold(false));
+        if (label.mrp && label.mrp > label.price) {
+          commands.push(this.textToBytes(`MRP Rs.${label.mrp.toFixed(2)}`));
+          commands.push(this.lineFeed());
+        }
+        commands.push(this.barcode(label.barcode, label.format));
+        commands.push(this.lineFeed());
+        commands.push(this.separator('-'));
+      }
+
+      commands.push(this.feedLines(3));
+      commands.push(this.cutPaper());
+
+      await this.sendData(this.combineArrays(...commands));
+    } catch (error) {
+      console.error('Label print error:', error);
+      throw new Error('Failed to print labels. Please check printer connection.');
+    }
+  }
+
   // Test print function
   async testPrint(): Promise<void> {
     if (!this.isConnected()) {
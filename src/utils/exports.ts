@@ -0,0 +1,201 @@
+// Spreadsheet exports of bills, line items, payment summaries and stock
+// Built in the browser from the same filtered data the screens show, and saved
+// as CSV (UTF-8 with a BOM so Excel keeps ₹ and non-Latin names intact) or XLSX.
+
+import type { Bill, BillPage, StockItem } from '../types';
+import { getPaymentLabel, getSalePayments } from './payments';
+import { getSellingPrice } from './pricing';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+type CellValue = string | number | undefined | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+// Bills fetched per request while gathering everything a filter matches
+const EXPORT_PAGE_SIZE = 100;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Local date and time as YYYY-MM-DD HH:MM, which spreadsheets sort and parse reliably
+export function formatExportDate(dateString: string): string {
+  const date = new Date(dateString);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// File name with the period it covers, e.g. bill-register_2026-04-01_2027-03-31
+export function exportFileName(name: string, from?: string, to?: string): string {
+  const day = (date: string) => formatExportDate(date).split(' ')[0];
+  return [name, from && day(from), to && day(to)].filter(Boolean).join('_');
+}
+
+// Every page of a listing, for exports that must cover the whole filter
+export async function fetchAllBills(fetchPage: (cursor: string | null, limit: number) => Promise<BillPage>): Promise<Bill[]> {
+  const bills: Bill[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchPage(cursor, EXPORT_PAGE_SIZE);
+    bills.push(...page.bills);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return bills;
+}
+
+const billStatus = (bill: Bill) => (bill.voided ? 'Cancelled' : bill.pendingSync ? 'Pending sync' : 'Active');
+
+// One row per bill
+export const BILL_REGISTER_COLUMNS: ExportColumn<Bill>[] = [
+  { header: 'Bill No', value: bill => bill.billNumber },
+  { header: 'Date', value: bill => formatExportDate(bill.date) },
+  { header: 'Customer', value: bill => bill.customerName || 'Walk-in Customer' },
+  { header: 'Phone', value: bill => bill.customerPhone },
+  { header: 'Customer GSTIN', value: bill => bill.customerGstin },
+  { header: 'Seller', value: bill => bill.sellerName },
+  { header: 'Items', value: bill => bill.items.length },
+  { header: 'Subtotal', value: bill => bill.subtotal },
+  { header: 'Discount', value: bill => bill.discountAmount || 0 },
+  { header: 'Taxable Value', value: bill => bill.taxableAmount },
+  { header: 'CGST', value: bill => bill.cgstTotal },
+  { header: 'SGST', value: bill => bill.sgstTotal },
+  { header: 'IGST', value: bill => bill.igstTotal },
+  { header: 'Total Tax', value: bill => bill.taxTotal },
+  { header: 'Grand Total', value: bill => bill.grandTotal },
+  { header: 'Payment', value: bill => getPaymentLabel(bill) },
+  { header: 'Paid at Sale', value: bill => round2(getSalePayments(bill).reduce((sum, payment) => sum + payment.amount, 0)) },
+  { header: 'Balance Due', value: bill => bill.balanceDue || 0 },
+  { header: 'Status', value: bill => billStatus(bill) },
+  { header: 'Cancel Reason', value: bill => bill.voidReason },
+];
+
+export interface LineItemRow {
+  bill: Bill;
+  item: Bill['items'][number];
+}
+
+// One row per item on each bill
+export const LINE_ITEM_COLUMNS: ExportColumn<LineItemRow>[] = [
+  { header: 'Bill No', value: ({ bill }) => bill.billNumber },
+  { header: 'Date', value: ({ bill }) => formatExportDate(bill.date) },
+  { header: 'Customer', value: ({ bill }) => bill.customerName || 'Walk-in Customer' },
+  { header: 'Seller', value: ({ bill }) => bill.sellerName },
+  { header: 'Item', value: ({ item }) => item.name },
+  { header: 'HSN', value: ({ item }) => item.hsnCode },
+  { header: 'Quantity', value: ({ item }) => item.quantity },
+  { header: 'Rate', value: ({ item }) => item.rate },
+  { header: 'MRP', value: ({ item }) => item.mrp },
+  { header: 'Discount', value: ({ item }) => item.discountAmount || 0 },
+  { header: 'Amount', value: ({ item }) => item.total },
+  { header: 'Taxable Value', value: ({ item }) => item.taxableValue },
+  { header: 'GST %', value: ({ item }) => item.gstRate },
+  { header: 'CGST', value: ({ item }) => item.cgstAmount },
+  { header: 'SGST', value: ({ item }) => item.sgstAmount },
+  { header: 'IGST', value: ({ item }) => item.igstAmount },
+  { header: 'Bill Status', value: ({ bill }) => billStatus(bill) },
+];
+
+export function getLineItemRows(bills: Bill[]): LineItemRow[] {
+  return bills.flatMap(bill => bill.items.map(item => ({ bill, item })));
+}
+
+export interface PaymentModeRow {
+  mode: string;
+  amount: number;
+  share: number;
+}
+
+export const PAYMENT_MODE_COLUMNS: ExportColumn<PaymentModeRow>[] = [
+  { header: 'Payment Mode', value: row => row.mode },
+  { header: 'Amount', value: row => row.amount },
+  { header: 'Share %', value: row => row.share },
+];
+
+// Net takings per mode (sales less refunds), largest first, with a total row
+export function getPaymentModeRows(paymentModes: Record<string, number>): PaymentModeRow[] {
+  const total = Object.values(paymentModes).reduce((sum, amount) => sum + amount, 0);
+  const rows = Object.entries(paymentModes)
+    .map(([mode, amount]) => ({
+      mode: mode || 'Not Specified',
+      amount: round2(amount),
+      share: total ? round2((amount / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+  return [...rows, { mode: 'Total', amount: round2(total), share: total ? 100 : 0 }];
+}
+
+export const STOCK_COLUMNS: ExportColumn<StockItem>[] = [
+  { header: 'Item', value: stock => stock.name },
+  { header: 'Category', value: stock => stock.category },
+  { header: 'Barcodes', value: stock => stock.barcodes?.join(', ') },
+  { header: 'Quantity', value: stock => stock.quantity },
+  { header: 'Purchase Rate', value: stock => stock.purchaseRate },
+  { header: 'Average Cost', value: stock => stock.averageCost },
+  { header: 'Selling Price', value: stock => getSellingPrice(stock) },
+  { header: 'Wholesale Price', value: stock => stock.wholesalePrice },
+  { header: 'MRP', value: stock => stock.mrp },
+  { header: 'HSN', value: stock => stock.hsnCode },
+  { header: 'GST %', value: stock => stock.gstRate },
+  {
+    header: 'Stock Value',
+    value: stock => {
+      const cost = stock.averageCost ?? stock.purchaseRate;
+      return cost === undefined ? undefined : round2(cost * stock.quantity);
+    },
+  },
+];
+
+// Text that a spreadsheet would run as a formula is quoted with a leading apostrophe
+const escapeFormula = (text: string) => (/^[=+\-@]/.test(text) ? `'${text}` : text);
+
+function toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+  const cell = (value: CellValue) => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'number') return String(value);
+    const text = escapeFormula(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    columns.map(column => cell(column.header)),
+    ...rows.map(row => columns.map(column => cell(column.value(row)))),
+  ];
+  return '\uFEFF' + lines.map(line => line.join(',')).join('\r\n');
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Save rows as <fileName>.csv or <fileName>.xlsx. The spreadsheet library is
+// only loaded the first time an XLSX is asked for.
+export async function exportTable<T>(
+  fileName: string,
+  sheetName: string,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  format: ExportFormat
+): Promise<void> {
+  if (format === 'csv') {
+    saveBlob(new Blob([toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    return;
+  }
+
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet([
+    columns.map(column => column.header),
+    ...rows.map(row => columns.map(column => column.value(row) ?? '')),
+  ]);
+  sheet['!cols'] = columns.map(column => ({ wch: Math.max(10, column.header.length + 2) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+}
@@ -0,0 +1,169 @@
+// GST helpers for tax invoices
+// Works out taxable value and CGST/SGST (intra-state) or IGST (inter-state) per bill line
+
+import type { BillItem } from '../types';
+
+// Standard GST slabs
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+// States and union territories with their GST state codes
+export const INDIAN_STATES: Array<{ code: string; name: string }> = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+export function getStateName(code?: string): string {
+  if (!code) return '';
+  return INDIAN_STATES.find(s => s.code === code)?.name || code;
+}
+
+// The first two digits of a GSTIN are the state code
+export function getStateFromGstin(gstin?: string): string | undefined {
+  const code = gstin?.trim().substring(0, 2);
+  return code && INDIAN_STATES.some(s => s.code === code) ? code : undefined;
+}
+
+// Supply is inter-state only when both states are known and differ
+export function isInterStateSupply(businessState?: string, customerState?: string): boolean {
+  return !!businessState && !!customerState && businessState !== customerState;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface TaxSummaryRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface BillTaxResult {
+  items: BillItem[];
+  taxableAmount: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  igstTotal: number;
+  taxTotal: number;
+  grandTotal: number;
+}
+
+// Calculate tax for every line. The bill-level discount is spread across
+// lines in proportion to their value so the taxable value reflects it.
+export function calculateBillTax(
+  items: BillItem[],
+  billDiscountAmount: number,
+  options: { interState: boolean; pricesIncludeTax: boolean }
+): BillTaxResult {
+  const subtotal = items.reduce((sum, item) => sum + item.total, 0);
+
+  let taxableAmount = 0;
+  let cgstTotal = 0;
+  let sgstTotal = 0;
+  let igstTotal = 0;
+
+  const taxedItems = items.map(item => {
+    const rate = Number(item.gstRate) || 0;
+    const discountShare = subtotal > 0 ? (item.total / subtotal) * billDiscountAmount : 0;
+    const lineValue = Math.max(0, item.total - discountShare);
+
+    const taxableValue = round2(options.pricesIncludeTax ? lineValue / (1 + rate / 100) : lineValue);
+    const tax = options.pricesIncludeTax ? round2(lineValue - taxableValue) : round2((taxableValue * rate) / 100);
+
+    let cgstAmount = 0;
+    let sgstAmount = 0;
+    let igstAmount = 0;
+
+    if (options.interState) {
+      igstAmount = tax;
+    } else {
+      cgstAmount = round2(tax / 2);
+      sgstAmount = round2(tax - cgstAmount);
+    }
+
+    taxableAmount += taxableValue;
+    cgstTotal += cgstAmount;
+    sgstTotal += sgstAmount;
+    igstTotal += igstAmount;
+
+    return {
+      ...item,
+      gstRate: rate,
+      taxableValue,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+    };
+  });
+
+  const taxTotal = round2(cgstTotal + sgstTotal + igstTotal);
+  const netTotal = Math.max(0, subtotal - billDiscountAmount);
+
+  return {
+    items: taxedItems,
+    taxableAmount: round2(taxableAmount),
+    cgstTotal: round2(cgstTotal),
+    sgstTotal: round2(sgstTotal),
+    igstTotal: round2(igstTotal),
+    taxTotal,
+    grandTotal: round2(options.pricesIncludeTax ? netTotal : taxableAmount + taxTotal),
+  };
+}
+
+// Group taxed lines by HSN code and rate for the invoice tax summary
+export function getTaxSummary(items: BillItem[]): TaxSummaryRow[] {
+  const rows: Record<string, TaxSummaryRow> = {};
+
+  for (const item of items) {
+    const hsnCode = item.hsnCode || '-';
+    const gstRate = Number(item.gstRate) || 0;
+    const key = `${hsnCode}|${gstRate}`;
+
+    if (!rows[key]) {
+      rows[key] = { hsnCode, gstRate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+    }
+
+    rows[key].taxableValue = round2(rows[key].taxableValue + (item.taxableValue ?? item.total));
+    rows[key].cgstAmount = round2(rows[key].cgstAmount + (item.cgstAmount || 0));
+    rows[key].sgstAmount = round2(rows[key].sgstAmount + (item.sgstAmount || 0));
+    rows[key].igstAmount = round2(rows[key].igstAmount + (item.igstAmount || 0));
+  }
+
+  return Object.values(rows).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate);
+}
@@ -0,0 +1,101 @@
+// Shelf labels / price tags for stock items, printed as a browser sheet
+// or on the Bluetooth thermal printer
+
+import JsBarcode from 'jsbarcode';
+import type { PriceTier, StockItem } from '../types';
+import { getBarcodeFormat } from './barcode';
+import { getSellingPrice } from './pricing';
+
+export interface ShelfLabel {
+  name: string;
+  price: number;
+  mrp?: number;
+  barcode: string;
+  format: 'EAN13' | 'CODE128';
+}
+
+// One label per copy; items without a barcode can't be labelled
+export function buildShelfLabels(
+  items: Array<{ stock: StockItem; copies: number }>,
+  priceTier: PriceTier = 'retail'
+): ShelfLabel[] {
+  const labels: ShelfLabel[] = [];
+  for (const { stock, copies } of items) {
+    const barcode = stock.barcodes?.[0];
+    if (!barcode) continue;
+    const label = {
+      name: stock.name,
+      price: getSellingPrice(stock, priceTier),
+      mrp: stock.mrp,
+      barcode,
+      format: getBarcodeFormat(barcode),
+    };
+    for (let copy = 0; copy < copies; copy++) {
+      labels.push(label);
+    }
+  }
+  return labels;
+}
+
+// Barcode as standalone SVG markup
+export function renderBarcodeSvg(label: ShelfLabel): string {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  JsBarcode(svg, label.barcode, {
+    format: label.format,
+    width: 1.4,
+    height: 36,
+    fontSize: 11,
+    margin: 0,
+  });
+  return svg.outerHTML;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const formatPrice = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+// Open the labels as an A4 sheet (3 across, 38mm tall) in a new window and print it
+export function printLabelSheet(labels: ShelfLabel[]): void {
+  const sheet = window.open('', '_blank', 'width=800,height=600');
+  if (!sheet) {
+    throw new Error('Allow pop-ups for this site to print labels');
+  }
+
+  const cells = labels
+    .map(label => `
+      <div class="label">
+        <div class="name">${escapeHtml(label.name)}</div>
+        <div class="price">${formatPrice(label.price)}${
+          label.mrp && label.mrp > label.price ? ` <span class="mrp">MRP ${formatPrice(label.mrp)}</span>` : ''
+        }</div>
+        ${renderBarcodeSvg(label)}
+      </div>`)
+    .join('');
+
+  sheet.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Shelf Labels</title>
+  <style>
+    @page { size: A4; margin: 8mm; }
+    body { margin: 0; font-family: Arial, sans-serif; }
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 2mm; }
+    .label { height: 38mm; border: 1px dashed #ccc; padding: 2mm; box-sizing: border-box;
+             display: flex; flex-direction: column; align-items: center; justify-content: space-between;
+             overflow: hidden; break-inside: avoid; }
+    .name { font-size: 11pt; font-weight: bold; text-align: center; max-height: 2.4em; overflow: hidden; }
+    .price { font-size: 14pt; font-weight: bold; }
+    .mrp { font-size: 8pt; font-weight: normal; text-decoration: line-through; color: #555; }
+    svg { max-width: 100%; }
+  </style>
+</head>
+<body>
+  <div class="sheet">${cells}</div>
+</body>
+</html>`);
+  sheet.document.close();
+  sheet.focus();
+  sheet.print();
+}
@@ -0,0 +1,128 @@
+// IndexedDB mirror of the data a seller needs to keep billing offline
+// Bills, stock and settings are refreshed on every successful fetch; bills saved
+// while offline wait in the pendingBills store until they can be synced.
+
+import type { Bill, BusinessSettings, PendingBill, StockItem } from '../types';
+
+const DB_NAME = 'rajstore-offline';
+const DB_VERSION = 1;
+
+const BILLS = 'bills';
+const STOCK = 'stock';
+const SETTINGS = 'settings';
+const PENDING_BILLS = 'pendingBills';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(BILLS, { keyPath: 'billNumber' });
+        db.createObjectStore(STOCK, { keyPath: 'id' });
+        db.createObjectStore(SETTINGS);
+        db.createObjectStore(PENDING_BILLS, { keyPath: 'localId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one transaction and resolve with the request's result once it commits
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Replace a store's contents with a fresh server snapshot
+function replaceAll<T>(storeName: string, items: T[]) {
+  return withStore<void>(storeName, 'readwrite', store => {
+    store.clear();
+    items.forEach(item => store.put(item));
+  });
+}
+
+export const offlineStore = {
+  // Bills arrive a page at a time, so each page is added to what is already cached
+  cacheBills: (bills: Bill[]) =>
+    withStore<void>(BILLS, 'readwrite', store => {
+      bills.forEach(bill => store.put(bill));
+    }),
+
+  getCachedBills: async (): Promise<Bill[]> => {
+    const bills = await withStore<Bill[]>(BILLS, 'readonly', store => store.getAll());
+    return bills.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  },
+
+  cacheStock: (items: StockItem[]) => replaceAll(STOCK, items),
+
+  getCachedStock: () => withStore<StockItem[]>(STOCK, 'readonly', store => store.getAll()),
+
+  // Take sold quantities out of the cached stock so later offline bills see them
+  deductCachedStock: async (items: Bill['items']) => {
+    const stock = await offlineStore.getCachedStock();
+    const byId = new Map(stock.map(item => [item.id, item]));
+    await withStore<void>(STOCK, 'readwrite', store => {
+      for (const item of items) {
+        const stockItem = item.stockId ? byId.get(item.stockId) : undefined;
+        if (stockItem) {
+          stockItem.quantity = (Number(stockItem.quantity) || 0) - (Number(item.quantity) || 0);
+          store.put(stockItem);
+        }
+      }
+    });
+  },
+
+  cacheSettings: (settings: BusinessSettings | null) =>
+    withStore<void>(SETTINGS, 'readwrite', store => {
+      store.put(settings, 'business');
+    }),
+
+  getCachedSettings: async (): Promise<BusinessSettings | null> => {
+    const settings = await withStore<BusinessSettings | undefined>(SETTINGS, 'readonly', store => store.get('business'));
+    return settings || null;
+  },
+
+  savePendingBill: (pending: PendingBill) =>
+    withStore<void>(PENDING_BILLS, 'readwrite', store => {
+      store.put(pending);
+    }),
+
+  getPendingBills: async (): Promise<PendingBill[]> => {
+    const pending = await withStore<PendingBill[]>(PENDING_BILLS, 'readonly', store => store.getAll());
+    return pending.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  removePendingBill: (localId: string) =>
+    withStore<void>(PENDING_BILLS, 'readwrite', store => {
+      store.delete(localId);
+    }),
+
+  // Drop the mirrored data on logout. Pending bills are kept: they are real
+  // sales and sync once their seller signs in again.
+  clearCache: async () => {
+    await replaceAll(BILLS, []);
+    await replaceAll(STOCK, []);
+    await withStore<void>(SETTINGS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
@@ -0,0 +1,138 @@
+// Offline bill queue
+// Bills saved without a connection wait in IndexedDB and are sent to /create-bill
+// once the device is back online. Each carries a clientId so a retried sync can
+// never store the same sale twice.
+
+import { billAPI, ApiError, isNetworkError } from './api';
+import { offlineStore } from './offlineStore';
+import { supabase } from './supabase/client';
+import type { Bill, BillSyncResult, PendingBill, StockWarning } from '../types';
+
+// Provisional numbers printed on offline receipts until the server assigns the real one
+export const OFFLINE_BILL_PREFIX = 'OFFLINE-';
+
+// Syncs that keep finding the bill "already being synced" stop after this many
+// tries and show as failed, instead of waiting in the queue unseen
+const MAX_SYNC_CONFLICTS = 5;
+
+export interface SyncSummary {
+  synced: Array<{ localNumber: string; billNumber: string }>;
+  failed: number;
+  stockWarnings: StockWarning[];
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Subscribe to queue changes (bill queued, synced or failed)
+export function onPendingBillsChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener());
+}
+
+async function getSessionUserId(): Promise<string | undefined> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id;
+}
+
+// Save a bill on this device. A manually entered number is kept and tried
+// first on sync; otherwise the server assigns one from the bill's series.
+export async function queueOfflineBill(bill: Bill): Promise<Bill> {
+  const localId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const queuedBill: Bill = {
+    ...bill,
+    billNumber: bill.billNumber || `${OFFLINE_BILL_PREFIX}${Date.now().toString(36).toUpperCase()}`,
+    clientId: localId,
+  };
+
+  await offlineStore.savePendingBill({
+    localId,
+    bill: queuedBill,
+    requestedNumber: bill.billNumber || undefined,
+    sellerId: await getSessionUserId(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  });
+  await offlineStore.deductCachedStock(queuedBill.items);
+
+  notifyListeners();
+  return { ...queuedBill, pendingSync: true };
+}
+
+export async function getPendingBills(): Promise<PendingBill[]> {
+  const userId = await getSessionUserId();
+  return (await offlineStore.getPendingBills()).filter(pending => pending.sellerId === userId);
+}
+
+async function sendPendingBill(pending: PendingBill): Promise<BillSyncResult> {
+  const { pendingSync: _pendingSync, ...bill } = pending.bill;
+  try {
+    return await billAPI.syncBill({ ...bill, billNumber: pending.requestedNumber || '' });
+  } catch (error) {
+    // Someone else took the typed number while we were offline: use the series instead
+    if (error instanceof ApiError && error.code === 'duplicate-number' && pending.requestedNumber) {
+      return billAPI.syncBill({ ...bill, billNumber: '' });
+    }
+    throw error;
+  }
+}
+
+async function runSync(): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: [], failed: 0, stockWarnings: [] };
+  const queue = (await getPendingBills()).filter(pending => pending.status === 'pending');
+
+  for (const pending of queue) {
+    try {
+      const result = await sendPendingBill(pending);
+      await offlineStore.removePendingBill(pending.localId);
+      summary.synced.push({ localNumber: pending.bill.billNumber, billNumber: result.bill.billNumber });
+      summary.stockWarnings.push(...result.stockWarnings);
+    } catch (error) {
+      // Connection dropped again: stop and pick up from here next time
+      if (isNetworkError(error)) break;
+      const attempts = pending.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      // Another tab is probably syncing this bill right now: try again next time
+      if (error instanceof ApiError && error.status === 409 && attempts < MAX_SYNC_CONFLICTS) {
+        await offlineStore.savePendingBill({ ...pending, attempts, lastError });
+        continue;
+      }
+
+      // The server refused the bill. Keep it so the sale isn't lost and let the seller retry.
+      await offlineStore.savePendingBill({ ...pending, status: 'failed', attempts, lastError });
+      summary.failed++;
+    }
+  }
+
+  notifyListeners();
+  return summary;
+}
+
+let syncInProgress: Promise<SyncSummary> | null = null;
+
+// Send every queued bill of the signed-in seller, oldest first. Concurrent
+// calls share the same run.
+export function syncPendingBills(): Promise<SyncSummary> {
+  if (!syncInProgress) {
+    syncInProgress = runSync().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+}
+
+// Put bills the server rejected back in the queue and try again
+export async function retryFailedBills(): Promise<SyncSummary> {
+  const failed = (await getPendingBills()).filter(pending => pending.status === 'failed');
+  for (const pending of failed) {
+    await offlineStore.savePendingBill({ ...pending, status: 'pending' });
+  }
+  return syncPendingBills();
+}
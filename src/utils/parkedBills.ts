@@ -0,0 +1,125 @@
+// Parked (held) bills and the bill currently being built
+// Local storage keeps both across reloads and page changes on this device. Parked
+// bills are also saved on the server per seller so they can be resumed elsewhere;
+// a copy that hasn't reached the server yet stays local and is sent on the next load,
+// and a discard made offline is remembered until the server copy can be deleted.
+
+import type { ParkedBill } from '../types';
+import { draftAPI, isNetworkError } from './api';
+
+const parkedKey = (sellerId = '') => `parkedBills:${sellerId}`;
+const currentKey = (sellerId = '') => `currentBill:${sellerId}`;
+const discardedKey = (sellerId = '') => `discardedParkedBills:${sellerId}`;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function getLocalParkedBills(sellerId?: string): ParkedBill[] {
+  return readJson<ParkedBill[]>(parkedKey(sellerId), []);
+}
+
+function saveLocalParkedBills(sellerId: string | undefined, parked: ParkedBill[]) {
+  const sorted = [...parked].sort((a, b) => new Date(b.parkedAt).getTime() - new Date(a.parkedAt).getTime());
+  localStorage.setItem(parkedKey(sellerId), JSON.stringify(sorted));
+}
+
+// Send a parked bill to the server. Offline it stays local, unsynced.
+async function pushParkedBill(bill: ParkedBill): Promise<boolean> {
+  try {
+    await draftAPI.saveDraft(bill);
+    return true;
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error('Error saving parked bill:', error);
+    }
+    return false;
+  }
+}
+
+export async function parkBill(bill: ParkedBill): Promise<ParkedBill[]> {
+  const synced = await pushParkedBill(bill);
+  const parked = [{ ...bill, synced }, ...getLocalParkedBills(bill.sellerId).filter(p => p.id !== bill.id)];
+  saveLocalParkedBills(bill.sellerId, parked);
+  return getLocalParkedBills(bill.sellerId);
+}
+
+// Local and server copies merged. A synced local copy missing from the server
+// was resumed or discarded on another device, so it is dropped here too.
+export async function loadParkedBills(sellerId?: string): Promise<ParkedBill[]> {
+  const local = getLocalParkedBills(sellerId);
+  let server: ParkedBill[];
+  try {
+    await retryDiscards(sellerId);
+    server = await draftAPI.getDrafts();
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error('Error loading parked bills:', error);
+    }
+    return local;
+  }
+
+  const merged = new Map<string, ParkedBill>();
+  const discarded = readJson<string[]>(discardedKey(sellerId), []);
+  for (const bill of server) {
+    if (discarded.includes(bill.id)) continue;
+    merged.set(bill.id, { ...bill, synced: true });
+  }
+  for (const bill of local) {
+    if (merged.has(bill.id) || bill.synced) continue;
+    merged.set(bill.id, { ...bill, synced: await pushParkedBill(bill) });
+  }
+
+  saveLocalParkedBills(sellerId, Array.from(merged.values()));
+  return getLocalParkedBills(sellerId);
+}
+
+export async function removeParkedBill(sellerId: string | undefined, id: string): Promise<ParkedBill[]> {
+  saveLocalParkedBills(sellerId, getLocalParkedBills(sellerId).filter(bill => bill.id !== id));
+  try {
+    await draftAPI.deleteDraft(id);
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error('Error deleting parked bill:', error);
+    }
+    const discarded = readJson<string[]>(discardedKey(sellerId), []);
+    localStorage.setItem(discardedKey(sellerId), JSON.stringify([...discarded, id]));
+  }
+  return getLocalParkedBills(sellerId);
+}
+
+// Delete server copies of bills discarded while offline
+async function retryDiscards(sellerId?: string) {
+  const discarded = readJson<string[]>(discardedKey(sellerId), []);
+  const remaining: string[] = [];
+  for (const id of discarded) {
+    try {
+      await draftAPI.deleteDraft(id);
+    } catch {
+      remaining.push(id);
+    }
+  }
+  if (remaining.length > 0) {
+    localStorage.setItem(discardedKey(sellerId), JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(discardedKey(sellerId));
+  }
+}
+
+// The bill on the Create Bill screen, so leaving the page doesn't lose it
+export function getCurrentBill(sellerId?: string): ParkedBill | null {
+  return readJson<ParkedBill | null>(currentKey(sellerId), null);
+}
+
+export function saveCurrentBill(sellerId: string | undefined, bill: ParkedBill | null) {
+  if (bill) {
+    localStorage.setItem(currentKey(sellerId), JSON.stringify(bill));
+  } else {
+    localStorage.removeItem(currentKey(sellerId));
+  }
+}
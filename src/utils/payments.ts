@@ -0,0 +1,105 @@
+// Payment helpers shared by billing, history and the dashboard
+
+import type { Bill, BillPayment, PaymentMode } from '../types';
+
+// Payments taken at the counter, as opposed to later settlements of a credit bill
+export function isSalePayment(payment: BillPayment): boolean {
+  return !payment.receiptId && !payment.creditNoteNumber;
+}
+
+// Payments taken when the bill was made. Bills saved before payments were
+// recorded carry only a paymentMode and were always settled in full.
+export function getSalePayments(bill: Bill): BillPayment[] {
+  if (!bill.payments) {
+    return [{ mode: bill.paymentMode || '', amount: bill.grandTotal }];
+  }
+  return bill.payments.filter(isSalePayment);
+}
+
+export function getBalanceDue(bill: Bill): number {
+  return bill.balanceDue || 0;
+}
+
+// Short description of how a bill was paid, e.g. "UPI", "Cash + Credit" or "Credit"
+export function getPaymentLabel(bill: Bill): string {
+  const modes: string[] = Array.from(new Set(getSalePayments(bill).map(payment => payment.mode).filter(Boolean)));
+  const paidAtSale = getSalePayments(bill).reduce((sum, payment) => sum + payment.amount, 0);
+  if (paidAtSale < bill.grandTotal - 0.005) {
+    modes.push('Credit');
+  }
+  return modes.join(' + ');
+}
+
+// Cash handed back on a bill, from cash payments that record what was tendered
+export function getChangeGiven(bill: Bill): number {
+  return getSalePayments(bill).reduce(
+    (sum, payment) => sum + (payment.tendered ? payment.tendered - payment.amount : 0),
+    0
+  );
+}
+
+// A payment line as typed at the counter. An empty amount means "whatever is left".
+export interface TenderLine {
+  mode: PaymentMode;
+  amount: string;
+  reference: string;
+}
+
+export interface TenderSummary {
+  payments: BillPayment[];
+  tendered: number;
+  paid: number;
+  change: number;
+  // Card/UPI overpayment, which can't be handed back as change
+  excess: number;
+  balance: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Turn the tender lines into the payments stored on the bill. Paying more
+// than the total is only allowed in cash; the difference is change due and
+// comes off the cash lines, which keep what was handed over as `tendered`.
+export function summariseTender(grandTotal: number, lines: TenderLine[]): TenderSummary {
+  const typed = lines.map(line => (line.amount === '' ? null : Math.max(0, Number(line.amount) || 0)));
+  const remainder = Math.max(0, grandTotal - typed.reduce<number>((sum, amount) => sum + (amount ?? 0), 0));
+  const firstBlank = typed.indexOf(null);
+  const amounts = typed.map((amount, index) => amount ?? (index === firstBlank ? remainder : 0));
+
+  const tendered = round2(amounts.reduce((sum, amount) => sum + amount, 0));
+  const over = Math.max(0, round2(tendered - grandTotal));
+  const cashTendered = amounts.reduce((sum, amount, index) => sum + (lines[index].mode === 'Cash' ? amount : 0), 0);
+  const change = round2(Math.min(over, cashTendered));
+
+  // Take the change off the last cash lines first
+  let changeLeft = change;
+  const payments: BillPayment[] = [];
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index];
+    let amount = amounts[index];
+    const given = amount;
+    if (line.mode === 'Cash' && changeLeft > 0) {
+      const taken = Math.min(changeLeft, amount);
+      amount = round2(amount - taken);
+      changeLeft = round2(changeLeft - taken);
+    }
+    if (given > 0) {
+      payments.unshift({
+        mode: line.mode,
+        amount,
+        reference: line.reference.trim() || undefined,
+        tendered: given !== amount ? given : undefined,
+      });
+    }
+  }
+
+  const paid = round2(tendered - change);
+  return {
+    payments: payments.filter(payment => payment.amount > 0),
+    tendered,
+    paid,
+    change,
+    excess: round2(over - change),
+    balance: Math.max(0, round2(grandTotal - paid)),
+  };
+}
@@ -0,0 +1,24 @@
+// Price helpers for stock items
+// purchaseRate / averageCost are what we paid; sellingPrice, wholesalePrice and MRP are what we charge
+
+import type { PriceTier, StockItem } from '../types';
+
+// Default bill rate for a stock item. Items saved before selling prices existed
+// fall back to MRP and then to the purchase rate, which is what the bill used to charge.
+export function getSellingPrice(stock: StockItem, tier: PriceTier = 'retail'): number {
+  if (tier === 'wholesale' && stock.wholesalePrice) {
+    return stock.wholesalePrice;
+  }
+  return stock.sellingPrice || stock.mrp || stock.purchaseRate || 0;
+}
+
+// Cost used for margins: weighted average from purchases, else the last purchase rate
+export function getCostPrice(stock: StockItem): number | undefined {
+  const cost = stock.averageCost ?? stock.purchaseRate;
+  return cost !== undefined && cost !== null ? Number(cost) : undefined;
+}
+
+// Margin as a percentage of the selling price
+export function getMarginPercent(price: number, cost: number): number {
+  return price > 0 ? ((price - cost) / price) * 100 : 0;
+}
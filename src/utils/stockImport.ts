@@ -0,0 +1,187 @@
+// Bulk stock import from a CSV or Excel sheet
+// The file is read in the browser, its columns mapped to stock fields and every
+// row checked before anything is sent. The server matches rows to existing items
+// the same way (barcode first, then name), so the preview shows what will happen.
+
+import type { StockImportItem, StockItem } from '../types';
+import { normalizeBarcodes } from './barcode';
+import { GST_RATES } from './gst';
+
+export type StockImportField =
+  | 'name'
+  | 'quantity'
+  | 'purchaseRate'
+  | 'sellingPrice'
+  | 'wholesalePrice'
+  | 'mrp'
+  | 'category'
+  | 'hsnCode'
+  | 'gstRate'
+  | 'barcodes';
+
+// Headers recognised for each field, lower-case; the stock list export's own headers are included
+export const STOCK_IMPORT_FIELDS: Array<{ field: StockImportField; label: string; aliases: string[] }> = [
+  { field: 'name', label: 'Name', aliases: ['name', 'item', 'item name', 'product', 'product name', 'description'] },
+  { field: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'stock', 'opening stock', 'closing stock'] },
+  { field: 'purchaseRate', label: 'Cost Price', aliases: ['purchase rate', 'cost price', 'cost', 'purchase price', 'buying price'] },
+  { field: 'sellingPrice', label: 'Selling Price', aliases: ['selling price', 'price', 'rate', 'sale price', 'retail price'] },
+  { field: 'wholesalePrice', label: 'Wholesale Price', aliases: ['wholesale price', 'wholesale', 'wholesale rate'] },
+  { field: 'mrp', label: 'MRP', aliases: ['mrp', 'max retail price'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'group', 'department'] },
+  { field: 'hsnCode', label: 'HSN Code', aliases: ['hsn', 'hsn code', 'hsn/sac', 'sac'] },
+  { field: 'gstRate', label: 'GST %', aliases: ['gst %', 'gst', 'gst rate', 'tax %', 'tax rate'] },
+  { field: 'barcodes', label: 'Barcodes / SKUs', aliases: ['barcodes', 'barcode', 'sku', 'skus', 'ean', 'item code', 'code'] },
+];
+
+// Numeric fields and where each one goes on the imported item
+const NUMBER_FIELDS: Array<{ field: StockImportField; set: (item: StockImportItem, value: number) => void }> = [
+  { field: 'quantity', set: (item, value) => { item.quantity = value; } },
+  { field: 'purchaseRate', set: (item, value) => { item.purchaseRate = value; } },
+  { field: 'sellingPrice', set: (item, value) => { item.sellingPrice = value; } },
+  { field: 'wholesalePrice', set: (item, value) => { item.wholesalePrice = value; } },
+  { field: 'mrp', set: (item, value) => { item.mrp = value; } },
+  { field: 'gstRate', set: (item, value) => { item.gstRate = value; } },
+];
+
+// Column index for each field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<StockImportField, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  item: StockImportItem;
+  action: 'create' | 'update';
+  matchName?: string;
+  errors: string[];
+}
+
+// First sheet of a CSV or Excel file: the header row and the non-blank rows below it
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const XLSX = await import('xlsx');
+  // CSV is read as text so UTF-8 names come through intact
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: 'string' })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('The file has no sheets');
+  }
+
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '' });
+  return {
+    headers: headerRow.map(header => String(header).trim()),
+    rows: rows.map(row => row.map(cell => String(cell).trim())),
+  };
+}
+
+// Map columns whose header matches a known name for the field
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  for (const { field, aliases } of STOCK_IMPORT_FIELDS) {
+    const index = headers.findIndex((header, i) => !taken.has(i) && aliases.includes(header.toLowerCase()));
+    if (index >= 0) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+// "₹1,250.50" and "18%" read as numbers; blank is undefined, anything else NaN
+function parseNumber(text: string): number | undefined {
+  const cleaned = text.replace(/[₹,%\s]/g, '');
+  if (!cleaned) return undefined;
+  return /^-?\d*\.?\d+$/.test(cleaned) ? Number(cleaned) : NaN;
+}
+
+// Check every row and predict whether it creates a new item or updates one
+export function buildImportPreview(sheet: ImportSheet, mapping: ColumnMapping, stockItems: StockItem[]): ImportPreviewRow[] {
+  const byCode = new Map<string, StockItem>();
+  const byName = new Map<string, StockItem>();
+  for (const stock of stockItems) {
+    for (const code of stock.barcodes || []) {
+      byCode.set(code.toUpperCase(), stock);
+    }
+    byName.set(stock.name.trim().toLowerCase(), stock);
+  }
+  // Where each name and code first appears in the file, to flag repeats
+  const seenNames = new Map<string, number>();
+  const seenCodes = new Map<string, number>();
+
+  const cell = (values: string[], field: StockImportField) =>
+    mapping[field] === undefined ? '' : values[mapping[field]!] ?? '';
+
+  return sheet.rows
+    .map((values, index) => ({ values, row: index + 2 }))
+    .filter(({ values }) => values.some(value => value !== ''))
+    .map(({ values, row }) => {
+      const errors: string[] = [];
+      const item: StockImportItem = { row, name: cell(values, 'name') };
+
+      if (!item.name) {
+        errors.push('Name is missing');
+      }
+
+      for (const { field, set } of NUMBER_FIELDS) {
+        const text = cell(values, field);
+        const value = parseNumber(text);
+        if (value === undefined) continue;
+        const label = STOCK_IMPORT_FIELDS.find(f => f.field === field)!.label;
+        if (Number.isNaN(value)) {
+          errors.push(`${label} "${text}" is not a number`);
+        } else if (value < 0 && field !== 'quantity') {
+          errors.push(`${label} can't be negative`);
+        } else {
+          set(item, value);
+        }
+      }
+      if (item.gstRate !== undefined && !GST_RATES.includes(item.gstRate)) {
+        errors.push(`GST ${item.gstRate}% is not a GST rate`);
+      }
+
+      const category = cell(values, 'category');
+      if (category) item.category = category;
+      const hsnCode = cell(values, 'hsnCode');
+      if (hsnCode) item.hsnCode = hsnCode;
+      const barcodes = normalizeBarcodes(cell(values, 'barcodes'));
+      if (barcodes.length > 0) item.barcodes = barcodes;
+
+      // Repeats within the file
+      const nameKey = item.name.toLowerCase();
+      if (item.name && seenNames.has(nameKey)) {
+        errors.push(`Duplicate of row ${seenNames.get(nameKey)}`);
+      } else if (item.name) {
+        seenNames.set(nameKey, row);
+      }
+      for (const code of barcodes) {
+        const codeKey = code.toUpperCase();
+        if (seenCodes.has(codeKey)) {
+          errors.push(`Code ${code} is also on row ${seenCodes.get(codeKey)}`);
+        } else {
+          seenCodes.set(codeKey, row);
+        }
+      }
+
+      // Existing item this row updates, and codes that belong to a different one
+      const match = barcodes.map(code => byCode.get(code.toUpperCase())).find(Boolean) || byName.get(nameKey);
+      for (const code of barcodes) {
+        const owner = byCode.get(code.toUpperCase());
+        if (owner && owner.id !== match?.id) {
+          errors.push(`Code ${code} is already used by ${owner.name}`);
+        }
+      }
+
+      return {
+        row,
+        item,
+        action: match ? 'update' as const : 'create' as const,
+        matchName: match?.name,
+        errors,
+      };
+    });
+}
@@ -0,0 +1,27 @@
+// UPI deep links for "scan to pay" QR codes on bills
+// The link follows the NPCI UPI linking spec: any UPI app that scans it opens
+// a payment to our VPA with the amount and bill number already filled in.
+
+import type { Bill, BusinessSettings } from '../types';
+
+export function isValidUpiVpa(vpa: string): boolean {
+  return /^[\w.-]{2,256}@[a-zA-Z][\w.-]{1,63}$/.test(vpa.trim());
+}
+
+// upi://pay link for a bill, or null when no valid UPI ID is set up
+export function getUpiPayUrl(bill: Bill, settings: BusinessSettings | null): string | null {
+  const vpa = settings?.upiVpa?.trim();
+  if (!vpa || !isValidUpiVpa(vpa) || bill.grandTotal <= 0 || bill.voided) {
+    return null;
+  }
+
+  const params = new URLSearchParams({
+    pa: vpa,
+    pn: settings?.upiPayeeName?.trim() || settings?.businessName || '',
+    am: bill.grandTotal.toFixed(2),
+    cu: 'INR',
+    tn: `Bill ${bill.billNumber}`,
+  });
+  // UPI apps expect %20 for spaces, not the + URLSearchParams writes
+  return `upi://pay?${params.toString().replace(/\+/g, '%20')}`;
+}